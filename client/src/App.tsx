@@ -4,21 +4,33 @@ import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ThemeProvider } from "@/lib/theme-provider";
+import { LanguageProvider } from "@/lib/language-provider";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { AdminRoute } from "@/lib/admin-route";
+import { MerchantRoute } from "@/lib/merchant-route";
 
 import NotFound from "@/pages/not-found";
 import Welcome from "@/pages/welcome";
 import Registration from "@/pages/registration";
+import Login from "@/pages/login";
 import CodeSession from "@/pages/code-session";
 import Game from "@/pages/game";
 import Results from "@/pages/results";
+import History from "@/pages/history";
 import AdminLogin from "@/pages/admin/login";
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminQuestions from "@/pages/admin/questions";
 import AdminParticipants from "@/pages/admin/participants";
+import AdminDuplicates from "@/pages/admin/duplicates";
 import AdminSettings from "@/pages/admin/settings";
 import AdminCouponTemplates from "@/pages/admin/coupon-templates";
+import AdminMerchants from "@/pages/admin/merchants";
+import AdminVouchers from "@/pages/admin/vouchers";
+import AdminMessages from "@/pages/admin/messages";
+import AdminUsers from "@/pages/admin/users";
+import AdminAuditLog from "@/pages/admin/audit-log";
+import MerchantLogin from "@/pages/merchant/login";
+import MerchantRedeem from "@/pages/merchant/redeem";
 
 function Router() {
   return (
@@ -26,26 +38,52 @@ function Router() {
       {/* Public paths */}
       <Route path="/" component={Welcome} />
       <Route path="/register" component={Registration} />
+      <Route path="/login" component={Login} />
       <Route path="/admin/login" component={AdminLogin} />
+      <Route path="/merchant/login" component={MerchantLogin} />
       
       {/* Protected paths - require user authentication */}
       <ProtectedRoute path="/code-session" component={CodeSession} />
       <ProtectedRoute path="/game/:code" component={Game} />
       <ProtectedRoute path="/results/:code" component={Results} />
+      <ProtectedRoute path="/history" component={History} />
       <Route path="/admin/dashboard">
         {() => <AdminRoute component={AdminDashboard} />}
       </Route>
       <Route path="/admin/questions">
-        {() => <AdminRoute component={AdminQuestions} />}
+        {() => <AdminRoute component={AdminQuestions} permission="manageQuestions" />}
+      </Route>
+      <Route path="/admin/participants/duplicates">
+        {() => <AdminRoute component={AdminDuplicates} permission="viewParticipants" />}
       </Route>
       <Route path="/admin/participants">
-        {() => <AdminRoute component={AdminParticipants} />}
+        {() => <AdminRoute component={AdminParticipants} permission="viewParticipants" />}
       </Route>
       <Route path="/admin/settings">
-        {() => <AdminRoute component={AdminSettings} />}
+        {() => <AdminRoute component={AdminSettings} permission="manageSettings" />}
       </Route>
       <Route path="/admin/coupon-templates">
-        {() => <AdminRoute component={AdminCouponTemplates} />}
+        {() => <AdminRoute component={AdminCouponTemplates} permission="manageCoupons" />}
+      </Route>
+      <Route path="/admin/merchants">
+        {() => <AdminRoute component={AdminMerchants} permission="manageMerchants" />}
+      </Route>
+      <Route path="/admin/vouchers">
+        {() => <AdminRoute component={AdminVouchers} permission="viewVouchers" />}
+      </Route>
+      <Route path="/admin/messages">
+        {() => <AdminRoute component={AdminMessages} permission="viewMessages" />}
+      </Route>
+      <Route path="/admin/users">
+        {() => <AdminRoute component={AdminUsers} permission="manageAdmins" />}
+      </Route>
+      <Route path="/admin/audit-log">
+        {() => <AdminRoute component={AdminAuditLog} permission="viewAuditLog" />}
+      </Route>
+      
+      {/* Partner restaurant paths - require merchant login */}
+      <Route path="/merchant">
+        {() => <MerchantRoute component={MerchantRedeem} />}
       </Route>
       
       <Route component={NotFound} />
@@ -57,12 +95,14 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
-        <AuthProvider>
-          <div className="container mx-auto p-4 min-h-screen">
-            <Router />
-            <Toaster />
-          </div>
-        </AuthProvider>
+        <LanguageProvider>
+          <AuthProvider>
+            <div className="container mx-auto p-4 min-h-screen">
+              <Router />
+              <Toaster />
+            </div>
+          </AuthProvider>
+        </LanguageProvider>
       </ThemeProvider>
     </QueryClientProvider>
   );
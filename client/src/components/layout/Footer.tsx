@@ -2,6 +2,7 @@ import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { getQueryFn } from "@/lib/queryClient";
 import { Settings } from "@shared/schema";
+import { useLanguage } from "@/lib/language-provider";
 
 interface FooterProps {
   showAdminLink?: boolean;
@@ -12,13 +13,14 @@ export function Footer({ showAdminLink = false }: FooterProps) {
     queryKey: ["/api/settings"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
+  const { t } = useLanguage();
   return (
     <footer className="mt-12 text-center text-gray-500 text-sm">
-      <div className="flex justify-center items-center space-x-2 mb-2">
+      <div className="flex justify-center items-center space-x-2 rtl:space-x-reverse mb-2">
         {showAdminLink && (
           <>
             <Link href="/admin/login" className="text-primary hover:text-primary/80">
-              Admin
+              {t("footer.admin")}
             </Link>
             <span>|</span>
           </>
@@ -30,7 +32,7 @@ export function Footer({ showAdminLink = false }: FooterProps) {
             rel="noopener noreferrer" 
             className="text-primary hover:text-primary/80"
           >
-            Privacy Policy
+            {t("footer.privacy")}
           </a>
         )}
         {settings?.privacyPolicyUrl && settings?.termsAndConditionsUrl && <span>|</span>}
@@ -41,13 +43,13 @@ export function Footer({ showAdminLink = false }: FooterProps) {
             rel="noopener noreferrer" 
             className="text-primary hover:text-primary/80"
           >
-            Terms of Service
+            {t("footer.terms")}
           </a>
         )}
       </div>
-      <p>© {new Date().getFullYear()} Mawadha. All rights reserved.</p>
+      <p>{t("footer.rights", { year: new Date().getFullYear() })}</p>
       <p className="mt-1 text-xs">
-        Powered by <a href="https://eventhex.ai" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:text-blue-700 font-medium">EventHex</a>
+        {t("footer.poweredBy")} <a href="https://eventhex.ai" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:text-blue-700 font-medium">EventHex</a>
       </p>
     </footer>
   );
@@ -1,6 +1,11 @@
+import { LanguageSwitcher } from "./LanguageSwitcher";
+
 export function Header() {
   return (
-    <header className="flex justify-center mb-6 pt-4">
+    <header className="relative flex justify-center mb-6 pt-4">
+      <div className="absolute top-0 end-0">
+        <LanguageSwitcher />
+      </div>
       <div className="text-center">
         <div className="mx-auto mb-2 relative">
           <div className="flex flex-col items-center">
@@ -0,0 +1,19 @@
+import { Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/lib/language-provider";
+
+export function LanguageSwitcher() {
+  const { language, setLanguage } = useLanguage();
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => setLanguage(language === "ar" ? "en" : "ar")}
+      className="text-primary hover:text-primary/80 flex items-center gap-1"
+    >
+      <Languages className="h-4 w-4" />
+      {language === "ar" ? "English" : "العربية"}
+    </Button>
+  );
+}
@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLanguage } from "@/lib/language-provider";
+import { TranslationKey } from "@/lib/translations";
+
+// Expected local number format per country code
+export const PHONE_FORMATS: Record<string, { pattern: string; digits: number; country: TranslationKey }> = {
+  "+971": { pattern: "5XXXXXXXX", digits: 9, country: "country.uae" },
+  "+966": { pattern: "5XXXXXXXX", digits: 9, country: "country.ksa" },
+  "+973": { pattern: "XXXXXXXX", digits: 8, country: "country.bahrain" },
+  "+974": { pattern: "XXXXXXXX", digits: 8, country: "country.qatar" },
+  "+965": { pattern: "XXXXXXXX", digits: 8, country: "country.kuwait" },
+  "+968": { pattern: "XXXXXXXX", digits: 8, country: "country.oman" },
+  "+91": { pattern: "XXXXXXXXXX", digits: 10, country: "country.india" },
+};
+
+const DEFAULT_COUNTRY_CODE = "+971";
+
+// Whether a full number (country code + local number) has the right length for its country
+export function isValidWhatsappNumber(value: string): boolean {
+  const countryCode = Object.keys(PHONE_FORMATS).find(code => value.startsWith(code));
+  if (!countryCode) return false;
+  return new RegExp(`^\\d{${PHONE_FORMATS[countryCode].digits}}$`).test(value.substring(countryCode.length));
+}
+
+type WhatsappNumberInputProps = Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> & {
+  // Called with the country code followed by the local digits
+  onChange: (value: string) => void;
+};
+
+// Country code picker plus local number field. Extra props go to the number field, so it can
+// sit inside a FormControl.
+export const WhatsappNumberInput = React.forwardRef<HTMLInputElement, WhatsappNumberInputProps>(
+  ({ onChange, ...props }, ref) => {
+    const { t } = useLanguage();
+    const [countryCode, setCountryCode] = useState(DEFAULT_COUNTRY_CODE);
+    const [phoneNumber, setPhoneNumber] = useState("");
+
+    return (
+      <div>
+        <div className="flex items-center space-x-2" dir="ltr">
+          <Select defaultValue={DEFAULT_COUNTRY_CODE} onValueChange={val => {
+            setCountryCode(val);
+            // Clear the phone number when country changes
+            setPhoneNumber("");
+            onChange(val);
+          }}>
+            <SelectTrigger className="w-[110px]">
+              <SelectValue placeholder={t("registration.countryCode")} />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PHONE_FORMATS).map(([code, format]) => (
+                <SelectItem key={code} value={code}>{t(format.country)} {code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            ref={ref}
+            placeholder={t("registration.phonePlaceholder")}
+            type="text"
+            inputMode="numeric"
+            {...props}
+            onChange={(e) => {
+              // Only allow numbers
+              const onlyNumbers = e.target.value.replace(/\D/g, '');
+              setPhoneNumber(onlyNumbers);
+              onChange(`${countryCode}${onlyNumbers}`);
+            }}
+            value={phoneNumber}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          {t("registration.phoneFormat", PHONE_FORMATS[countryCode])}
+        </p>
+      </div>
+    );
+  }
+);
+WhatsappNumberInput.displayName = "WhatsappNumberInput";
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { AdminPermission, AdminRole, hasAdminPermission } from "@shared/schema";
+import { getQueryFn } from "@/lib/queryClient";
+
+export type AdminUser = {
+  id: number;
+  username: string;
+  role: AdminRole;
+};
+
+// The signed-in admin, or null when nobody is signed in
+export function useAdmin() {
+  const { data: admin, isLoading } = useQuery<AdminUser | null>({
+    queryKey: ["/api/admin/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const can = (permission: AdminPermission) => Boolean(admin && hasAdminPermission(admin.role, permission));
+
+  return { admin: admin ?? null, isLoading, can };
+}
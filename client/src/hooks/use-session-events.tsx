@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react";
+
+export type SessionEventType = "player_joined" | "partner_joined" | "partner_submitted" | "results_ready" | "rematch_created";
+
+export interface SessionEvent {
+  type: SessionEventType;
+  sessionCode: string;
+  userId?: number;
+  nextSessionCode?: string;
+}
+
+// Subscribes to real-time events for a game session over a WebSocket.
+// Pages should fall back to polling when `socketFailed` is true.
+export function useSessionEvents(
+  sessionCode: string | null | undefined,
+  onEvent: (event: SessionEvent) => void
+) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [socketFailed, setSocketFailed] = useState(false);
+
+  // Keep the latest handler without reconnecting on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!sessionCode) return;
+
+    if (typeof WebSocket === "undefined") {
+      setSocketFailed(true);
+      return;
+    }
+
+    setSocketFailed(false);
+    setIsConnected(false);
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws?code=${encodeURIComponent(sessionCode)}`);
+    } catch (error) {
+      console.error("Failed to open session socket:", error);
+      setSocketFailed(true);
+      return;
+    }
+
+    let closedByClient = false;
+
+    socket.onopen = () => setIsConnected(true);
+
+    socket.onmessage = (message) => {
+      try {
+        onEventRef.current(JSON.parse(message.data) as SessionEvent);
+      } catch (error) {
+        console.error("Invalid session event:", error);
+      }
+    };
+
+    socket.onerror = () => {
+      setSocketFailed(true);
+    };
+
+    socket.onclose = () => {
+      setIsConnected(false);
+      if (!closedByClient) {
+        setSocketFailed(true);
+      }
+    };
+
+    return () => {
+      closedByClient = true;
+      socket.close();
+    };
+  }, [sessionCode]);
+
+  return { isConnected, socketFailed };
+}
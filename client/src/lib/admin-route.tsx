@@ -1,32 +1,44 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/use-admin";
+import { AdminPermission } from "@shared/schema";
 
 type AdminRouteProps = {
   component: React.ComponentType;
+  // Roles without it are sent back to the dashboard
+  permission?: AdminPermission;
 };
 
-export function AdminRoute({ component: Component }: AdminRouteProps) {
+export function AdminRoute({ component: Component, permission }: AdminRouteProps) {
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { admin, isLoading, can } = useAdmin();
+  const isAllowed = !permission || can(permission);
 
   useEffect(() => {
+    if (isLoading) return;
+
     // Check if the user is logged in as admin
-    fetch("/api/admin/analytics")
-      .then(response => {
-        if (response.status === 401) {
-          toast({
-            title: "Authentication Required",
-            description: "Please log in as an admin to access this page.",
-            variant: "destructive"
-          });
-          navigate("/admin/login");
-        }
-      })
-      .catch(() => {
-        navigate("/admin/login");
+    if (!admin) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in as an admin to access this page.",
+        variant: "destructive"
+      });
+      navigate("/admin/login");
+    } else if (!isAllowed) {
+      toast({
+        title: "Access Denied",
+        description: "Your role doesn't have access to this page.",
+        variant: "destructive"
       });
-  }, [navigate, toast]);
+      navigate("/admin/dashboard");
+    }
+  }, [admin, isLoading, isAllowed, navigate, toast]);
 
+  if (isLoading || !admin || !isAllowed) {
+    return null;
+  }
   return <Component />;
 }
@@ -1,51 +1,54 @@
-export interface GameQuestion {
-  id: number;
-  text: string;
-  options: string[];
-  type: "common" | "individual";
-}
-
-export interface QuestionOption {
-  id: string;
-  label: string;
-  value: string;
-}
-
-export interface UserAnswer {
-  questionId: number;
-  optionId: number;
-  answer: string;
-}
-
-export interface GameSessionResult {
-  matchPercentage: number;
-  matchingAnswers: {
-    question: string;
-    answer: string;
-  }[];
-  nonMatchingAnswers: {
-    question: string;
-    yourAnswer: string;
-    partnerAnswer: string;
-  }[];
-  sessionId: number;
+// A player's results as the results page receives them
+export interface GameSessionResult extends MatchResult {
   voucher?: {
     voucherId: number;
     voucherCode: string;
     discount: string;
     validUntil: string;
+    // Business that honours the voucher, if it came from a merchant's template
+    merchant: {
+      name: string;
+      logoUrl: string | null;
+      address: string | null;
+    } | null;
+    // Only offered when the server has a pass certificate configured
+    walletPassAvailable: boolean;
   };
+  // Follow-up session a player has already started, if any
+  rematchCode?: string | null;
+}
+
+// A past session as shown on the player's history page
+export interface SessionHistoryItem {
+  sessionCode: string;
+  createdAt: string;
+  completedAt: string | null;
+  matchPercentage: number | null;
+  status: string;
+  completed: boolean;
+  partners: string[];
+  previousSessionCode: string | null;
+}
+
+// Themed question pack a player can pick when creating a session
+export interface QuestionPackSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  questionCount: number;
 }
 
 import { apiRequest } from "./queryClient";
+import { Language, GameQuestion, MatchResult } from "@shared/schema";
 
 // Fetch questions for a game session
-export async function fetchGameQuestions(sessionCode: string): Promise<{
+export async function fetchGameQuestions(sessionCode: string, language: Language = "en"): Promise<{
   commonQuestions: GameQuestion[];
   individualQuestions: GameQuestion[];
+  capacity: number;
 }> {
   try {
-    const response = await apiRequest("GET", `/api/sessions/${sessionCode}/questions`);
+    const response = await apiRequest("GET", `/api/sessions/${sessionCode}/questions?lang=${language}`);
     return await response.json();
   } catch (error) {
     console.error("Error fetching game questions:", error);
@@ -56,7 +59,7 @@ export async function fetchGameQuestions(sessionCode: string): Promise<{
 // Submit user's answers
 export async function submitAnswers(
   sessionCode: string, 
-  answers: { questionId: number; optionId: number }[]
+  answers: { questionId: number; optionId: number; predictedOptionId?: number }[]
 ): Promise<void> {
   try {
     await apiRequest("POST", `/api/sessions/${sessionCode}/answers`, { answers });
@@ -67,12 +70,67 @@ export async function submitAnswers(
 }
 
 // Get results for a game session
-export async function fetchGameResults(sessionCode: string): Promise<GameSessionResult> {
+export async function fetchGameResults(sessionCode: string, language: Language = "en"): Promise<GameSessionResult> {
   try {
-    const response = await apiRequest("GET", `/api/sessions/${sessionCode}/results`);
+    const response = await apiRequest("GET", `/api/sessions/${sessionCode}/results?lang=${language}`);
     return await response.json();
   } catch (error) {
     console.error("Error loading results:", error);
     throw new Error(error instanceof Error ? error.message : "Failed to fetch results");
   }
 }
+
+// Start (or join) a follow-up session with the same players
+export async function requestRematch(sessionCode: string): Promise<string> {
+  try {
+    const response = await apiRequest("POST", `/api/sessions/${sessionCode}/rematch`);
+    const data = await response.json();
+    return data.sessionCode;
+  } catch (error) {
+    console.error("Error creating rematch:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to create rematch");
+  }
+}
+
+// Fetch a generated file and hand it to the browser as a download
+async function downloadFile(url: string, filename: string): Promise<void> {
+  const response = await apiRequest("GET", url);
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the file
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+}
+
+// Download the server-rendered voucher PDF, printed in the player's language
+export async function downloadVoucherPdf(voucherId: number, voucherCode: string, language: Language = "en"): Promise<void> {
+  try {
+    await downloadFile(`/api/vouchers/${voucherId}/pdf?lang=${language}`, `Mawadha-Voucher-${voucherCode}.pdf`);
+  } catch (error) {
+    console.error("Error downloading voucher:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to download voucher");
+  }
+}
+
+// Download the voucher as a wallet pass; phones offer to add it to their wallet app
+export async function downloadWalletPass(voucherId: number, voucherCode: string): Promise<void> {
+  try {
+    await downloadFile(`/api/vouchers/${voucherId}/pass`, `Mawadha-Voucher-${voucherCode}.pkpass`);
+  } catch (error) {
+    console.error("Error downloading wallet pass:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to download wallet pass");
+  }
+}
+
+// Get every session the current user has played in, oldest first
+export async function fetchSessionHistory(): Promise<SessionHistoryItem[]> {
+  try {
+    const response = await apiRequest("GET", "/api/user/sessions");
+    return await response.json();
+  } catch (error) {
+    console.error("Error loading session history:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to fetch session history");
+  }
+}
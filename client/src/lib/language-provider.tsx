@@ -0,0 +1,58 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { Language, SUPPORTED_LANGUAGES } from "@shared/schema";
+import { translate, TranslationKey } from "@/lib/translations";
+
+type LanguageContextType = {
+  language: Language;
+  dir: "ltr" | "rtl";
+  setLanguage: (language: Language) => void;
+  t: (key: TranslationKey, values?: Record<string, string | number>) => string;
+};
+
+const LANGUAGE_STORAGE_KEY = "mawadha_language";
+
+function getInitialLanguage(): Language {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (stored && (SUPPORTED_LANGUAGES as readonly string[]).includes(stored)) {
+    return stored as Language;
+  }
+  return navigator.language?.startsWith("ar") ? "ar" : "en";
+}
+
+const LanguageContext = createContext<LanguageContextType | null>(null);
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(getInitialLanguage);
+  const dir = language === "ar" ? "rtl" : "ltr";
+
+  // Flip the whole document so layout and text direction follow the language
+  useEffect(() => {
+    const root = document.documentElement;
+    root.lang = language;
+    root.dir = dir;
+  }, [language, dir]);
+
+  const setLanguage = useCallback((newLanguage: Language) => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, newLanguage);
+    setLanguageState(newLanguage);
+  }, []);
+
+  const t = useCallback(
+    (key: TranslationKey, values?: Record<string, string | number>) => translate(language, key, values),
+    [language]
+  );
+
+  return (
+    <LanguageContext.Provider value={{ language, dir, setLanguage, t }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error("useLanguage must be used within a LanguageProvider");
+  }
+  return context;
+}
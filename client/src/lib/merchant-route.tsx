@@ -0,0 +1,38 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+
+type MerchantRouteProps = {
+  component: React.ComponentType;
+};
+
+// Come back to the same page, e.g. a scanned voucher link, after logging in
+export function merchantLoginPath() {
+  const next = window.location.pathname + window.location.search;
+  return `/merchant/login?next=${encodeURIComponent(next)}`;
+}
+
+export function MerchantRoute({ component: Component }: MerchantRouteProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Check if the user is logged in as a merchant
+    fetch("/api/merchant/me")
+      .then(response => {
+        if (response.status === 401) {
+          toast({
+            title: "Authentication Required",
+            description: "Please log in as a partner restaurant to redeem vouchers.",
+            variant: "destructive"
+          });
+          navigate(merchantLoginPath());
+        }
+      })
+      .catch(() => {
+        navigate(merchantLoginPath());
+      });
+  }, [navigate, toast]);
+
+  return <Component />;
+}
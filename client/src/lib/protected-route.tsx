@@ -22,9 +22,11 @@ export function ProtectedRoute({
   }
 
   if (!user) {
+    // Come back to the same page after registering, e.g. an invite link with a session code
+    const next = window.location.pathname + window.location.search;
     return (
       <Route path={path}>
-        <Redirect to="/register" />
+        <Redirect to={`/register?next=${encodeURIComponent(next)}`} />
       </Route>
     );
   }
@@ -0,0 +1,508 @@
+import { Language } from "@shared/schema";
+
+const en = {
+  // Welcome
+  "welcome.title": "Compatibility Challenge",
+  "welcome.subtitle": "Discover how well you know your partner and win exclusive vouchers together!",
+  "welcome.start": "Start Now",
+  "welcome.instagram": "Instagram",
+  "welcome.youtube": "YouTube",
+  "welcome.website": "Website",
+  "common.loading": "Loading...",
+  "common.genericError": "Something went wrong. Please try again.",
+
+  // Registration
+  "registration.title": "Player Registration",
+  "registration.fullName": "Full Name",
+  "registration.namePlaceholder": "Enter your full name",
+  "registration.nameTooShort": "Name must be at least 2 characters",
+  "registration.gender": "Gender",
+  "registration.genderPlaceholder": "Select gender",
+  "registration.genderRequired": "Please select your gender",
+  "registration.male": "Male",
+  "registration.female": "Female",
+  "registration.age": "Age",
+  "registration.agePlaceholder": "Enter your age",
+  "registration.ageInvalid": "Age must be a number",
+  "registration.whatsapp": "WhatsApp Number",
+  "registration.countryCode": "Code",
+  "registration.phonePlaceholder": "Enter phone number",
+  "registration.phoneInvalid": "Please enter a valid mobile number for the selected country",
+  "registration.phoneFormat": "Format: {pattern} ({digits} digits)",
+  "registration.submitting": "Registering...",
+  "registration.continue": "Continue",
+  "registration.successTitle": "Registration Successful",
+  "registration.successDescription": "You've been registered successfully.",
+  "registration.returningPlayer": "Played before?",
+  "registration.logIn": "Log in",
+  "login.title": "Welcome Back",
+  "login.description": "Enter the WhatsApp number you registered with and we'll send you a login code.",
+  "login.sendCode": "Send Code",
+  "login.sending": "Sending...",
+  "login.codeSent": "Code sent",
+  "login.codeSentDescription": "If {number} is registered, a code is on its way on WhatsApp.",
+  "login.sendFailed": "Couldn't send the code",
+  "login.sendFailedDescription": "Please try again in a moment.",
+  "login.sendLimitReached": "Too many codes have been sent to this number. Please try again later.",
+  "login.enterCode": "Enter the 6-digit code sent to {number}.",
+  "login.verifying": "Checking code...",
+  "login.verifyFailed": "Login failed",
+  "login.codeInvalid": "That code is wrong or has expired.",
+  "login.tooManyAttempts": "Too many wrong codes. Please request a new one.",
+  "login.changeNumber": "Change number",
+  "login.resend": "Resend code",
+  "login.successTitle": "Welcome back",
+  "login.successDescription": "You're logged in as {name}.",
+  "login.newPlayer": "New here?",
+  "login.register": "Register",
+  "country.uae": "UAE",
+  "country.ksa": "KSA",
+  "country.bahrain": "Bahrain",
+  "country.qatar": "Qatar",
+  "country.kuwait": "Kuwait",
+  "country.oman": "Oman",
+  "country.india": "India",
+
+  // Code session
+  "session.title": "Game Session",
+  "session.intro": "Generate a unique code or enter your partner's code to start the compatibility challenge!",
+  "session.choosePack": "Choose a question pack",
+  "session.classicPack": "Classic (mixed questions)",
+  "session.packQuestions": "{count} questions",
+  "session.generate": "Generate New Code",
+  "session.generating": "Generating...",
+  "session.or": "- OR -",
+  "session.enterPartnerCode": "Enter Partner's Code",
+  "session.codePlaceholder": "Enter 6-digit code",
+  "session.join": "Join Partner",
+  "session.joining": "Joining...",
+  "session.yourCode": "Your session code is:",
+  "session.shareCode": "Share this code with your partner to join the same session",
+  "session.waiting": "Waiting for your partner to join...",
+  "session.partnerJoined": "Partner has joined! Ready to start the challenge.",
+  "session.start": "Start Challenge",
+  "session.checking": "Checking...",
+  "session.loadingProfile": "Loading your profile...",
+  "session.logout": "Log Out (Test)",
+  "session.viewHistory": "My History",
+  "session.registrationRequired": "Registration Required",
+  "session.registerToGenerate": "Please register first to generate a code.",
+  "session.registerToJoin": "Please register first to join a session.",
+  "session.codeGenerated": "Code Generated",
+  "session.codeGeneratedDescription": "Share this code with your partner to start the game.",
+  "session.generateFailed": "Code Generation Failed",
+  "session.generateFailedDescription": "Failed to generate a session code. Please try again.",
+  "session.codeRequired": "Code Required",
+  "session.codeRequiredDescription": "Please enter your partner's code to join the session.",
+  "session.joined": "Session Joined",
+  "session.joinedDescription": "You've successfully joined your partner's session.",
+  "session.joinFailed": "Failed to Join",
+  "session.joinFailedDescription": "Failed to join the session. Please check the code and try again.",
+  "session.codeExpired": "This session code has expired. Ask your partner to generate a new one.",
+  "session.authRequired": "Authentication Required",
+  "session.authRequiredDescription": "Please login again before starting the game.",
+  "session.players": "Players",
+  "session.couple": "Couple (2 players)",
+  "session.groupOf": "Group of {count}",
+  "session.playersJoined": "{count}/{capacity} players have joined",
+  "session.waitingPlayers": "Waiting for everyone to join...",
+  "session.groupReady": "Everyone has joined! Ready to start the challenge.",
+  "session.shareCodeGroup": "Share this code with your group to join the same session",
+  "session.inviteLabel": "Or send the code on WhatsApp",
+  "session.invitePlaceholder": "+971501234567",
+  "session.sendInvite": "Send Invite",
+  "session.sendingInvite": "Sending...",
+  "session.inviteSent": "Invite Sent",
+  "session.inviteSentDescription": "We've sent the code to {number} on WhatsApp.",
+  "session.inviteFailed": "Invite Not Sent",
+  "session.inviteInvalidNumber": "Enter the number with its country code, e.g. +971501234567.",
+  "session.inviteLimitReached": "You've sent the maximum number of invites for this session. Please share the code yourself.",
+  "session.inviteFailedDescription": "We couldn't send the invite. Please share the code yourself.",
+
+  // Game
+  "game.title": "Compatibility Quiz",
+  "game.question": "Question",
+  "game.yourAnswer": "Your answer",
+  "game.predictPartner": "What do you think your partner will answer?",
+  "game.predictGroup": "What do you think the others will answer?",
+  "game.waitingGroup": "Waiting for the other players to complete the questionnaire...",
+  "game.autoRedirectGroup": "You'll automatically be redirected to see your results once everyone submits their answers.",
+  "game.previous": "Previous",
+  "game.next": "Next",
+  "game.submit": "Submit Answers",
+  "game.submitting": "Submitting...",
+  "game.submittedTitle": "Answers Submitted!",
+  "game.waitingPartner": "Waiting for your partner to complete the questionnaire...",
+  "game.autoRedirect": "You'll automatically be redirected to see your results once your partner submits their answers.",
+  "game.refresh": "Refresh Status",
+  "game.checkingStatus": "Checking submission status...",
+  "game.loadingQuestions": "Loading questions...",
+  "game.loadFailed": "Failed to Load Questions",
+  "game.resultsReady": "Results Ready",
+  "game.resultsReadyDescription": "You've already submitted answers for this session. Redirecting to results.",
+  "game.incomplete": "Incomplete Answers",
+  "game.incompleteDescription": "Please answer all questions before submitting.",
+  "game.submitted": "Answers Submitted",
+  "game.submittedDescription": "Your answers have been submitted successfully.",
+  "game.submitFailed": "Submission Failed",
+  "game.submitFailedDescription": "Failed to submit your answers. Please try again.",
+
+  // Results
+  "results.calculating": "Calculating your compatibility score...",
+  "results.score": "Compatibility Score",
+  "results.thanks": "Thank you for playing the Mawadha Mirror Quiz with your partner!",
+  "results.tierDeep": "'Deeply Connected'",
+  "results.tierDeepMessage": "\"You're soul mirrors. Keep this light alive!\"",
+  "results.tierBeautiful": "'Beautiful Reflection'",
+  "results.tierBeautifulMessage": "\"You understand each other well — keep nurturing your emotional garden.\"",
+  "results.tierClearer": "'Getting Clearer'",
+  "results.tierClearerMessage": "\"You're learning each other. Every honest attempt builds your bond.\"",
+  "results.tierPolishing": "'Mirror needs polishing'",
+  "results.tierPolishingMessage": "\"Every connection starts somewhere. Keep reflecting with love and courage.\"",
+  "results.keepGrowing": "Keep growing, keep reflecting.",
+  "results.signature": "— Team Mawadha",
+  "results.noMatches": "No matching answers found",
+  "results.agreement": "Agreement",
+  "results.knowledge": "How well you know each other",
+  "results.matching": "Matching Answers:",
+  "results.bothChose": "You both chose",
+  "results.different": "Different Answers:",
+  "results.youChose": "You chose:",
+  "results.partnerChose": "Partner chose:",
+  "results.partialCredit": "Close enough for {credit}% credit",
+  "results.guessPartner": "Guess Your Partner:",
+  "results.youGuessedRight": "You guessed right:",
+  "results.youGuessedWrong": "You guessed wrong:",
+  "results.partnerActual": "(partner chose {answer})",
+  "results.partnerGuessedRight": "Partner guessed right:",
+  "results.partnerGuessedWrong": "Partner guessed wrong:",
+  "results.yourActual": "(you chose {answer})",
+  "results.byCategory": "Compatibility by Category:",
+  "results.groupScore": "Group Compatibility",
+  "results.groupMatrix": "Compatibility Matrix:",
+  "results.mostCompatible": "Most Compatible Pair",
+  "results.you": "You",
+  "results.breakdown": "Score Breakdown:",
+  "results.question": "Question",
+  "results.weight": "Weight",
+  "results.credit": "Credit",
+  "results.congratulations": "Congratulations!",
+  "results.earnedVoucher": "You've Earned a Voucher!",
+  "results.matchPercentage": "Match percentage:",
+  "results.discountVoucher": "DISCOUNT VOUCHER",
+  "results.cashVoucher": "CASH VOUCHER",
+  "results.voucherCode": "VOUCHER CODE",
+  "results.preparingPdf": "Preparing PDF...",
+  "results.downloadVoucher": "Download Voucher",
+  "results.addToWallet": "Add to Wallet",
+  "results.preparingWalletPass": "Preparing pass...",
+  "results.walletPassFailed": "Failed to create the wallet pass. Please download the PDF instead.",
+  "results.clickToDownload": "↑ Click to download and save your voucher ↑",
+  "results.playAgain": "Play Again",
+  "results.backToWelcome": "Back to Welcome",
+  "results.loadFailed": "Failed to Load Results",
+  "results.downloaded": "Voucher Downloaded",
+  "results.downloadedDescription": "Your voucher has been downloaded successfully.",
+  "results.downloadFailed": "Download Failed",
+  "results.downloadFailedDescription": "Failed to download the voucher. Please try again.",
+  "results.playAgainSamePartner": "Play Again with the Same Partner",
+  "results.playAgainSameGroup": "Play Again with the Same Group",
+  "results.rematchInvite": "Your partner wants to play again!",
+  "results.joinRematch": "Join Rematch",
+  "results.rematchFailed": "Could Not Start a Rematch",
+  "results.viewHistory": "View Your History",
+  "category.travel": "Travel",
+  "category.food": "Food",
+  "category.finances": "Finances",
+  "category.family": "Family",
+  "category.faith": "Faith",
+  "category.humour": "Humour",
+
+  // History
+  "history.title": "Your Game History",
+  "history.chart": "Your Score Over Time",
+  "history.empty": "You haven't played any sessions yet.",
+  "history.with": "With {names}",
+  "history.waitingForPlayers": "Waiting for players",
+  "history.rematchOf": "Rematch of {code}",
+  "history.completed": "Completed",
+  "history.inProgress": "In Progress",
+  "history.abandoned": "Abandoned",
+  "history.viewResults": "View Results",
+  "history.loadFailed": "Failed to Load History",
+  "history.newSession": "New Session",
+
+  // Voucher
+  "voucher.validUntil": "Valid until: {date}",
+
+  // Footer
+  "footer.admin": "Admin",
+  "footer.privacy": "Privacy Policy",
+  "footer.terms": "Terms of Service",
+  "footer.rights": "© {year} Mawadha. All rights reserved.",
+  "footer.poweredBy": "Powered by",
+};
+
+export type TranslationKey = keyof typeof en;
+
+const ar: Record<TranslationKey, string> = {
+  // Welcome
+  "welcome.title": "تحدي التوافق",
+  "welcome.subtitle": "اكتشفا مدى معرفتكما ببعضكما واربحا قسائم حصرية معاً!",
+  "welcome.start": "ابدأ الآن",
+  "welcome.instagram": "إنستغرام",
+  "welcome.youtube": "يوتيوب",
+  "welcome.website": "الموقع الإلكتروني",
+  "common.loading": "جارٍ التحميل...",
+  "common.genericError": "حدث خطأ ما. يرجى المحاولة مرة أخرى.",
+
+  // Registration
+  "registration.title": "تسجيل اللاعب",
+  "registration.fullName": "الاسم الكامل",
+  "registration.namePlaceholder": "أدخل اسمك الكامل",
+  "registration.nameTooShort": "يجب أن يتكون الاسم من حرفين على الأقل",
+  "registration.gender": "الجنس",
+  "registration.genderPlaceholder": "اختر الجنس",
+  "registration.genderRequired": "يرجى اختيار الجنس",
+  "registration.male": "ذكر",
+  "registration.female": "أنثى",
+  "registration.age": "العمر",
+  "registration.agePlaceholder": "أدخل عمرك",
+  "registration.ageInvalid": "يجب أن يكون العمر رقماً",
+  "registration.whatsapp": "رقم واتساب",
+  "registration.countryCode": "الرمز",
+  "registration.phonePlaceholder": "أدخل رقم الهاتف",
+  "registration.phoneInvalid": "يرجى إدخال رقم جوال صحيح للدولة المختارة",
+  "registration.phoneFormat": "الصيغة: {pattern} ({digits} أرقام)",
+  "registration.submitting": "جارٍ التسجيل...",
+  "registration.continue": "متابعة",
+  "registration.successTitle": "تم التسجيل بنجاح",
+  "registration.successDescription": "تم تسجيلك بنجاح.",
+  "registration.returningPlayer": "لعبت من قبل؟",
+  "registration.logIn": "تسجيل الدخول",
+  "login.title": "مرحباً بعودتك",
+  "login.description": "أدخل رقم واتساب الذي سجلت به وسنرسل لك رمز الدخول.",
+  "login.sendCode": "إرسال الرمز",
+  "login.sending": "جارٍ الإرسال...",
+  "login.codeSent": "تم إرسال الرمز",
+  "login.codeSentDescription": "إذا كان الرقم {number} مسجلاً، فالرمز في طريقه إليك على واتساب.",
+  "login.sendFailed": "تعذر إرسال الرمز",
+  "login.sendFailedDescription": "يرجى المحاولة مرة أخرى بعد قليل.",
+  "login.sendLimitReached": "تم إرسال عدد كبير من الرموز إلى هذا الرقم. يرجى المحاولة لاحقاً.",
+  "login.enterCode": "أدخل الرمز المكون من 6 أرقام المرسل إلى {number}.",
+  "login.verifying": "جارٍ التحقق من الرمز...",
+  "login.verifyFailed": "فشل تسجيل الدخول",
+  "login.codeInvalid": "الرمز غير صحيح أو انتهت صلاحيته.",
+  "login.tooManyAttempts": "محاولات خاطئة كثيرة. يرجى طلب رمز جديد.",
+  "login.changeNumber": "تغيير الرقم",
+  "login.resend": "إعادة إرسال الرمز",
+  "login.successTitle": "مرحباً بعودتك",
+  "login.successDescription": "تم تسجيل دخولك باسم {name}.",
+  "login.newPlayer": "جديد هنا؟",
+  "login.register": "سجّل الآن",
+  "country.uae": "الإمارات",
+  "country.ksa": "السعودية",
+  "country.bahrain": "البحرين",
+  "country.qatar": "قطر",
+  "country.kuwait": "الكويت",
+  "country.oman": "عُمان",
+  "country.india": "الهند",
+
+  // Code session
+  "session.title": "جلسة اللعب",
+  "session.intro": "أنشئ رمزاً فريداً أو أدخل رمز شريكك لبدء تحدي التوافق!",
+  "session.choosePack": "اختر مجموعة الأسئلة",
+  "session.classicPack": "كلاسيكي (أسئلة متنوعة)",
+  "session.packQuestions": "{count} أسئلة",
+  "session.generate": "إنشاء رمز جديد",
+  "session.generating": "جارٍ الإنشاء...",
+  "session.or": "- أو -",
+  "session.enterPartnerCode": "أدخل رمز شريكك",
+  "session.codePlaceholder": "أدخل الرمز المكون من 6 خانات",
+  "session.join": "الانضمام إلى الشريك",
+  "session.joining": "جارٍ الانضمام...",
+  "session.yourCode": "رمز جلستك هو:",
+  "session.shareCode": "شارك هذا الرمز مع شريكك للانضمام إلى الجلسة نفسها",
+  "session.inviteLabel": "أو أرسل الرمز عبر واتساب",
+  "session.invitePlaceholder": "+971501234567",
+  "session.sendInvite": "إرسال الدعوة",
+  "session.sendingInvite": "جارٍ الإرسال...",
+  "session.inviteSent": "تم إرسال الدعوة",
+  "session.inviteSentDescription": "أرسلنا الرمز إلى {number} عبر واتساب.",
+  "session.inviteFailed": "لم يتم إرسال الدعوة",
+  "session.inviteInvalidNumber": "أدخل الرقم مع رمز الدولة، مثل +971501234567.",
+  "session.inviteLimitReached": "لقد أرسلت الحد الأقصى من الدعوات لهذه الجلسة. يرجى مشاركة الرمز بنفسك.",
+  "session.inviteFailedDescription": "تعذر إرسال الدعوة. يرجى مشاركة الرمز بنفسك.",
+  "session.waiting": "بانتظار انضمام شريكك...",
+  "session.partnerJoined": "انضم شريكك! أنتما جاهزان لبدء التحدي.",
+  "session.start": "ابدأ التحدي",
+  "session.checking": "جارٍ التحقق...",
+  "session.loadingProfile": "جارٍ تحميل ملفك الشخصي...",
+  "session.logout": "تسجيل الخروج (تجريبي)",
+  "session.viewHistory": "سجلي",
+  "session.registrationRequired": "التسجيل مطلوب",
+  "session.registerToGenerate": "يرجى التسجيل أولاً لإنشاء رمز.",
+  "session.registerToJoin": "يرجى التسجيل أولاً للانضمام إلى جلسة.",
+  "session.codeGenerated": "تم إنشاء الرمز",
+  "session.codeGeneratedDescription": "شارك هذا الرمز مع شريكك لبدء اللعبة.",
+  "session.generateFailed": "فشل إنشاء الرمز",
+  "session.generateFailedDescription": "تعذر إنشاء رمز الجلسة. يرجى المحاولة مرة أخرى.",
+  "session.codeRequired": "الرمز مطلوب",
+  "session.codeRequiredDescription": "يرجى إدخال رمز شريكك للانضمام إلى الجلسة.",
+  "session.joined": "تم الانضمام إلى الجلسة",
+  "session.joinedDescription": "لقد انضممت إلى جلسة شريكك بنجاح.",
+  "session.joinFailed": "تعذر الانضمام",
+  "session.joinFailedDescription": "تعذر الانضمام إلى الجلسة. يرجى التحقق من الرمز والمحاولة مرة أخرى.",
+  "session.codeExpired": "انتهت صلاحية رمز هذه الجلسة. اطلب من شريكك إنشاء رمز جديد.",
+  "session.authRequired": "تسجيل الدخول مطلوب",
+  "session.authRequiredDescription": "يرجى تسجيل الدخول مرة أخرى قبل بدء اللعبة.",
+  "session.players": "عدد اللاعبين",
+  "session.couple": "زوجان (لاعبان)",
+  "session.groupOf": "مجموعة من {count}",
+  "session.playersJoined": "انضم {count} من {capacity} لاعبين",
+  "session.waitingPlayers": "بانتظار انضمام الجميع...",
+  "session.groupReady": "انضم الجميع! أنتم جاهزون لبدء التحدي.",
+  "session.shareCodeGroup": "شارك هذا الرمز مع مجموعتك للانضمام إلى الجلسة نفسها",
+
+  // Game
+  "game.title": "اختبار التوافق",
+  "game.question": "السؤال",
+  "game.yourAnswer": "إجابتك",
+  "game.predictPartner": "برأيك، ماذا سيجيب شريكك؟",
+  "game.predictGroup": "برأيك، ماذا سيجيب الآخرون؟",
+  "game.waitingGroup": "بانتظار أن يُكمل باقي اللاعبين الأسئلة...",
+  "game.autoRedirectGroup": "سيتم تحويلك تلقائياً إلى النتائج بمجرد أن يرسل الجميع إجاباتهم.",
+  "game.previous": "السابق",
+  "game.next": "التالي",
+  "game.submit": "إرسال الإجابات",
+  "game.submitting": "جارٍ الإرسال...",
+  "game.submittedTitle": "تم إرسال الإجابات!",
+  "game.waitingPartner": "بانتظار أن يُكمل شريكك الأسئلة...",
+  "game.autoRedirect": "سيتم تحويلك تلقائياً إلى النتائج بمجرد أن يرسل شريكك إجاباته.",
+  "game.refresh": "تحديث الحالة",
+  "game.checkingStatus": "جارٍ التحقق من حالة الإرسال...",
+  "game.loadingQuestions": "جارٍ تحميل الأسئلة...",
+  "game.loadFailed": "تعذر تحميل الأسئلة",
+  "game.resultsReady": "النتائج جاهزة",
+  "game.resultsReadyDescription": "لقد أرسلت إجاباتك لهذه الجلسة مسبقاً. جارٍ التحويل إلى النتائج.",
+  "game.incomplete": "إجابات غير مكتملة",
+  "game.incompleteDescription": "يرجى الإجابة عن جميع الأسئلة قبل الإرسال.",
+  "game.submitted": "تم إرسال الإجابات",
+  "game.submittedDescription": "تم إرسال إجاباتك بنجاح.",
+  "game.submitFailed": "فشل الإرسال",
+  "game.submitFailedDescription": "تعذر إرسال إجاباتك. يرجى المحاولة مرة أخرى.",
+
+  // Results
+  "results.calculating": "جارٍ حساب نسبة توافقكما...",
+  "results.score": "نسبة التوافق",
+  "results.thanks": "شكراً لمشاركتكما في اختبار مرآة مودة!",
+  "results.tierDeep": "'تواصل عميق'",
+  "results.tierDeepMessage": "\"أنتما مرآتان لروح واحدة. حافظا على هذا النور!\"",
+  "results.tierBeautiful": "'انعكاس جميل'",
+  "results.tierBeautifulMessage": "\"تفهمان بعضكما جيداً — استمرا في رعاية حديقتكما العاطفية.\"",
+  "results.tierClearer": "'الصورة تتضح'",
+  "results.tierClearerMessage": "\"أنتما تتعرفان على بعضكما. كل محاولة صادقة تقوّي رابطكما.\"",
+  "results.tierPolishing": "'المرآة تحتاج إلى تلميع'",
+  "results.tierPolishingMessage": "\"كل علاقة تبدأ من مكان ما. استمرا في التأمل بحب وشجاعة.\"",
+  "results.keepGrowing": "استمرا في النمو، استمرا في التأمل.",
+  "results.signature": "— فريق مودة",
+  "results.noMatches": "لم يتم العثور على إجابات متطابقة",
+  "results.agreement": "التوافق",
+  "results.knowledge": "مدى معرفتكما ببعضكما",
+  "results.matching": "الإجابات المتطابقة:",
+  "results.bothChose": "اخترتما كلاكما",
+  "results.different": "الإجابات المختلفة:",
+  "results.youChose": "اخترتَ:",
+  "results.partnerChose": "اختار شريكك:",
+  "results.partialCredit": "قريبة بما يكفي لاحتساب {credit}%",
+  "results.guessPartner": "خمّن إجابة شريكك:",
+  "results.youGuessedRight": "تخمينك صحيح:",
+  "results.youGuessedWrong": "تخمينك خاطئ:",
+  "results.partnerActual": "(اختار شريكك {answer})",
+  "results.partnerGuessedRight": "تخمين شريكك صحيح:",
+  "results.partnerGuessedWrong": "تخمين شريكك خاطئ:",
+  "results.yourActual": "(اخترتَ {answer})",
+  "results.byCategory": "التوافق حسب الفئة:",
+  "results.groupScore": "توافق المجموعة",
+  "results.groupMatrix": "مصفوفة التوافق:",
+  "results.mostCompatible": "الثنائي الأكثر توافقاً",
+  "results.you": "أنت",
+  "results.breakdown": "تفاصيل النتيجة:",
+  "results.question": "السؤال",
+  "results.weight": "الوزن",
+  "results.credit": "النقاط",
+  "results.congratulations": "تهانينا!",
+  "results.earnedVoucher": "لقد ربحتما قسيمة!",
+  "results.matchPercentage": "نسبة التطابق:",
+  "results.discountVoucher": "قسيمة خصم",
+  "results.cashVoucher": "قسيمة نقدية",
+  "results.voucherCode": "رمز القسيمة",
+  "results.preparingPdf": "جارٍ تجهيز ملف PDF...",
+  "results.downloadVoucher": "تنزيل القسيمة",
+  "results.addToWallet": "إضافة إلى المحفظة",
+  "results.preparingWalletPass": "جارٍ تجهيز البطاقة...",
+  "results.walletPassFailed": "تعذر إنشاء بطاقة المحفظة. يرجى تنزيل ملف PDF بدلاً من ذلك.",
+  "results.clickToDownload": "↑ اضغط لتنزيل قسيمتك وحفظها ↑",
+  "results.playAgain": "العب مرة أخرى",
+  "results.backToWelcome": "العودة إلى البداية",
+  "results.loadFailed": "تعذر تحميل النتائج",
+  "results.downloaded": "تم تنزيل القسيمة",
+  "results.downloadedDescription": "تم تنزيل قسيمتك بنجاح.",
+  "results.downloadFailed": "فشل التنزيل",
+  "results.downloadFailedDescription": "تعذر تنزيل القسيمة. يرجى المحاولة مرة أخرى.",
+  "results.playAgainSamePartner": "العب مرة أخرى مع الشريك نفسه",
+  "results.playAgainSameGroup": "العب مرة أخرى مع المجموعة نفسها",
+  "results.rematchInvite": "شريكك يريد اللعب مرة أخرى!",
+  "results.joinRematch": "انضم إلى الجولة الجديدة",
+  "results.rematchFailed": "تعذر بدء جولة جديدة",
+  "results.viewHistory": "عرض سجلك",
+  "category.travel": "السفر",
+  "category.food": "الطعام",
+  "category.finances": "المال",
+  "category.family": "العائلة",
+  "category.faith": "الإيمان",
+  "category.humour": "الفكاهة",
+
+  // History
+  "history.title": "سجل ألعابك",
+  "history.chart": "نتيجتك عبر الوقت",
+  "history.empty": "لم تلعب أي جلسة بعد.",
+  "history.with": "مع {names}",
+  "history.waitingForPlayers": "بانتظار اللاعبين",
+  "history.rematchOf": "جولة جديدة بعد {code}",
+  "history.completed": "مكتملة",
+  "history.inProgress": "قيد اللعب",
+  "history.abandoned": "متروكة",
+  "history.viewResults": "عرض النتائج",
+  "history.loadFailed": "تعذر تحميل السجل",
+  "history.newSession": "جلسة جديدة",
+
+  // Voucher
+  "voucher.validUntil": "صالحة حتى: {date}",
+
+  // Footer
+  "footer.admin": "الإدارة",
+  "footer.privacy": "سياسة الخصوصية",
+  "footer.terms": "شروط الخدمة",
+  "footer.rights": "© {year} مودة. جميع الحقوق محفوظة.",
+  "footer.poweredBy": "مدعوم من",
+};
+
+const translations: Record<Language, Record<TranslationKey, string>> = { en, ar };
+
+// Look up a UI string and fill in `{name}` placeholders
+export function translate(
+  language: Language,
+  key: TranslationKey,
+  values: Record<string, string | number> = {}
+): string {
+  const template = translations[language][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in values ? String(values[name]) : match
+  );
+}
+
+// Locale passed to toLocaleDateString for the given language
+export function dateLocale(language: Language): string {
+  return language === "ar" ? "ar" : "en-US";
+}
@@ -0,0 +1,396 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Download, Eye, Loader2, RefreshCw, Search } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuditAction, AuditEntityType, AuditLog } from "@shared/schema";
+
+// Dates arrive as JSON strings
+type AuditEntry = Omit<AuditLog, "createdAt"> & { createdAt: string };
+
+interface AuditLogResponse {
+  entries: AuditEntry[];
+  pagination: { currentPage: number; totalPages: number; totalItems: number };
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  activate: "Activated",
+  deactivate: "Deactivated",
+  revoke: "Revoked",
+  extend: "Extended",
+  reissue: "Reissued",
+  upload: "Uploaded",
+  merge: "Merged"
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  question: "Question",
+  question_pool: "Question Pool",
+  question_pack: "Question Pack",
+  settings: "Settings",
+  logo: "Logo",
+  coupon_template: "Coupon Template",
+  merchant: "Merchant",
+  voucher: "Voucher",
+  admin: "Admin",
+  participant: "Participant"
+};
+
+function ActionBadge({ action }: { action: string }) {
+  const label = ACTION_LABELS[action as AuditAction] ?? action;
+  switch (action as AuditAction) {
+    case "create":
+    case "activate":
+    case "upload":
+      return <Badge variant="success">{label}</Badge>;
+    case "delete":
+    case "deactivate":
+    case "revoke":
+      return <Badge variant="destructive">{label}</Badge>;
+    default:
+      return <Badge>{label}</Badge>;
+  }
+}
+
+// Top-level fields that differ between the two snapshots
+function changedFields(before: unknown, after: unknown): string[] {
+  if (!before || !after || typeof before !== "object" || typeof after !== "object") {
+    return [];
+  }
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  return keys.filter((key) => key !== "updatedAt" && JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+}
+
+function filterQuery(search: string, action: string, entityType: string, from: string, to: string) {
+  const params = new URLSearchParams();
+  if (search) params.set("search", search);
+  if (action !== "all") params.set("action", action);
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  return params.toString();
+}
+
+export default function AdminAuditLog() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [searchInputValue, setSearchInputValue] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [viewing, setViewing] = useState<AuditEntry | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Debounce the search term
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchTerm(searchInputValue);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInputValue]);
+
+  const query = filterQuery(searchTerm, actionFilter, entityFilter, fromDate, toDate);
+
+  const { data, isLoading, isError, refetch } = useQuery<AuditLogResponse>({
+    queryKey: ["/api/admin/audit-log", page, query],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/audit-log?page=${page}&limit=20${query ? `&${query}` : ""}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch audit log");
+      }
+      return response.json();
+    }
+  });
+
+  const entries = data?.entries ?? [];
+  const pagination = data?.pagination ?? { currentPage: 1, totalPages: 1, totalItems: 0 };
+
+  // Downloads every entry matching the current filters, not just this page
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", `/api/admin/audit-log/export${query ? `?${query}` : ""}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `mawadha-audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export the audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto">
+      <Header />
+
+      <div className="my-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/admin/dashboard')}
+                    className="flex items-center gap-1"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </Button>
+                  <CardTitle>Audit Log</CardTitle>
+                </div>
+                <CardDescription>Who changed what in the admin area, and when</CardDescription>
+              </div>
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetch()}
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  <span className="ml-2">Refresh</span>
+                </Button>
+                <Button size="sm" onClick={handleExport} disabled={isExporting}>
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col lg:flex-row gap-2 mb-4">
+              <div className="relative w-full lg:w-56">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Admin or entity ID..."
+                  className="pl-8"
+                  value={searchInputValue}
+                  onChange={(e) => setSearchInputValue(e.target.value)}
+                />
+              </div>
+              <Select
+                value={entityFilter}
+                onValueChange={(value) => {
+                  setEntityFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-full lg:w-44">
+                  <SelectValue placeholder="Filter by entity" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Entities</SelectItem>
+                  {Object.entries(ENTITY_LABELS).map(([entityType, label]) => (
+                    <SelectItem key={entityType} value={entityType}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={actionFilter}
+                onValueChange={(value) => {
+                  setActionFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-full lg:w-40">
+                  <SelectValue placeholder="Filter by action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  aria-label="From"
+                  className="w-full lg:w-40"
+                  value={fromDate}
+                  onChange={(e) => {
+                    setFromDate(e.target.value);
+                    setPage(1);
+                  }}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="date"
+                  aria-label="To"
+                  className="w-full lg:w-40"
+                  value={toDate}
+                  onChange={(e) => {
+                    setToDate(e.target.value);
+                    setPage(1);
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead className="text-right">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading audit log...</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : isError ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-red-500">
+                        <p>Failed to load the audit log. Please try again.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <p className="text-muted-foreground">No changes recorded.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => {
+                      const changed = changedFields(entry.before, entry.after);
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap text-sm">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{entry.adminUsername}</TableCell>
+                          <TableCell>
+                            <ActionBadge action={entry.action} />
+                          </TableCell>
+                          <TableCell>
+                            <p>{ENTITY_LABELS[entry.entityType as AuditEntityType] ?? entry.entityType}</p>
+                            {entry.entityId && (
+                              <p className="text-xs text-muted-foreground font-mono">#{entry.entityId}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-xs">
+                            <p className="text-sm truncate text-muted-foreground" title={changed.join(", ")}>
+                              {changed.length > 0 ? changed.join(", ") : "-"}
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setViewing(entry)}
+                              title="View before and after"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between py-4">
+              <span className="text-sm text-muted-foreground">{pagination.totalItems} change(s)</span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page > 1 ? page - 1 : 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="px-2">
+                  Page {pagination.currentPage} of {pagination.totalPages || 1}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= (pagination.totalPages || 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Before and after dialog */}
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {viewing && `${ACTION_LABELS[viewing.action as AuditAction] ?? viewing.action} ${ENTITY_LABELS[viewing.entityType as AuditEntityType] ?? viewing.entityType}${viewing.entityId ? ` #${viewing.entityId}` : ""}`}
+            </DialogTitle>
+            <DialogDescription>
+              {viewing && `By ${viewing.adminUsername} on ${new Date(viewing.createdAt).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(["before", "after"] as const).map((side) => (
+              <div key={side}>
+                <h4 className="text-sm font-medium mb-2 capitalize">{side}</h4>
+                <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap break-all" dir="ltr">
+                  {viewing?.[side] != null ? JSON.stringify(viewing[side], null, 2) : "-"}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Footer showAdminLink={true} />
+    </div>
+  );
+}
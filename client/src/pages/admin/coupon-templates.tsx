@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
@@ -20,9 +21,14 @@ import { z } from "zod";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { CouponTemplate } from "@shared/schema";
+import { CouponTemplate, MerchantPublic } from "@shared/schema";
 import debounce from "lodash.debounce";
 
+// Blank means unlimited
+const optionalCount = z.string().refine(val => val === "" || (Number.isInteger(Number(val)) && Number(val) > 0), {
+  message: "Must be a whole number above 0, or blank for unlimited"
+});
+
 // Form validation schema
 const couponFormSchema = z.object({
   name: z.string().min(3, { message: "Name must be at least 3 characters" }),
@@ -34,13 +40,34 @@ const couponFormSchema = z.object({
   currency: z.string().min(1, { message: "Currency code is required" }),
   validityDays: z.coerce.number().int().positive(),
   matchPercentageThreshold: z.coerce.number().int().min(0).max(100),
+  matchPercentageMax: z.coerce.number().int().min(0).max(100),
+  priority: z.coerce.number().int(),
+  isConsolation: z.boolean().default(false),
+  // Merchant id as a string for the select, or "none" while the template is inactive
+  merchantId: z.string(),
+  maxIssuance: optionalCount,
+  dailyCap: optionalCount,
+  // datetime-local values, blank for no limit
+  startsAt: z.string(),
+  endsAt: z.string(),
   isActive: z.boolean().default(true)
+}).refine(data => data.matchPercentageThreshold <= data.matchPercentageMax, {
+  message: "Maximum must not be below the minimum",
+  path: ["matchPercentageMax"]
+}).refine(data => !data.startsAt || !data.endsAt || new Date(data.startsAt) < new Date(data.endsAt), {
+  message: "End must be after the start",
+  path: ["endsAt"]
+}).refine(data => !data.isActive || data.merchantId !== "none", {
+  message: "Choose a merchant before activating this template",
+  path: ["merchantId"]
 });
 
 type CouponFormValues = z.infer<typeof couponFormSchema>;
 
+type CouponTemplateWithMerchant = CouponTemplate & { merchant: { id: number; name: string } | null };
+
 interface CouponTemplateAPIResponse {
-  templates: CouponTemplate[];
+  templates: CouponTemplateWithMerchant[];
   pagination: {
     currentPage: number;
     totalPages: number;
@@ -58,6 +85,137 @@ function formatDiscount(type: string, value: string, currency?: string): string
   }
 }
 
+// Format a date for a datetime-local input, in the admin's local time
+function toDateTimeLocal(value: Date | string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function toTemplatePayload(data: CouponFormValues) {
+  return {
+    ...data,
+    merchantId: data.merchantId === "none" ? null : parseInt(data.merchantId),
+    maxIssuance: data.maxIssuance ? parseInt(data.maxIssuance) : null,
+    dailyCap: data.dailyCap ? parseInt(data.dailyCap) : null,
+    startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : null,
+    endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : null
+  };
+}
+
+// Short summary of how much a template has issued and when it can issue
+function formatAvailability(template: CouponTemplate): string[] {
+  const lines = [`${template.issuedCount} / ${template.maxIssuance ?? "∞"} issued`];
+  if (template.dailyCap) {
+    lines.push(`Max ${template.dailyCap} per day`);
+  }
+  if (template.startsAt) {
+    lines.push(`From ${new Date(template.startsAt).toLocaleString()}`);
+  }
+  if (template.endsAt) {
+    lines.push(`Until ${new Date(template.endsAt).toLocaleString()}`);
+  }
+  return lines;
+}
+
+interface TemplatePreview {
+  matchPercentage: number;
+  template: { id: number; name: string; discount: string; isConsolation: boolean } | null;
+  candidates: {
+    id: number;
+    name: string;
+    priority: number;
+    isConsolation: boolean;
+    availability: "available" | "not_started" | "ended" | "sold_out" | "daily_cap_reached";
+  }[];
+}
+
+const availabilityLabels: Record<TemplatePreview["candidates"][number]["availability"], string> = {
+  available: "Available",
+  not_started: "Not started",
+  ended: "Ended",
+  sold_out: "Sold out",
+  daily_cap_reached: "Daily cap reached"
+};
+
+// Shows which template a given match percentage would receive right now
+function TierPreview() {
+  const [score, setScore] = useState("75");
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await apiRequest("GET", `/api/admin/coupon-templates/preview?score=${encodeURIComponent(score)}`);
+      setPreview(await response.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to preview tiers: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-4 mb-4">
+      <form onSubmit={handlePreview} className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="preview-score">Preview a score</Label>
+          <Input
+            id="preview-score"
+            type="number"
+            min="0"
+            max="100"
+            value={score}
+            onChange={(e) => setScore(e.target.value)}
+            className="w-28"
+          />
+        </div>
+        <Button type="submit" variant="outline" size="sm" disabled={isLoading || score === ""}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          <span className="ml-2">Preview</span>
+        </Button>
+      </form>
+
+      {preview && (
+        <div className="mt-4 space-y-2 text-sm">
+          <p>
+            A {preview.matchPercentage}% match would receive{" "}
+            {preview.template ? (
+              <span className="font-semibold">
+                {preview.template.name} ({preview.template.discount})
+                {preview.template.isConsolation && " as a consolation"}
+              </span>
+            ) : (
+              <span className="font-semibold">no voucher</span>
+            )}
+            .
+          </p>
+          {preview.candidates.length > 0 && (
+            <ol className="list-decimal list-inside text-muted-foreground">
+              {preview.candidates.map((candidate) => (
+                <li key={candidate.id}>
+                  {candidate.name}
+                  {candidate.isConsolation && " (consolation)"}
+                  {" – "}
+                  {availabilityLabels[candidate.availability]}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function AdminCouponTemplates() {
   const [, navigate] = useLocation();
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -81,6 +239,14 @@ export default function AdminCouponTemplates() {
       currency: "AED",
       validityDays: 30,
       matchPercentageThreshold: 50,
+      matchPercentageMax: 100,
+      priority: 0,
+      isConsolation: false,
+      merchantId: "none",
+      maxIssuance: "",
+      dailyCap: "",
+      startsAt: "",
+      endsAt: "",
       isActive: true
     }
   });
@@ -107,10 +273,16 @@ export default function AdminCouponTemplates() {
     queryFn: getQueryFn({ on401: "throw" }),
   });
 
+  // Merchants a template can be linked to
+  const { data: merchants = [] } = useQuery<MerchantPublic[]>({
+    queryKey: ["/api/admin/merchants"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
   // Create coupon template mutation
   const createMutation = useMutation({
     mutationFn: async (data: CouponFormValues) => {
-      const response = await apiRequest("POST", "/api/admin/coupon-templates", data);
+      const response = await apiRequest("POST", "/api/admin/coupon-templates", toTemplatePayload(data));
       return response.json();
     },
     onSuccess: () => {
@@ -135,7 +307,7 @@ export default function AdminCouponTemplates() {
   const updateMutation = useMutation({
     mutationFn: async (data: CouponFormValues & { id: number }) => {
       const { id, ...templateData } = data;
-      const response = await apiRequest("PUT", `/api/admin/coupon-templates/${id}`, templateData);
+      const response = await apiRequest("PUT", `/api/admin/coupon-templates/${id}`, toTemplatePayload(templateData));
       return response.json();
     },
     onSuccess: () => {
@@ -223,13 +395,21 @@ export default function AdminCouponTemplates() {
       currency: "AED",
       validityDays: 30,
       matchPercentageThreshold: 50,
+      matchPercentageMax: 100,
+      priority: 0,
+      isConsolation: false,
+      merchantId: "none",
+      maxIssuance: "",
+      dailyCap: "",
+      startsAt: "",
+      endsAt: "",
       isActive: true
     });
     setEditingTemplate(null);
   };
 
   // Handle edit button click
-  const handleEdit = (template: CouponTemplate) => {
+  const handleEdit = (template: CouponTemplateWithMerchant) => {
     setEditingTemplate(template);
     form.reset({
       name: template.name,
@@ -238,6 +418,14 @@ export default function AdminCouponTemplates() {
       currency: template.currency || "AED",
       validityDays: template.validityDays,
       matchPercentageThreshold: template.matchPercentageThreshold,
+      matchPercentageMax: template.matchPercentageMax,
+      priority: template.priority,
+      isConsolation: template.isConsolation,
+      merchantId: template.merchantId ? String(template.merchantId) : "none",
+      maxIssuance: template.maxIssuance ? String(template.maxIssuance) : "",
+      dailyCap: template.dailyCap ? String(template.dailyCap) : "",
+      startsAt: toDateTimeLocal(template.startsAt),
+      endsAt: toDateTimeLocal(template.endsAt),
       isActive: Boolean(template.isActive)
     });
     setIsFormOpen(true);
@@ -320,15 +508,19 @@ export default function AdminCouponTemplates() {
               </div>
             </div>
 
+            <TierPreview />
+
             {/* Template listing table */}
             <div className="border rounded-md">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Name</TableHead>
+                    <TableHead>Merchant</TableHead>
                     <TableHead>Discount</TableHead>
                     <TableHead>Validity</TableHead>
-                    <TableHead>Threshold</TableHead>
+                    <TableHead>Score Range</TableHead>
+                    <TableHead>Availability</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -336,20 +528,20 @@ export default function AdminCouponTemplates() {
                 <TableBody>
                   {templatesLoading ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8">
+                      <TableCell colSpan={8} className="text-center py-8">
                         <Loader2 className="w-6 h-6 animate-spin mx-auto" />
                         <p className="mt-2 text-sm text-muted-foreground">Loading coupon templates...</p>
                       </TableCell>
                     </TableRow>
                   ) : templatesError ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8 text-red-500">
+                      <TableCell colSpan={8} className="text-center py-8 text-red-500">
                         <p>Failed to load coupon templates. Please try again.</p>
                       </TableCell>
                     </TableRow>
                   ) : (couponData && couponData.templates && couponData.templates.length === 0) ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8">
+                      <TableCell colSpan={8} className="text-center py-8">
                         <p className="text-muted-foreground">No coupon templates found.</p>
                         {debouncedSearchQuery && (
                           <p className="mt-2 text-sm text-muted-foreground">
@@ -369,11 +561,26 @@ export default function AdminCouponTemplates() {
                     couponData && couponData.templates ? couponData.templates.map((template) => (
                       <TableRow key={template.id}>
                         <TableCell className="font-medium">{template.name}</TableCell>
+                        <TableCell>{template.merchant?.name || <span className="text-muted-foreground">-</span>}</TableCell>
                         <TableCell>
                           {formatDiscount(template.discountType, template.discountValue, template.currency)}
                         </TableCell>
                         <TableCell>{template.validityDays} days</TableCell>
-                        <TableCell>{template.matchPercentageThreshold}%</TableCell>
+                        <TableCell>
+                          {template.isConsolation ? (
+                            <Badge variant="outline">Consolation</Badge>
+                          ) : (
+                            <span>{template.matchPercentageThreshold}–{template.matchPercentageMax}%</span>
+                          )}
+                          {template.priority !== 0 && (
+                            <p className="text-xs text-muted-foreground">Priority {template.priority}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {formatAvailability(template).map((line, index) => (
+                            <p key={line} className={index === 0 ? "" : "text-xs text-muted-foreground"}>{line}</p>
+                          ))}
+                        </TableCell>
                         <TableCell>
                           {template.isActive ? (
                             <Badge variant="success">Active</Badge>
@@ -466,6 +673,35 @@ export default function AdminCouponTemplates() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="merchantId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Merchant</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a merchant" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No merchant</SelectItem>
+                        {merchants.map((merchant) => (
+                          <SelectItem key={merchant.id} value={String(merchant.id)}>
+                            {merchant.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Vouchers from this template carry the merchant's branding and can only be redeemed by them. Required while the template is active.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="discountType"
@@ -564,24 +800,153 @@ export default function AdminCouponTemplates() {
               
               <FormField
                 control={form.control}
-                name="matchPercentageThreshold"
+                name="isConsolation"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Consolation Tier
+                      </FormLabel>
+                      <FormDescription>
+                        Given, whatever the score, to couples no scored tier can reward.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
+              {!form.watch("isConsolation") && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="matchPercentageThreshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Score</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Input type="number" min="0" max="100" {...field} />
+                            <span className="absolute right-3 top-2.5">%</span>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="matchPercentageMax"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maximum Score</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Input type="number" min="0" max="100" {...field} />
+                            <span className="absolute right-3 top-2.5">%</span>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormDescription className="sm:col-span-2 -mt-2">
+                    Match percentages in this range (inclusive) receive this coupon.
+                  </FormDescription>
+                </div>
+              )}
+              
+              <FormField
+                control={form.control}
+                name="priority"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Match Percentage Threshold</FormLabel>
+                    <FormLabel>Priority</FormLabel>
                     <FormControl>
-                      <div className="relative">
-                        <Input type="number" min="0" max="100" {...field} />
-                        <span className="absolute right-3 top-2.5">%</span>
-                      </div>
+                      <Input type="number" {...field} />
                     </FormControl>
                     <FormDescription>
-                      Minimum match percentage required to get this coupon (0-100).
+                      When several tiers cover a score, the highest priority is tried first.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="maxIssuance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Maximum Vouchers</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        {editingTemplate
+                          ? `${editingTemplate.issuedCount} issued so far.`
+                          : "Total vouchers this template may issue."}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dailyCap"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Daily Cap</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Vouchers this template may issue per day.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Available From</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Available Until</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground -mt-2">
+                Once a template is sold out or outside its dates, couples get the next template they qualify for.
+              </p>
+              
               <FormField
                 control={form.control}
                 name="isActive"
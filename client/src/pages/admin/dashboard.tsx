@@ -1,11 +1,12 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/use-admin";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from "recharts";
 import { Download } from "lucide-react";
 
@@ -35,6 +36,8 @@ export default function AdminDashboard() {
   const [isExporting, setIsExporting] = useState(false);
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { can } = useAdmin();
+  const canViewParticipants = can("viewParticipants");
   
   useEffect(() => {
     const loadDashboardData = async () => {
@@ -58,13 +61,15 @@ export default function AdminDashboard() {
         const analyticsData = await analyticsResponse.json();
         setAnalytics(analyticsData);
         
-        // Fetch participants data
-        const participantsResponse = await fetch("/api/admin/participants?limit=5");
-        if (!participantsResponse.ok) {
-          throw new Error("Failed to fetch participants data");
+        // Fetch participants data, for the roles allowed to see it
+        if (canViewParticipants) {
+          const participantsResponse = await fetch("/api/admin/participants?limit=5");
+          if (!participantsResponse.ok) {
+            throw new Error("Failed to fetch participants data");
+          }
+          const participantsData = await participantsResponse.json();
+          setParticipants(participantsData.participants || []);
         }
-        const participantsData = await participantsResponse.json();
-        setParticipants(participantsData.participants || []);
       } catch (error) {
         console.error("Error loading dashboard data:", error);
         toast({
@@ -78,11 +83,12 @@ export default function AdminDashboard() {
     };
     
     loadDashboardData();
-  }, [navigate, toast]);
+  }, [canViewParticipants, navigate, toast]);
   
   const handleLogout = async () => {
     try {
       await apiRequest("POST", "/api/admin/logout", {});
+      queryClient.removeQueries({ queryKey: ["/api/admin/me"] });
       toast({
         title: "Logged Out",
         description: "You have been logged out successfully.",
@@ -178,38 +184,96 @@ export default function AdminDashboard() {
               </div>
               
               <div className="flex flex-wrap gap-2 w-full md:w-auto">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => navigate("/admin/questions")}
-                  className="text-xs sm:text-sm flex-grow md:flex-grow-0"
-                >
-                  Questions
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => navigate("/admin/participants")}
-                  className="text-xs sm:text-sm flex-grow md:flex-grow-0"
-                >
-                  Participants
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => navigate("/admin/coupon-templates")}
-                  className="text-xs sm:text-sm flex-grow md:flex-grow-0"
-                >
-                  Coupons
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => navigate("/admin/settings")}
-                  className="text-xs sm:text-sm flex-grow md:flex-grow-0"
-                >
-                  Settings
-                </Button>
+                {can("manageQuestions") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/questions")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Questions
+                  </Button>
+                )}
+                {can("viewParticipants") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/participants")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Participants
+                  </Button>
+                )}
+                {can("manageCoupons") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/coupon-templates")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Coupons
+                  </Button>
+                )}
+                {can("viewVouchers") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/vouchers")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Vouchers
+                  </Button>
+                )}
+                {can("manageMerchants") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/merchants")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Merchants
+                  </Button>
+                )}
+                {can("viewMessages") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/messages")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Messages
+                  </Button>
+                )}
+                {can("manageSettings") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/settings")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Settings
+                  </Button>
+                )}
+                {can("manageAdmins") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/users")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Admins
+                  </Button>
+                )}
+                {can("viewAuditLog") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/admin/audit-log")}
+                    className="text-xs sm:text-sm flex-grow md:flex-grow-0"
+                  >
+                    Audit Log
+                  </Button>
+                )}
                 <Button 
                   onClick={handleLogout}
                   variant="outline"
@@ -222,7 +286,7 @@ export default function AdminDashboard() {
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
               <div className="bg-primary/5 p-4 rounded-lg">
-                <h3 className="text-sm font-medium text-gray-500">Total Participants</h3>
+                <h3 className="text-sm font-medium text-gray-500">Unique Participants</h3>
                 <p className="text-3xl font-bold text-primary">{analytics?.totalParticipants || 0}</p>
               </div>
               
@@ -291,63 +355,67 @@ export default function AdminDashboard() {
               </div>
             </div>
             
-            <div className="mb-4 flex justify-between items-center">
-              <h3 className="font-semibold text-gray-800">Recent Participants</h3>
-              <Button 
-                onClick={handleExportData}
-                className="text-primary bg-primary/10 text-sm px-3 py-1 rounded hover:bg-primary/20 flex items-center"
-                disabled={isExporting || !participants.length}
-              >
-                <Download className="h-4 w-4 mr-1" /> {isExporting ? "Exporting..." : "Export Data"}
-              </Button>
-            </div>
+            {canViewParticipants && (
+              <>
+                <div className="mb-4 flex justify-between items-center">
+                  <h3 className="font-semibold text-gray-800">Recent Participants</h3>
+                  <Button 
+                    onClick={handleExportData}
+                    className="text-primary bg-primary/10 text-sm px-3 py-1 rounded hover:bg-primary/20 flex items-center"
+                    disabled={isExporting || !participants.length}
+                  >
+                    <Download className="h-4 w-4 mr-1" /> {isExporting ? "Exporting..." : "Export Data"}
+                  </Button>
+                </div>
             
-            <div className="overflow-x-auto">
-              <table className="min-w-full bg-white">
-                <thead className="bg-primary/5 text-primary">
-                  <tr>
-                    <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Name</th>
-                    <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Gender</th>
-                    <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Age</th>
-                    <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">WhatsApp</th>
-                    <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Match Status</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-200">
-                  {participants.length > 0 ? (
-                    participants.map((participant) => (
-                      <tr key={participant.id}>
-                        <td className="py-3 px-3 whitespace-nowrap">{participant.name}</td>
-                        <td className="py-3 px-3 whitespace-nowrap">
-                          {participant.gender === 'prefer-not-to-say'
-                            ? 'Prefer Not To Say'
-                            : participant.gender.charAt(0).toUpperCase() + participant.gender.slice(1)}
-                        </td>
-                        <td className="py-3 px-3 whitespace-nowrap">{participant.age}</td>
-                        <td className="py-3 px-3 whitespace-nowrap">{participant.whatsappNumber}</td>
-                        <td className="py-3 px-3 whitespace-nowrap">
-                          <span className={`px-2 py-1 text-xs rounded-full ${
-                            participant.matchStatus === 'Completed' 
-                              ? 'bg-green-100 text-green-600' 
-                              : participant.matchStatus === 'Pending'
-                                ? 'bg-amber-100 text-amber-600'
-                                : 'bg-gray-100 text-gray-600'
-                          }`}>
-                            {participant.matchStatus}
-                          </span>
-                        </td>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full bg-white">
+                    <thead className="bg-primary/5 text-primary">
+                      <tr>
+                        <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Name</th>
+                        <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Gender</th>
+                        <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Age</th>
+                        <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">WhatsApp</th>
+                        <th className="py-2 px-3 text-left text-xs font-medium uppercase tracking-wider">Match Status</th>
                       </tr>
-                    ))
-                  ) : (
-                    <tr>
-                      <td colSpan={5} className="py-6 text-center text-gray-500">
-                        No participants found
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {participants.length > 0 ? (
+                        participants.map((participant) => (
+                          <tr key={participant.id}>
+                            <td className="py-3 px-3 whitespace-nowrap">{participant.name}</td>
+                            <td className="py-3 px-3 whitespace-nowrap">
+                              {participant.gender === 'prefer-not-to-say'
+                                ? 'Prefer Not To Say'
+                                : participant.gender.charAt(0).toUpperCase() + participant.gender.slice(1)}
+                            </td>
+                            <td className="py-3 px-3 whitespace-nowrap">{participant.age}</td>
+                            <td className="py-3 px-3 whitespace-nowrap">{participant.whatsappNumber}</td>
+                            <td className="py-3 px-3 whitespace-nowrap">
+                              <span className={`px-2 py-1 text-xs rounded-full ${
+                                participant.matchStatus === 'Completed' 
+                                  ? 'bg-green-100 text-green-600' 
+                                  : participant.matchStatus === 'Pending'
+                                    ? 'bg-amber-100 text-amber-600'
+                                    : 'bg-gray-100 text-gray-600'
+                              }`}>
+                                {participant.matchStatus}
+                              </span>
+                            </td>
+                          </tr>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={5} className="py-6 text-center text-gray-500">
+                            No participants found
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/use-admin";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Loader2, Merge, RefreshCw, Search } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { User } from "@shared/schema";
+
+// Dates arrive as JSON strings
+type ParticipantAccount = Omit<User, "createdAt"> & {
+  createdAt: string;
+  sessionCount: number;
+  lastPlayedAt: string | null;
+};
+
+interface DuplicateGroup {
+  whatsappNumber: string;
+  accounts: ParticipantAccount[];
+}
+
+interface DuplicatesResponse {
+  groups: DuplicateGroup[];
+  pagination: { currentPage: number; totalPages: number; totalItems: number };
+}
+
+// The account kept by default is the latest registration, which is the one a returning player signs in to
+function defaultSurvivor(group: DuplicateGroup): number {
+  return group.accounts[group.accounts.length - 1].id;
+}
+
+export default function AdminDuplicates() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const canMerge = can("manageParticipants");
+  const [page, setPage] = useState(1);
+  const [searchInputValue, setSearchInputValue] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  // Account chosen to keep, per number
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+  const [pendingGroup, setPendingGroup] = useState<DuplicateGroup | null>(null);
+
+  // Debounce the search term
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchTerm(searchInputValue);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInputValue]);
+
+  const { data, isLoading, isError, refetch } = useQuery<DuplicatesResponse>({
+    queryKey: ["/api/admin/participants/duplicates", page, searchTerm],
+    queryFn: async () => {
+      let url = `/api/admin/participants/duplicates?page=${page}&limit=10`;
+      if (searchTerm) {
+        url += `&search=${encodeURIComponent(searchTerm)}`;
+      }
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error("Failed to fetch duplicate participants");
+      }
+      return response.json();
+    }
+  });
+
+  const groups = data?.groups ?? [];
+  const pagination = data?.pagination ?? { currentPage: 1, totalPages: 1, totalItems: 0 };
+  const survivorFor = (group: DuplicateGroup) => survivors[group.whatsappNumber] ?? defaultSurvivor(group);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (data: { survivorId: number; duplicateIds: number[] }) => {
+      const response = await apiRequest("POST", "/api/admin/participants/merge", data);
+      return response.json() as Promise<{ survivor: User; merged: number }>;
+    },
+    onSuccess: ({ survivor, merged }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/participants/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/participants"] });
+      toast({ title: "Success", description: `Merged ${merged} account(s) into ${survivor.name}` });
+      setPendingGroup(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to merge accounts: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleConfirm = () => {
+    if (!pendingGroup) return;
+    const survivorId = survivorFor(pendingGroup);
+    mergeMutation.mutate({
+      survivorId,
+      duplicateIds: pendingGroup.accounts.map((account) => account.id).filter((id) => id !== survivorId)
+    });
+  };
+
+  const pendingSurvivor = pendingGroup?.accounts.find((account) => account.id === survivorFor(pendingGroup));
+
+  return (
+    <div className="container mx-auto">
+      <Header />
+
+      <div className="my-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/admin/participants')}
+                    className="flex items-center gap-1"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </Button>
+                  <CardTitle>Duplicate Participants</CardTitle>
+                </div>
+                <CardDescription>
+                  People who registered more than once with the same WhatsApp number.
+                  {canMerge && " Merging moves their sessions and answers to the account you keep and deletes the others."}
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                disabled={isLoading}
+                className="ml-auto"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4" />
+                )}
+                <span className="ml-2">Refresh</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="relative w-full sm:w-64 mb-4">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search name or number..."
+                className="pl-8"
+                value={searchInputValue}
+                onChange={(e) => setSearchInputValue(e.target.value)}
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                <p className="mt-2 text-sm text-muted-foreground">Loading duplicates...</p>
+              </div>
+            ) : isError ? (
+              <p className="text-center py-8 text-red-500">Failed to load duplicates. Please try again.</p>
+            ) : groups.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No duplicate registrations found.</p>
+            ) : (
+              <div className="space-y-6">
+                {groups.map((group) => (
+                  <div key={group.whatsappNumber} className="border rounded-md">
+                    <div className="flex items-center justify-between gap-4 px-4 py-3 border-b bg-muted/50">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono" dir="ltr">{group.whatsappNumber}</span>
+                        <Badge variant="outline">{group.accounts.length} accounts</Badge>
+                      </div>
+                      {canMerge && (
+                        <Button size="sm" onClick={() => setPendingGroup(group)} className="flex items-center gap-1">
+                          <Merge className="h-4 w-4" />
+                          Merge
+                        </Button>
+                      )}
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {canMerge && <TableHead className="w-16">Keep</TableHead>}
+                          <TableHead>Name</TableHead>
+                          <TableHead>Gender</TableHead>
+                          <TableHead>Age</TableHead>
+                          <TableHead>Registered</TableHead>
+                          <TableHead>Sessions</TableHead>
+                          <TableHead>Last Played</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.accounts.map((account) => (
+                          <TableRow key={account.id}>
+                            {canMerge && (
+                              <TableCell>
+                                <input
+                                  type="radio"
+                                  name={`survivor-${group.whatsappNumber}`}
+                                  aria-label={`Keep ${account.name}`}
+                                  className="h-4 w-4 accent-primary"
+                                  checked={survivorFor(group) === account.id}
+                                  onChange={() => setSurvivors((current) => ({ ...current, [group.whatsappNumber]: account.id }))}
+                                />
+                              </TableCell>
+                            )}
+                            <TableCell>{account.name}</TableCell>
+                            <TableCell className="capitalize">{account.gender}</TableCell>
+                            <TableCell>{account.age}</TableCell>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {new Date(account.createdAt).toLocaleString()}
+                            </TableCell>
+                            <TableCell>{account.sessionCount}</TableCell>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {account.lastPlayedAt ? new Date(account.lastPlayedAt).toLocaleString() : "—"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between py-4">
+              <span className="text-sm text-muted-foreground">{pagination.totalItems} number(s) with duplicates</span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page > 1 ? page - 1 : 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="px-2">
+                  Page {pagination.currentPage} of {pagination.totalPages || 1}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= (pagination.totalPages || 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={pendingGroup !== null} onOpenChange={(open) => !open && setPendingGroup(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Merge {pendingGroup?.accounts.length} Accounts</DialogTitle>
+            <DialogDescription>
+              Sessions, answers and messages of the other accounts with{" "}
+              <span className="font-mono" dir="ltr">{pendingGroup?.whatsappNumber}</span> will move to{" "}
+              <span className="font-medium">{pendingSurvivor?.name}</span>, and those accounts will be deleted.
+              This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingGroup(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={mergeMutation.isPending}>
+              {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer showAdminLink={true} />
+    </div>
+  );
+}
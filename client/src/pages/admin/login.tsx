@@ -12,7 +12,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { adminLoginSchema } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 type FormValues = z.infer<typeof adminLoginSchema>;
 
@@ -37,6 +37,8 @@ export default function AdminLogin() {
     try {
       const response = await apiRequest("POST", "/api/admin/login", values);
       await response.json();
+      // Load the new admin's role before the dashboard decides what to show
+      await queryClient.invalidateQueries({ queryKey: ["/api/admin/me"] });
       
       toast({
         title: "Login Successful",
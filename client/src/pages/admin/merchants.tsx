@@ -0,0 +1,587 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2, RefreshCw, Loader2, ArrowLeft, Store } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { z } from "zod";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { MerchantPublic } from "@shared/schema";
+
+// Form validation schema; the password is only required when creating a merchant
+const merchantFormSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters" }),
+  logoUrl: z.string(),
+  address: z.string(),
+  contactName: z.string(),
+  contactPhone: z.string(),
+  contactEmail: z.string().email({ message: "Must be a valid email" }).or(z.literal("")),
+  username: z.string().min(3, { message: "Username must be at least 3 characters" }),
+  password: z.string().min(8, { message: "Password must be at least 8 characters" }).or(z.literal("")),
+  isActive: z.boolean().default(true)
+});
+
+type MerchantFormValues = z.infer<typeof merchantFormSchema>;
+
+const emptyForm: MerchantFormValues = {
+  name: "",
+  logoUrl: "",
+  address: "",
+  contactName: "",
+  contactPhone: "",
+  contactEmail: "",
+  username: "",
+  password: "",
+  isActive: true
+};
+
+export default function AdminMerchants() {
+  const [, navigate] = useLocation();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingMerchant, setEditingMerchant] = useState<MerchantPublic | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [merchantToDelete, setMerchantToDelete] = useState<number | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { toast } = useToast();
+
+  const form = useForm<MerchantFormValues>({
+    resolver: zodResolver(merchantFormSchema),
+    defaultValues: emptyForm
+  });
+
+  const {
+    data: merchants,
+    isLoading: merchantsLoading,
+    isError: merchantsError,
+    refetch: refetchMerchants
+  } = useQuery<MerchantPublic[]>({
+    queryKey: ["/api/admin/merchants"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: MerchantFormValues) => {
+      const response = await apiRequest("POST", "/api/admin/merchants", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/merchants"] });
+      toast({
+        title: "Success",
+        description: "Merchant created successfully",
+      });
+      setIsFormOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create merchant: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: MerchantFormValues & { id: number }) => {
+      const { id, ...merchantData } = data;
+      const response = await apiRequest("PUT", `/api/admin/merchants/${id}`, merchantData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/merchants"] });
+      toast({
+        title: "Success",
+        description: "Merchant updated successfully",
+      });
+      setIsFormOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update merchant: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/admin/merchants/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/merchants"] });
+      toast({
+        title: "Success",
+        description: "Merchant deleted successfully",
+      });
+      setDeleteDialogOpen(false);
+      setMerchantToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete merchant: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: MerchantFormValues) => {
+    if (editingMerchant) {
+      updateMutation.mutate({ ...data, id: editingMerchant.id });
+    } else if (!data.password) {
+      form.setError("password", { message: "Password is required" });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const resetForm = () => {
+    form.reset(emptyForm);
+    setEditingMerchant(null);
+  };
+
+  const handleEdit = (merchant: MerchantPublic) => {
+    setEditingMerchant(merchant);
+    form.reset({
+      name: merchant.name,
+      logoUrl: merchant.logoUrl || "",
+      address: merchant.address || "",
+      contactName: merchant.contactName || "",
+      contactPhone: merchant.contactPhone || "",
+      contactEmail: merchant.contactEmail || "",
+      username: merchant.username,
+      password: "",
+      isActive: Boolean(merchant.isActive)
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (id: number) => {
+    setMerchantToDelete(id);
+    setDeleteDialogOpen(true);
+  };
+
+  // Upload the logo file and keep the returned URL in the form
+  const handleLogoUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("logo", file);
+      const response = await fetch("/api/admin/upload/logo", {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        throw new Error("Failed to upload logo");
+      }
+      const data = await response.json();
+      form.setValue("logoUrl", data.url);
+    } catch (error) {
+      console.error("Error uploading logo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to upload logo. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto">
+      <Header />
+
+      <div className="my-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/admin/dashboard')}
+                    className="flex items-center gap-1"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </Button>
+                  <CardTitle>Merchants</CardTitle>
+                </div>
+                <CardDescription>Partner businesses that honour vouchers and their redemption logins</CardDescription>
+              </div>
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetchMerchants()}
+                  disabled={merchantsLoading}
+                >
+                  {merchantsLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  <span className="ml-2">Refresh</span>
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    resetForm();
+                    setIsFormOpen(true);
+                  }}
+                  className="min-w-[120px]"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Merchant
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Merchant</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {merchantsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading merchants...</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : merchantsError ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-red-500">
+                        <p>Failed to load merchants. Please try again.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : !merchants || merchants.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        <p className="text-muted-foreground">No merchants yet.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    merchants.map((merchant) => (
+                      <TableRow key={merchant.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            {merchant.logoUrl ? (
+                              <img src={merchant.logoUrl} alt="" className="h-8 w-8 rounded object-contain" />
+                            ) : (
+                              <Store className="h-8 w-8 text-muted-foreground" />
+                            )}
+                            <div>
+                              <p className="font-medium">{merchant.name}</p>
+                              {merchant.address && (
+                                <p className="text-xs text-muted-foreground">{merchant.address}</p>
+                              )}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <p>{merchant.contactName || "-"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[merchant.contactPhone, merchant.contactEmail].filter(Boolean).join(" · ")}
+                          </p>
+                        </TableCell>
+                        <TableCell className="font-mono">{merchant.username}</TableCell>
+                        <TableCell>
+                          {merchant.isActive ? (
+                            <Badge variant="success">Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Inactive</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(merchant)}
+                              title="Edit"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDelete(merchant.id)}
+                              title="Delete"
+                              className="text-red-500 hover:text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Merchant Form Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingMerchant ? "Edit Merchant" : "Add Merchant"}</DialogTitle>
+            <DialogDescription>
+              {editingMerchant
+                ? "Update the merchant details below."
+                : "Fill in the details to add a new merchant."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Business Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter business name" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Printed on the vouchers this merchant honours.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="logoUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Logo</FormLabel>
+                    <div className="flex items-center gap-3">
+                      {field.value && (
+                        <img src={field.value} alt="" className="h-10 w-10 rounded object-contain border" />
+                      )}
+                      <FormControl>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          disabled={isUploading}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleLogoUpload(file);
+                          }}
+                        />
+                      </FormControl>
+                      {isUploading && <Loader2 className="h-4 w-4 animate-spin" />}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter address" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="contactName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="contactPhone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact Phone</FormLabel>
+                      <FormControl>
+                        <Input dir="ltr" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="contactEmail"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Login Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="off" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      {editingMerchant && (
+                        <FormDescription>Leave blank to keep the current password.</FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Active Status
+                      </FormLabel>
+                      <FormDescription>
+                        Inactive merchants cannot log in to redeem vouchers.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter className="flex gap-2 mt-6">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    resetForm();
+                    setIsFormOpen(false);
+                  }}
+                  className="border-gray-300 hover:bg-gray-100 min-w-[100px]"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || updateMutation.isPending || isUploading}
+                  className="min-w-[100px] bg-[#8e2c8e] hover:bg-[#8e2c8e]/90 text-white"
+                >
+                  {(createMutation.isPending || updateMutation.isPending) && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {editingMerchant ? "Update" : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this merchant? Merchants that still have coupon templates cannot be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex gap-2 mt-6">
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              className="border-gray-300 hover:bg-gray-100 min-w-[100px]"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => merchantToDelete && deleteMutation.mutate(merchantToDelete)}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white min-w-[100px]"
+            >
+              {deleteMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer showAdminLink={true} />
+    </div>
+  );
+}
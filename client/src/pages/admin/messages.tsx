@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, RefreshCw, Search } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Message, MessageKind, MessageStatus } from "@shared/schema";
+
+interface MessagesResponse {
+  // Dates arrive as JSON strings
+  messages: (Omit<Message, "createdAt" | "updatedAt"> & { createdAt: string; updatedAt: string })[];
+  pagination: { currentPage: number; totalPages: number; totalItems: number };
+}
+
+const KIND_LABELS: Record<MessageKind, string> = {
+  session_invite: "Session Invite",
+  voucher: "Voucher",
+  voucher_reminder: "Expiry Reminder"
+};
+
+function MessageStatusBadge({ status }: { status: string }) {
+  switch (status as MessageStatus) {
+    case "read":
+    case "delivered":
+      return <Badge variant="success" className="capitalize">{status}</Badge>;
+    case "sent":
+      return <Badge className="capitalize">{status}</Badge>;
+    case "failed":
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="outline">Queued</Badge>;
+  }
+}
+
+export default function AdminMessages() {
+  const [, navigate] = useLocation();
+  const [page, setPage] = useState(1);
+  const [searchInputValue, setSearchInputValue] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [kindFilter, setKindFilter] = useState("all");
+
+  // Debounce the search term
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchTerm(searchInputValue);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInputValue]);
+
+  const { data, isLoading, isError, refetch } = useQuery<MessagesResponse>({
+    queryKey: ["/api/admin/messages", page, searchTerm, statusFilter, kindFilter],
+    queryFn: async () => {
+      let url = `/api/admin/messages?page=${page}&limit=20`;
+      if (searchTerm) {
+        url += `&search=${encodeURIComponent(searchTerm)}`;
+      }
+      if (statusFilter !== "all") {
+        url += `&status=${encodeURIComponent(statusFilter)}`;
+      }
+      if (kindFilter !== "all") {
+        url += `&kind=${encodeURIComponent(kindFilter)}`;
+      }
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error("Failed to fetch messages");
+      }
+      return response.json();
+    }
+  });
+
+  const messages = data?.messages ?? [];
+  const pagination = data?.pagination ?? { currentPage: 1, totalPages: 1, totalItems: 0 };
+
+  return (
+    <div className="container mx-auto">
+      <Header />
+
+      <div className="my-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/admin/dashboard')}
+                    className="flex items-center gap-1"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </Button>
+                  <CardTitle>Messages</CardTitle>
+                </div>
+                <CardDescription>WhatsApp messages sent to players and whether they arrived</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                disabled={isLoading}
+                className="ml-auto"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4" />
+                )}
+                <span className="ml-2">Refresh</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-2 mb-4">
+              <div className="relative w-full sm:w-64">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search number..."
+                  className="pl-8"
+                  value={searchInputValue}
+                  onChange={(e) => setSearchInputValue(e.target.value)}
+                />
+              </div>
+              <Select
+                value={kindFilter}
+                onValueChange={(value) => {
+                  setKindFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-full sm:w-44">
+                  <SelectValue placeholder="Filter by type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => {
+                  setStatusFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="queued">Queued</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                  <SelectItem value="read">Read</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Message</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading messages...</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : isError ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-red-500">
+                        <p>Failed to load messages. Please try again.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : messages.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        <p className="text-muted-foreground">No messages found.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    messages.map((message) => (
+                      <TableRow key={message.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {new Date(message.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <p>{KIND_LABELS[message.kind as MessageKind] ?? message.kind}</p>
+                          <p className="text-xs text-muted-foreground">via {message.provider}</p>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm" dir="ltr">{message.recipient}</TableCell>
+                        <TableCell className="max-w-sm">
+                          <p className="text-sm truncate" title={message.body}>{message.body}</p>
+                        </TableCell>
+                        <TableCell>
+                          <MessageStatusBadge status={message.status} />
+                          {message.error && (
+                            <p className="text-xs text-red-500 mt-1">{message.error}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between py-4">
+              <span className="text-sm text-muted-foreground">{pagination.totalItems} message(s)</span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page > 1 ? page - 1 : 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="px-2">
+                  Page {pagination.currentPage} of {pagination.totalPages || 1}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= (pagination.totalPages || 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer showAdminLink={true} />
+    </div>
+  );
+}
@@ -30,6 +30,7 @@ function ParticipantStatusBadge({ status }: { status: string }) {
       break;
     case "No Voucher":
     case "Not Submitted":
+    case "Abandoned":
       variant = "destructive";
       break;
     case "Waiting for Partner":
@@ -42,12 +43,25 @@ function ParticipantStatusBadge({ status }: { status: string }) {
   return <Badge variant={variant}>{status}</Badge>;
 }
 
+function sessionStatusLabel(session: { completed: boolean | null; status: string }) {
+  if (session.completed) return "Completed";
+  if (session.status === "abandoned") return "Abandoned";
+  return "In Progress";
+}
+
+function SessionStatusBadge({ session }: { session: { completed: boolean | null; status: string } }) {
+  const label = sessionStatusLabel(session);
+  const variant = label === "Completed" ? "default" : label === "Abandoned" ? "destructive" : "outline";
+  return <Badge variant={variant}>{label}</Badge>;
+}
+
 function ParticipantsList() {
   const [page, setPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState("");
   const [searchInputValue, setSearchInputValue] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [sessionSearch, setSessionSearch] = useState("");
+  const [sessionStatusFilter, setSessionStatusFilter] = useState("all");
   const [sessionInputValue, setSessionInputValue] = useState("");
   
   // Initialize input values on component mount
@@ -98,12 +112,15 @@ function ParticipantsList() {
   });
 
   const { data: sessionsData, isLoading: isLoadingSessions } = useQuery({
-    queryKey: ["/api/admin/sessions", page, sessionSearch],
+    queryKey: ["/api/admin/sessions", page, sessionSearch, sessionStatusFilter],
     queryFn: async () => {
       let url = `/api/admin/sessions?page=${page}&limit=10`;
       if (sessionSearch) {
         url += `&search=${encodeURIComponent(sessionSearch)}`;
       }
+      if (sessionStatusFilter && sessionStatusFilter !== "all") {
+        url += `&status=${encodeURIComponent(sessionStatusFilter)}`;
+      }
       const response = await fetch(url);
       if (!response.ok) {
         throw new Error("Failed to fetch sessions");
@@ -173,6 +190,9 @@ function ParticipantsList() {
     if (sessionSearch) {
       url += `&search=${encodeURIComponent(sessionSearch)}`;
     }
+    if (sessionStatusFilter && sessionStatusFilter !== "all") {
+      url += `&status=${encodeURIComponent(sessionStatusFilter)}`;
+    }
     
     const response = await fetch(url);
     if (!response.ok) {
@@ -205,7 +225,7 @@ function ParticipantsList() {
       const sessionData = [
         session.sessionCode,
         new Date(session.createdAt).toLocaleDateString(),
-        session.completed ? "Completed" : "In Progress",
+        sessionStatusLabel(session),
         participantNames,
         voucherStatus
       ];
@@ -264,6 +284,7 @@ function ParticipantsList() {
                 <SelectItem value="No Voucher">No Voucher</SelectItem>
                 <SelectItem value="Not Submitted">Not Submitted</SelectItem>
                 <SelectItem value="Waiting for Partner">Waiting for Partner</SelectItem>
+                <SelectItem value="Abandoned">Abandoned</SelectItem>
                 <SelectItem value="Pending">Pending</SelectItem>
               </SelectContent>
             </Select>
@@ -297,7 +318,16 @@ function ParticipantsList() {
                 participants.map((participant) => (
                   <TableRow key={participant.id}>
                     <TableCell>{participant.name}</TableCell>
-                    <TableCell>{participant.whatsappNumber}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span dir="ltr">{participant.whatsappNumber}</span>
+                        {participant.accountCount > 1 && (
+                          <Badge variant="outline" title="Registered more than once with this number">
+                            {participant.accountCount} accounts
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{participant.gender}</TableCell>
                     <TableCell>{participant.age}</TableCell>
                     <TableCell>
@@ -348,6 +378,20 @@ function ParticipantsList() {
                 ref={sessionSearchInputRef}
               />
             </div>
+            <Select
+              value={sessionStatusFilter}
+              onValueChange={(value) => setSessionStatusFilter(value)}
+            >
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="active">In Progress</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="abandoned">Abandoned</SelectItem>
+              </SelectContent>
+            </Select>
             <Button
               size="sm"
               onClick={exportSessionsToPDF}
@@ -378,9 +422,7 @@ function ParticipantsList() {
                     <TableCell>{session.sessionCode}</TableCell>
                     <TableCell>{new Date(session.createdAt).toLocaleDateString()}</TableCell>
                     <TableCell>
-                      <Badge variant={session.completed ? "default" : "outline"}>
-                        {session.completed ? "Completed" : "In Progress"}
-                      </Badge>
+                      <SessionStatusBadge session={session} />
                     </TableCell>
                     <TableCell>
                       <ul className="list-disc pl-5">
@@ -439,6 +481,9 @@ function AdminParticipants() {
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Participants & Sessions</h1>
         <div className="space-x-2">
+          <Button variant="outline" onClick={() => window.location.href = "/admin/participants/duplicates"}>
+            Duplicates
+          </Button>
           <Button variant="outline" onClick={() => window.location.href = "/admin/dashboard"}>
             Back to Dashboard
           </Button>
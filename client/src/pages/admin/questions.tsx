@@ -8,32 +8,68 @@ import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { X, Plus, Edit, RefreshCw, Trash } from "lucide-react";
-import { Question, QuestionOption } from "@shared/schema";
+import { Question, QuestionOption, OptionSimilarity, QuestionPool, QuestionPack, QUESTION_CATEGORIES } from "@shared/schema";
 
 interface QuestionWithOptions extends Question {
   options: QuestionOption[];
+  similarities: OptionSimilarity[];
+}
+
+interface QuestionPackWithItems extends QuestionPack {
+  questionIds: number[];
 }
 
 const questionFormSchema = z.object({
   text: z.string().min(1, "Question text is required"),
+  textAr: z.string().optional(),
   questionType: z.enum(["common", "individual"]),
+  weight: z.coerce.number().int().min(1, "Weight must be at least 1").max(10, "Weight must be at most 10"),
+  poolId: z.number().nullable(),
+  category: z.enum(QUESTION_CATEGORIES).nullable(),
   options: z.array(
     z.object({
-      optionText: z.string().min(1, "Option text is required")
+      // Saved options keep their id so answers already given to them stay attached
+      id: z.number().optional(),
+      optionText: z.string().min(1, "Option text is required"),
+      optionTextAr: z.string().optional()
     })
-  ).min(2, "At least 2 options are required")
+  ).min(2, "At least 2 options are required"),
+  // Partial credit between option pairs, keyed by "i-j" option positions
+  similarities: z.record(z.coerce.number().int().min(0, "Min 0").max(100, "Max 100"))
 });
 
 type QuestionFormValues = z.infer<typeof questionFormSchema>;
 
+const poolFormSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  drawCount: z.coerce.number().int().min(1, "Draw count must be at least 1").max(50, "Draw count must be at most 50")
+});
+
+type PoolFormValues = z.infer<typeof poolFormSchema>;
+
+const packFormSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  description: z.string().optional(),
+  isActive: z.boolean(),
+  questionIds: z.array(z.number()).min(1, "A pack needs at least one question")
+});
+
+type PackFormValues = z.infer<typeof packFormSchema>;
+
+function pairKey(index: number, otherIndex: number) {
+  return `${index}-${otherIndex}`;
+}
+
 export default function AdminQuestions() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
@@ -42,13 +78,42 @@ export default function AdminQuestions() {
   const [activeTab, setActiveTab] = useState("all");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<QuestionWithOptions | null>(null);
+  const [pools, setPools] = useState<QuestionPool[]>([]);
+  const [isPoolDialogOpen, setIsPoolDialogOpen] = useState(false);
+  const [editingPool, setEditingPool] = useState<QuestionPool | null>(null);
+  const [packs, setPacks] = useState<QuestionPackWithItems[]>([]);
+  const [isPackDialogOpen, setIsPackDialogOpen] = useState(false);
+  const [editingPack, setEditingPack] = useState<QuestionPackWithItems | null>(null);
   
   const form = useForm<QuestionFormValues>({
     resolver: zodResolver(questionFormSchema),
     defaultValues: {
       text: "",
+      textAr: "",
       questionType: "common",
-      options: [{ optionText: "" }, { optionText: "" }]
+      weight: 1,
+      poolId: null,
+      category: null,
+      options: [{ optionText: "", optionTextAr: "" }, { optionText: "", optionTextAr: "" }],
+      similarities: {}
+    }
+  });
+  
+  const poolForm = useForm<PoolFormValues>({
+    resolver: zodResolver(poolFormSchema),
+    defaultValues: {
+      name: "",
+      drawCount: 1
+    }
+  });
+  
+  const packForm = useForm<PackFormValues>({
+    resolver: zodResolver(packFormSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      isActive: true,
+      questionIds: []
     }
   });
   
@@ -75,6 +140,16 @@ export default function AdminQuestions() {
         
         const data = await response.json();
         setQuestions(data);
+        
+        const poolsResponse = await fetch("/api/admin/question-pools");
+        if (poolsResponse.ok) {
+          setPools(await poolsResponse.json());
+        }
+        
+        const packsResponse = await fetch("/api/admin/question-packs");
+        if (packsResponse.ok) {
+          setPacks(await packsResponse.json());
+        }
       } catch (error) {
         console.error("Error loading questions:", error);
         toast({
@@ -120,11 +195,26 @@ export default function AdminQuestions() {
   const handleEditQuestion = (question: QuestionWithOptions) => {
     setEditingQuestion(question);
     
+    // Map stored similarities back to option positions
+    const similarities: Record<string, number> = {};
+    question.similarities.forEach(similarity => {
+      const index = question.options.findIndex(opt => opt.id === similarity.optionId);
+      const otherIndex = question.options.findIndex(opt => opt.id === similarity.otherOptionId);
+      if (index >= 0 && otherIndex >= 0) {
+        similarities[pairKey(Math.min(index, otherIndex), Math.max(index, otherIndex))] = similarity.score;
+      }
+    });
+    
     // Reset form values with the question data
     form.reset({
       text: question.text,
+      textAr: question.textAr ?? "",
       questionType: question.questionType as "common" | "individual",
-      options: question.options.map(opt => ({ optionText: opt.optionText }))
+      weight: question.weight,
+      poolId: question.poolId,
+      category: question.category as QuestionFormValues["category"],
+      options: question.options.map(opt => ({ id: opt.id, optionText: opt.optionText, optionTextAr: opt.optionTextAr ?? "" })),
+      similarities
     });
     
     setIsDialogOpen(true);
@@ -137,8 +227,13 @@ export default function AdminQuestions() {
     // Reset form with default values
     form.reset({
       text: "",
+      textAr: "",
       questionType: "common",
-      options: [{ optionText: "" }, { optionText: "" }]
+      weight: 1,
+      poolId: null,
+      category: null,
+      options: [{ optionText: "", optionTextAr: "" }, { optionText: "", optionTextAr: "" }],
+      similarities: {}
     });
     
     setIsDialogOpen(true);
@@ -147,7 +242,7 @@ export default function AdminQuestions() {
   // Add option field
   const addOption = () => {
     const currentOptions = form.getValues().options || [];
-    form.setValue("options", [...currentOptions, { optionText: "" }]);
+    form.setValue("options", [...currentOptions, { optionText: "", optionTextAr: "" }]);
   };
   
   // Remove option field
@@ -158,6 +253,15 @@ export default function AdminQuestions() {
         "options", 
         currentOptions.filter((_, i) => i !== index)
       );
+      
+      // Drop similarities for the removed option and shift the later positions down
+      const shifted: Record<string, number> = {};
+      Object.entries(form.getValues().similarities || {}).forEach(([key, score]) => {
+        const [a, b] = key.split("-").map(Number);
+        if (a === index || b === index) return;
+        shifted[pairKey(a > index ? a - 1 : a, b > index ? b - 1 : b)] = score;
+      });
+      form.setValue("similarities", shifted);
     } else {
       toast({
         title: "Cannot Remove Option",
@@ -176,14 +280,23 @@ export default function AdminQuestions() {
       
       const method = editingQuestion ? "PUT" : "POST";
       
+      const { similarities, ...questionData } = values;
+      const similarityList = Object.entries(similarities || {})
+        .filter(([, score]) => score > 0)
+        .map(([key, score]) => {
+          const [optionIndex, otherOptionIndex] = key.split("-").map(Number);
+          return { optionIndex, otherOptionIndex, score };
+        });
+      
       const response = await fetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(values)
+        body: JSON.stringify({ ...questionData, similarities: similarityList })
       });
       
       if (!response.ok) {
-        throw new Error("Failed to save question");
+        const body = await response.json().catch(() => null);
+        throw new Error(response.status === 409 && body?.error ? body.error : "Failed to save question");
       }
       
       // Refresh questions list
@@ -221,11 +334,13 @@ export default function AdminQuestions() {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to delete question");
+        const body = await response.json().catch(() => null);
+        throw new Error(response.status === 409 && body?.error ? body.error : "Failed to delete question");
       }
       
       // Remove question from state
       setQuestions(questions.filter(q => q.id !== questionId));
+      setPacks(packs.map(p => ({ ...p, questionIds: p.questionIds.filter(id => id !== questionId) })));
       
       toast({
         title: "Question Deleted",
@@ -241,6 +356,165 @@ export default function AdminQuestions() {
     }
   };
   
+  // Add or edit a question pool
+  const handleOpenPoolDialog = (pool: QuestionPool | null) => {
+    setEditingPool(pool);
+    poolForm.reset({
+      name: pool?.name ?? "",
+      drawCount: pool?.drawCount ?? 1
+    });
+    setIsPoolDialogOpen(true);
+  };
+  
+  // Submit question pool form
+  const onSubmitPool = async (values: PoolFormValues) => {
+    try {
+      const url = editingPool 
+        ? `/api/admin/question-pools/${editingPool.id}` 
+        : "/api/admin/question-pools";
+      
+      const response = await fetch(url, {
+        method: editingPool ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values)
+      });
+      
+      if (!response.ok) {
+        throw new Error("Failed to save question pool");
+      }
+      
+      const updatedPoolsResponse = await fetch("/api/admin/question-pools");
+      setPools(await updatedPoolsResponse.json());
+      
+      setIsPoolDialogOpen(false);
+      toast({
+        title: editingPool ? "Pool Updated" : "Pool Added",
+        description: editingPool 
+          ? "The question pool has been updated successfully." 
+          : "The new question pool has been added successfully."
+      });
+    } catch (error) {
+      console.error("Error saving question pool:", error);
+      toast({
+        title: "Failed to Save Pool",
+        description: error instanceof Error ? error.message : "An error occurred while saving the question pool",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Delete question pool
+  const handleDeletePool = async (poolId: number) => {
+    if (!confirm("Are you sure you want to delete this pool? Its questions will no longer be drawn into sessions.")) {
+      return;
+    }
+    
+    try {
+      const response = await fetch(`/api/admin/question-pools/${poolId}`, {
+        method: "DELETE"
+      });
+      
+      if (!response.ok) {
+        throw new Error("Failed to delete question pool");
+      }
+      
+      setPools(pools.filter(p => p.id !== poolId));
+      setQuestions(questions.map(q => q.poolId === poolId ? { ...q, poolId: null } : q));
+      
+      toast({
+        title: "Pool Deleted",
+        description: "The question pool has been deleted successfully."
+      });
+    } catch (error) {
+      console.error("Error deleting question pool:", error);
+      toast({
+        title: "Failed to Delete Pool",
+        description: error instanceof Error ? error.message : "An error occurred while deleting the question pool",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Add or edit a question pack
+  const handleOpenPackDialog = (pack: QuestionPackWithItems | null) => {
+    setEditingPack(pack);
+    packForm.reset({
+      name: pack?.name ?? "",
+      description: pack?.description ?? "",
+      isActive: pack?.isActive ?? true,
+      questionIds: pack?.questionIds ?? []
+    });
+    setIsPackDialogOpen(true);
+  };
+  
+  // Submit question pack form
+  const onSubmitPack = async (values: PackFormValues) => {
+    try {
+      const url = editingPack 
+        ? `/api/admin/question-packs/${editingPack.id}` 
+        : "/api/admin/question-packs";
+      
+      const response = await fetch(url, {
+        method: editingPack ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...values, description: values.description || null })
+      });
+      
+      if (!response.ok) {
+        throw new Error("Failed to save question pack");
+      }
+      
+      const updatedPacksResponse = await fetch("/api/admin/question-packs");
+      setPacks(await updatedPacksResponse.json());
+      
+      setIsPackDialogOpen(false);
+      toast({
+        title: editingPack ? "Pack Updated" : "Pack Added",
+        description: editingPack 
+          ? "The question pack has been updated successfully." 
+          : "The new question pack has been added successfully."
+      });
+    } catch (error) {
+      console.error("Error saving question pack:", error);
+      toast({
+        title: "Failed to Save Pack",
+        description: error instanceof Error ? error.message : "An error occurred while saving the question pack",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Delete question pack
+  const handleDeletePack = async (packId: number) => {
+    if (!confirm("Are you sure you want to delete this pack? Players will no longer be able to pick it.")) {
+      return;
+    }
+    
+    try {
+      const response = await fetch(`/api/admin/question-packs/${packId}`, {
+        method: "DELETE"
+      });
+      
+      if (!response.ok) {
+        throw new Error("Failed to delete question pack");
+      }
+      
+      setPacks(packs.filter(p => p.id !== packId));
+      
+      toast({
+        title: "Pack Deleted",
+        description: "The question pack has been deleted successfully."
+      });
+    } catch (error) {
+      console.error("Error deleting question pack:", error);
+      toast({
+        title: "Failed to Delete Pack",
+        description: error instanceof Error ? error.message : "An error occurred while deleting the question pack",
+        variant: "destructive",
+      });
+    }
+  };
+  
   // Loading state
   if (isLoading) {
     return (
@@ -308,6 +582,8 @@ export default function AdminQuestions() {
                     <TableHead className="w-[50px]">ID</TableHead>
                     <TableHead>Question Text</TableHead>
                     <TableHead>Type</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Weight</TableHead>
                     <TableHead>Options</TableHead>
                     <TableHead className="w-[120px]">Actions</TableHead>
                   </TableRow>
@@ -315,7 +591,7 @@ export default function AdminQuestions() {
                 <TableBody>
                   {filteredQuestions.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-4 text-gray-500">
+                      <TableCell colSpan={7} className="text-center py-4 text-gray-500">
                         No questions found. Click "Add Question" to create one.
                       </TableCell>
                     </TableRow>
@@ -323,12 +599,19 @@ export default function AdminQuestions() {
                     filteredQuestions.map((question) => (
                       <TableRow key={question.id}>
                         <TableCell>{question.id}</TableCell>
-                        <TableCell>{question.text}</TableCell>
+                        <TableCell>
+                          {question.text}
+                          {question.textAr && (
+                            <div dir="rtl" className="text-sm text-gray-500 mt-1">{question.textAr}</div>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <span className={`px-2 py-1 rounded-full text-xs ${question.questionType === 'common' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}`}>
                             {question.questionType === 'common' ? 'Common' : 'Individual'}
                           </span>
                         </TableCell>
+                        <TableCell className="capitalize">{question.category ?? "—"}</TableCell>
+                        <TableCell>×{question.weight}</TableCell>
                         <TableCell>
                           <div className="max-h-20 overflow-y-auto text-sm">
                             {question.options.map((opt, i) => (
@@ -366,12 +649,150 @@ export default function AdminQuestions() {
                 </TableBody>
               </Table>
             </div>
+            
+            <div className="flex justify-between items-center mt-8 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-primary">Question Pools</h3>
+                <p className="text-sm text-gray-500">
+                  {pools.length > 0
+                    ? "Each new session draws the given number of random questions from every pool. Questions outside a pool are not used."
+                    : "No pools defined: each new session draws 5 random common and 2 random individual questions."}
+                </p>
+              </div>
+              <Button onClick={() => handleOpenPoolDialog(null)} className="flex items-center gap-2">
+                <Plus size={16} />
+                Add Pool
+              </Button>
+            </div>
+            
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Questions per Session</TableHead>
+                    <TableHead>Questions in Pool</TableHead>
+                    <TableHead className="w-[120px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pools.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-4 text-gray-500">
+                        No question pools found. Click "Add Pool" to create one.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    pools.map((pool) => (
+                      <TableRow key={pool.id}>
+                        <TableCell>{pool.name}</TableCell>
+                        <TableCell>{pool.drawCount}</TableCell>
+                        <TableCell>{questions.filter(q => q.poolId === pool.id).length}</TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => handleOpenPoolDialog(pool)}
+                              className="h-8 w-8 p-0"
+                            >
+                              <Edit size={16} />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => handleDeletePool(pool.id)}
+                              className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                            >
+                              <Trash size={16} />
+                              <span className="sr-only">Delete</span>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            
+            <div className="flex justify-between items-center mt-8 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-primary">Question Packs</h3>
+                <p className="text-sm text-gray-500">
+                  Themed editions players can pick when creating a session. A pack plays all of its questions.
+                </p>
+              </div>
+              <Button onClick={() => handleOpenPackDialog(null)} className="flex items-center gap-2">
+                <Plus size={16} />
+                Add Pack
+              </Button>
+            </div>
+            
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Questions</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[120px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {packs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-4 text-gray-500">
+                        No question packs found. Click "Add Pack" to create one.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    packs.map((pack) => (
+                      <TableRow key={pack.id}>
+                        <TableCell>{pack.name}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{pack.description}</TableCell>
+                        <TableCell>{pack.questionIds.length}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs ${pack.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                            {pack.isActive ? 'Active' : 'Inactive'}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => handleOpenPackDialog(pack)}
+                              className="h-8 w-8 p-0"
+                            >
+                              <Edit size={16} />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => handleDeletePack(pack.id)}
+                              className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                            >
+                              <Trash size={16} />
+                              <span className="sr-only">Delete</span>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
           </CardContent>
         </Card>
       </div>
       
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="sm:max-w-[550px]">
+        <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingQuestion ? "Edit Question" : "Add New Question"}
@@ -394,6 +815,23 @@ export default function AdminQuestions() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="textAr"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Question Text (Arabic)</FormLabel>
+                    <FormControl>
+                      <Textarea dir="rtl" placeholder="نص السؤال" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Shown to players using Arabic. Falls back to the English text when empty.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="questionType"
@@ -419,6 +857,74 @@ export default function AdminQuestions() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" max="10" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="poolId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Question Pool</FormLabel>
+                    <Select 
+                      onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))} 
+                      value={field.value === null ? "none" : String(field.value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select question pool" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No pool</SelectItem>
+                        {pools.map((pool) => (
+                          <SelectItem key={pool.id} value={String(pool.id)}>{pool.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select 
+                      onValueChange={(value) => field.onChange(value === "none" ? null : value)} 
+                      value={field.value ?? "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No category</SelectItem>
+                        {QUESTION_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <div>
                 <div className="flex justify-between items-center mb-2">
                   <FormLabel>Options</FormLabel>
@@ -447,6 +953,18 @@ export default function AdminQuestions() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={form.control}
+                      name={`options.${index}.optionTextAr`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input dir="rtl" placeholder={`الخيار ${index + 1}`} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <Button
                       type="button"
                       variant="outline"
@@ -460,6 +978,46 @@ export default function AdminQuestions() {
                 ))}
               </div>
               
+              {form.watch("options")?.length > 1 && (
+                <div>
+                  <FormLabel>Partial Credit (%)</FormLabel>
+                  <p className="text-xs text-gray-500 mb-2">
+                    How close two different answers are, e.g. 50 makes them count as half a match.
+                  </p>
+                  <div className="max-h-48 overflow-y-auto space-y-2">
+                    {form.watch("options").flatMap((option, index) =>
+                      form.watch("options").slice(index + 1).map((otherOption, offset) => {
+                        const otherIndex = index + 1 + offset;
+                        return (
+                          <FormField
+                            key={pairKey(index, otherIndex)}
+                            control={form.control}
+                            name={`similarities.${pairKey(index, otherIndex)}`}
+                            render={({ field }) => (
+                              <FormItem className="flex items-center gap-2 space-y-0">
+                                <span className="flex-1 text-sm text-gray-700">
+                                  {option.optionText || `Option ${index + 1}`} ↔ {otherOption.optionText || `Option ${otherIndex + 1}`}
+                                </span>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    className="w-24"
+                                    {...field}
+                                    value={field.value ?? 0}
+                                  />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                        );
+                      })
+                    )}
+                  </div>
+                </div>
+              )}
+              
               <DialogFooter>
                 <Button 
                   type="button" 
@@ -477,6 +1035,170 @@ export default function AdminQuestions() {
         </DialogContent>
       </Dialog>
       
+      <Dialog open={isPoolDialogOpen} onOpenChange={setIsPoolDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPool ? "Edit Question Pool" : "Add New Question Pool"}
+            </DialogTitle>
+          </DialogHeader>
+          
+          <Form {...poolForm}>
+            <form onSubmit={poolForm.handleSubmit(onSubmitPool)} className="space-y-4">
+              <FormField
+                control={poolForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pool Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter the pool name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={poolForm.control}
+                name="drawCount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Questions per Session</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" max="50" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <DialogFooter>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={() => setIsPoolDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingPool ? "Update Pool" : "Save Pool"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      
+      <Dialog open={isPackDialogOpen} onOpenChange={setIsPackDialogOpen}>
+        <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPack ? "Edit Question Pack" : "Add New Question Pack"}
+            </DialogTitle>
+          </DialogHeader>
+          
+          <Form {...packForm}>
+            <form onSubmit={packForm.handleSubmit(onSubmitPack)} className="space-y-4">
+              <FormField
+                control={packForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pack Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Ramadan Edition" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={packForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Shown to players when they pick a pack" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={packForm.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Active Status
+                      </FormLabel>
+                      <FormDescription>
+                        Only active packs can be picked by players.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={packForm.control}
+                name="questionIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Questions</FormLabel>
+                    <div className="max-h-64 overflow-y-auto border rounded-md p-3 space-y-2">
+                      {questions.map((question) => (
+                        <label key={question.id} className="flex items-start gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(question.id)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked
+                                ? [...field.value, question.id]
+                                : field.value.filter(id => id !== question.id)
+                            )}
+                          />
+                          <span>
+                            {question.text}
+                            <span className="text-xs text-gray-500 ml-1">
+                              ({question.questionType}{question.category ? `, ${question.category}` : ""})
+                            </span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <DialogFooter>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={() => setIsPackDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingPack ? "Update Pack" : "Save Pack"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      
       <Footer showAdminLink={false} />
     </div>
   );
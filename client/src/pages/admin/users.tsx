@@ -0,0 +1,487 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/use-admin";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2, RefreshCw, Loader2, ArrowLeft } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { z } from "zod";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ADMIN_ROLES, AdminPublic, AdminRole } from "@shared/schema";
+
+const ROLE_LABELS: Record<AdminRole, { label: string; description: string }> = {
+  owner: { label: "Owner", description: "Everything, including settings, merchants and admin accounts" },
+  content_editor: { label: "Content Editor", description: "Questions, question pools and packs" },
+  analyst: { label: "Analyst", description: "Analytics, participants, messages and vouchers, read only" },
+  voucher_operator: { label: "Voucher Operator", description: "Coupon templates, vouchers and messages" }
+};
+
+// Form validation schema; the password is only required when creating an admin
+const adminFormSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters" }),
+  username: z.string().min(3, { message: "Username must be at least 3 characters" }),
+  password: z.string().min(8, { message: "Password must be at least 8 characters" }).or(z.literal("")),
+  role: z.enum(ADMIN_ROLES),
+  isActive: z.boolean().default(true)
+});
+
+type AdminFormValues = z.infer<typeof adminFormSchema>;
+
+const emptyForm: AdminFormValues = {
+  name: "",
+  username: "",
+  password: "",
+  role: "analyst",
+  isActive: true
+};
+
+export default function AdminUsers() {
+  const [, navigate] = useLocation();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAdmin, setEditingAdmin] = useState<AdminPublic | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [adminToDelete, setAdminToDelete] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const { admin: currentAdmin } = useAdmin();
+
+  const form = useForm<AdminFormValues>({
+    resolver: zodResolver(adminFormSchema),
+    defaultValues: emptyForm
+  });
+
+  const {
+    data: admins,
+    isLoading: adminsLoading,
+    isError: adminsError,
+    refetch: refetchAdmins
+  } = useQuery<AdminPublic[]>({
+    queryKey: ["/api/admin/users"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AdminFormValues) => {
+      const response = await apiRequest("POST", "/api/admin/users", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: "Admin created successfully",
+      });
+      setIsFormOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create admin: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: AdminFormValues & { id: number }) => {
+      const { id, ...adminData } = data;
+      const response = await apiRequest("PUT", `/api/admin/users/${id}`, adminData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      // Editing your own account can change what you may see
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/me"] });
+      toast({
+        title: "Success",
+        description: "Admin updated successfully",
+      });
+      setIsFormOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update admin: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/admin/users/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: "Admin deleted successfully",
+      });
+      setDeleteDialogOpen(false);
+      setAdminToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete admin: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: AdminFormValues) => {
+    if (editingAdmin) {
+      updateMutation.mutate({ ...data, id: editingAdmin.id });
+    } else if (!data.password) {
+      form.setError("password", { message: "Password is required" });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const resetForm = () => {
+    form.reset(emptyForm);
+    setEditingAdmin(null);
+  };
+
+  const handleEdit = (admin: AdminPublic) => {
+    setEditingAdmin(admin);
+    form.reset({
+      name: admin.name,
+      username: admin.username,
+      password: "",
+      role: admin.role as AdminRole,
+      isActive: Boolean(admin.isActive)
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (id: number) => {
+    setAdminToDelete(id);
+    setDeleteDialogOpen(true);
+  };
+
+  return (
+    <div className="container mx-auto">
+      <Header />
+
+      <div className="my-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/admin/dashboard')}
+                    className="flex items-center gap-1"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </Button>
+                  <CardTitle>Admins</CardTitle>
+                </div>
+                <CardDescription>Staff accounts for the admin area and what each role may do</CardDescription>
+              </div>
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetchAdmins()}
+                  disabled={adminsLoading}
+                >
+                  {adminsLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  <span className="ml-2">Refresh</span>
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    resetForm();
+                    setIsFormOpen(true);
+                  }}
+                  className="min-w-[120px]"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Admin
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Last Login</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {adminsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading admins...</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : adminsError ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-red-500">
+                        <p>Failed to load admins. Please try again.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : !admins || admins.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <p className="text-muted-foreground">No admins yet.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    admins.map((admin) => (
+                      <TableRow key={admin.id}>
+                        <TableCell className="font-medium">
+                          {admin.name}
+                          {admin.id === currentAdmin?.id && (
+                            <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono">{admin.username}</TableCell>
+                        <TableCell>{ROLE_LABELS[admin.role as AdminRole]?.label ?? admin.role}</TableCell>
+                        <TableCell className="text-sm">
+                          {admin.lastLoginAt ? new Date(admin.lastLoginAt).toLocaleString() : "Never"}
+                        </TableCell>
+                        <TableCell>
+                          {admin.isActive ? (
+                            <Badge variant="success">Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Inactive</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(admin)}
+                              title="Edit"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {admin.id !== currentAdmin?.id && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(admin.id)}
+                                title="Delete"
+                                className="text-red-500 hover:text-red-600"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Admin Form Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingAdmin ? "Edit Admin" : "Add Admin"}</DialogTitle>
+            <DialogDescription>
+              {editingAdmin
+                ? "Update the admin account below."
+                : "Fill in the details to add a new admin account."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter full name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Login Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="off" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      {editingAdmin && (
+                        <FormDescription>Leave blank to keep the current password.</FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ADMIN_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{ROLE_LABELS[field.value].description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Active Status
+                      </FormLabel>
+                      <FormDescription>
+                        Inactive admins cannot log in.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter className="flex gap-2 mt-6">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    resetForm();
+                    setIsFormOpen(false);
+                  }}
+                  className="border-gray-300 hover:bg-gray-100 min-w-[100px]"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                  className="min-w-[100px] bg-[#8e2c8e] hover:bg-[#8e2c8e]/90 text-white"
+                >
+                  {(createMutation.isPending || updateMutation.isPending) && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {editingAdmin ? "Update" : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this admin account? To keep the account's history, deactivate it instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex gap-2 mt-6">
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              className="border-gray-300 hover:bg-gray-100 min-w-[100px]"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => adminToDelete && deleteMutation.mutate(adminToDelete)}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white min-w-[100px]"
+            >
+              {deleteMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer showAdminLink={true} />
+    </div>
+  );
+}
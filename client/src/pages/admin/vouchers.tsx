@@ -0,0 +1,537 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/use-admin";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Ban, CalendarPlus, Download, Loader2, RefreshCw, Repeat, Search } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VoucherStatus } from "@shared/schema";
+
+interface AdminVoucher {
+  id: number;
+  voucherCode: string;
+  sessionCode: string;
+  voucherType: string;
+  discount: string;
+  merchantName: string | null;
+  status: VoucherStatus;
+  createdAt: string;
+  validUntil: string;
+  downloaded: boolean;
+  redeemedAt: string | null;
+  redeemedBy: string | null;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  reissuedAs: string | null;
+}
+
+interface VouchersResponse {
+  vouchers: AdminVoucher[];
+  pagination: { currentPage: number; totalPages: number; totalItems: number };
+}
+
+// Which bulk or row action's dialog is open
+type VoucherAction =
+  | { type: "revoke"; voucherIds: number[] }
+  | { type: "extend"; voucherIds: number[] }
+  | { type: "reissue"; voucher: AdminVoucher };
+
+function VoucherStatusBadge({ status }: { status: VoucherStatus }) {
+  switch (status) {
+    case "valid":
+      return <Badge variant="success">Valid</Badge>;
+    case "redeemed":
+      return <Badge variant="secondary">Redeemed</Badge>;
+    case "revoked":
+      return <Badge variant="destructive">Revoked</Badge>;
+    default:
+      return <Badge variant="outline">Expired</Badge>;
+  }
+}
+
+// Redeemed and revoked vouchers are final
+function isChangeable(voucher: AdminVoucher) {
+  return voucher.status === "valid" || voucher.status === "expired";
+}
+
+function filterQuery(search: string, status: string) {
+  const params = new URLSearchParams();
+  if (search) params.set("search", search);
+  if (status !== "all") params.set("status", status);
+  return params.toString();
+}
+
+export default function AdminVouchers() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  // Analysts can look vouchers up but not change them
+  const canManage = can("manageVouchers");
+  const [page, setPage] = useState(1);
+  const [searchInputValue, setSearchInputValue] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [action, setAction] = useState<VoucherAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [newExpiry, setNewExpiry] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Debounce the search term
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchTerm(searchInputValue);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInputValue]);
+
+  // Selections only make sense for the rows on screen
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [page, searchTerm, statusFilter]);
+
+  const { data, isLoading, isError, refetch } = useQuery<VouchersResponse>({
+    queryKey: ["/api/admin/vouchers", page, searchTerm, statusFilter],
+    queryFn: async () => {
+      const query = filterQuery(searchTerm, statusFilter);
+      const response = await fetch(`/api/admin/vouchers?page=${page}&limit=20${query ? `&${query}` : ""}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch vouchers");
+      }
+      return response.json();
+    }
+  });
+
+  const vouchers = data?.vouchers ?? [];
+  const pagination = data?.pagination ?? { currentPage: 1, totalPages: 1, totalItems: 0 };
+  const selectableIds = canManage ? vouchers.filter(isChangeable).map((voucher) => voucher.id) : [];
+  const allSelected = selectableIds.length > 0 && selectableIds.every((id) => selectedIds.includes(id));
+
+  const closeDialog = () => {
+    setAction(null);
+    setReason("");
+    setNewExpiry("");
+  };
+
+  const onActionSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/vouchers"] });
+    toast({ title: "Success", description });
+    setSelectedIds([]);
+    closeDialog();
+  };
+
+  const onActionError = (verb: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${verb}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (data: { voucherIds: number[]; reason: string }) => {
+      const response = await apiRequest("POST", "/api/admin/vouchers/revoke", data);
+      return response.json() as Promise<{ revoked: number; skipped: number }>;
+    },
+    onSuccess: ({ revoked, skipped }) => {
+      onActionSuccess(`Revoked ${revoked} voucher(s)${skipped ? `, skipped ${skipped} already redeemed or revoked` : ""}`);
+    },
+    onError: onActionError("revoke vouchers"),
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: async (data: { voucherIds: number[]; validUntil: string }) => {
+      const response = await apiRequest("POST", "/api/admin/vouchers/extend", data);
+      return response.json() as Promise<{ extended: number; skipped: number }>;
+    },
+    onSuccess: ({ extended, skipped }) => {
+      onActionSuccess(`Extended ${extended} voucher(s)${skipped ? `, skipped ${skipped} that were used, revoked or already valid for longer` : ""}`);
+    },
+    onError: onActionError("extend vouchers"),
+  });
+
+  const reissueMutation = useMutation({
+    mutationFn: async (data: { voucherId: number; reason: string }) => {
+      const response = await apiRequest("POST", `/api/admin/vouchers/${data.voucherId}/reissue`, { reason: data.reason });
+      return response.json() as Promise<{ voucherCode: string }>;
+    },
+    onSuccess: (replacement) => {
+      onActionSuccess(`Voucher reissued as ${replacement.voucherCode}`);
+    },
+    onError: onActionError("reissue voucher"),
+  });
+
+  const isSubmitting = revokeMutation.isPending || extendMutation.isPending || reissueMutation.isPending;
+
+  const handleConfirm = () => {
+    if (!action) return;
+    if (action.type === "revoke") {
+      revokeMutation.mutate({ voucherIds: action.voucherIds, reason });
+    } else if (action.type === "extend") {
+      // The voucher stays valid until the end of the chosen day
+      extendMutation.mutate({ voucherIds: action.voucherIds, validUntil: new Date(`${newExpiry}T23:59:59`).toISOString() });
+    } else {
+      reissueMutation.mutate({ voucherId: action.voucher.id, reason });
+    }
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((ids) => checked ? [...ids, id] : ids.filter((selected) => selected !== id));
+  };
+
+  // Downloads every voucher matching the current filters, not just this page
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const query = filterQuery(searchTerm, statusFilter);
+      const response = await apiRequest("GET", `/api/admin/vouchers/export${query ? `?${query}` : ""}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `mawadha-vouchers-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export vouchers.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canConfirm = action?.type === "extend" ? Boolean(newExpiry) : reason.trim().length >= 3;
+
+  return (
+    <div className="container mx-auto">
+      <Header />
+
+      <div className="my-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/admin/dashboard')}
+                    className="flex items-center gap-1"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </Button>
+                  <CardTitle>Vouchers</CardTitle>
+                </div>
+                <CardDescription>Every voucher issued to players; revoke, reissue or extend them</CardDescription>
+              </div>
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetch()}
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  <span className="ml-2">Refresh</span>
+                </Button>
+                <Button size="sm" onClick={handleExport} disabled={isExporting}>
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <div className="relative w-full sm:w-72">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search voucher or session code..."
+                    className="pl-8"
+                    value={searchInputValue}
+                    onChange={(e) => setSearchInputValue(e.target.value)}
+                  />
+                </div>
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => {
+                    setStatusFilter(value);
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-full sm:w-40">
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    <SelectItem value="valid">Valid</SelectItem>
+                    <SelectItem value="redeemed">Redeemed</SelectItem>
+                    <SelectItem value="expired">Expired</SelectItem>
+                    <SelectItem value="revoked">Revoked</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {canManage && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selectedIds.length === 0}
+                    onClick={() => setAction({ type: "extend", voucherIds: selectedIds })}
+                  >
+                    <CalendarPlus className="h-4 w-4 mr-2" />
+                    Extend ({selectedIds.length})
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selectedIds.length === 0}
+                    onClick={() => setAction({ type: "revoke", voucherIds: selectedIds })}
+                    className="text-red-500 hover:text-red-600"
+                  >
+                    <Ban className="h-4 w-4 mr-2" />
+                    Revoke ({selectedIds.length})
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        disabled={selectableIds.length === 0}
+                        onCheckedChange={(checked) => setSelectedIds(checked === true ? selectableIds : [])}
+                        aria-label="Select all"
+                      />
+                    </TableHead>
+                    <TableHead>Voucher Code</TableHead>
+                    <TableHead>Session</TableHead>
+                    <TableHead>Offer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Valid Until</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading vouchers...</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : isError ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8 text-red-500">
+                        <p>Failed to load vouchers. Please try again.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : vouchers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8">
+                        <p className="text-muted-foreground">No vouchers found.</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    vouchers.map((voucher) => (
+                      <TableRow key={voucher.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(voucher.id)}
+                            disabled={!selectableIds.includes(voucher.id)}
+                            onCheckedChange={(checked) => toggleSelected(voucher.id, checked === true)}
+                            aria-label={`Select ${voucher.voucherCode}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-mono text-sm">{voucher.voucherCode}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Issued {new Date(voucher.createdAt).toLocaleDateString()}
+                            {voucher.downloaded && " · Downloaded"}
+                          </p>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{voucher.sessionCode}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{voucher.discount}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[voucher.voucherType, voucher.merchantName].filter(Boolean).join(" · ")}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <VoucherStatusBadge status={voucher.status} />
+                          {voucher.redeemedAt && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {new Date(voucher.redeemedAt).toLocaleDateString()}
+                              {voucher.redeemedBy && ` by ${voucher.redeemedBy}`}
+                            </p>
+                          )}
+                          {voucher.revokedAt && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {voucher.revokedReason}
+                              {voucher.reissuedAs && (
+                                <> · Reissued as <span className="font-mono">{voucher.reissuedAs}</span></>
+                              )}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>{new Date(voucher.validUntil).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          {canManage && isChangeable(voucher) && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setAction({ type: "reissue", voucher })}
+                                title="Reissue with a new code"
+                              >
+                                <Repeat className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setAction({ type: "extend", voucherIds: [voucher.id] })}
+                                title="Extend expiry"
+                              >
+                                <CalendarPlus className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setAction({ type: "revoke", voucherIds: [voucher.id] })}
+                                title="Revoke"
+                                className="text-red-500 hover:text-red-600"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between py-4">
+              <span className="text-sm text-muted-foreground">{pagination.totalItems} voucher(s)</span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page > 1 ? page - 1 : 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="px-2">
+                  Page {pagination.currentPage} of {pagination.totalPages || 1}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= (pagination.totalPages || 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Revoke, extend and reissue dialog */}
+      <Dialog open={action !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>
+              {action?.type === "revoke" && `Revoke ${action.voucherIds.length} Voucher(s)`}
+              {action?.type === "extend" && `Extend ${action.voucherIds.length} Voucher(s)`}
+              {action?.type === "reissue" && "Reissue Voucher"}
+            </DialogTitle>
+            <DialogDescription>
+              {action?.type === "revoke" && "Revoked vouchers can no longer be redeemed and are hidden from the players. This can't be undone."}
+              {action?.type === "extend" && "Choose a new expiry date. Vouchers that already expire later are left as they are."}
+              {action?.type === "reissue" && (
+                <>
+                  <span className="font-mono">{action.voucher.voucherCode}</span> will be revoked and the players will
+                  see a new code with the same offer and expiry.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {action?.type === "extend" ? (
+            <div className="space-y-2">
+              <Label htmlFor="voucher-expiry">Valid until</Label>
+              <Input
+                id="voucher-expiry"
+                type="date"
+                min={new Date().toISOString().slice(0, 10)}
+                value={newExpiry}
+                onChange={(e) => setNewExpiry(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="voucher-reason">Reason</Label>
+              <Textarea
+                id="voucher-reason"
+                placeholder="e.g. Code shared publicly"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={!canConfirm || isSubmitting}
+              variant={action?.type === "revoke" ? "destructive" : "default"}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {action?.type === "revoke" ? "Revoke" : action?.type === "extend" ? "Extend" : "Reissue"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer showAdminLink={true} />
+    </div>
+  );
+}
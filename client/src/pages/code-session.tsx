@@ -1,60 +1,102 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useGameSession } from "@/hooks/use-game-session";
+import { useSessionEvents } from "@/hooks/use-session-events";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Heart, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
+import { QuestionPackSummary } from "@/lib/game-questions";
+import { useLanguage } from "@/lib/language-provider";
+import { Heart, History, Loader2, Send } from "lucide-react";
 
 export default function CodeSession() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
-  const [sessionCode, setSessionCode] = useState<string | null>(null);
-  const [partnerCode, setPartnerCode] = useState("");
+  // A rematch from the results page arrives with its session code already created
+  const search = useSearch();
+  const [sessionCode, setSessionCode] = useState<string | null>(() => new URLSearchParams(search).get("code"));
+  // Invite links sent on WhatsApp arrive with the partner's code filled in
+  const [partnerCode, setPartnerCode] = useState(() => new URLSearchParams(search).get("join") ?? "");
   const [partnerJoined, setPartnerJoined] = useState(false);
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const { user, isLoading, logoutMutation } = useAuth();
   const { checkUserSessionStatus } = useGameSession();
   const [checkingStatus, setCheckingStatus] = useState(false);
+  const [selectedPack, setSelectedPack] = useState("default");
+  const [capacity, setCapacity] = useState("2");
+  const [inviteNumber, setInviteNumber] = useState("");
+  const [isInviting, setIsInviting] = useState(false);
+  const [lobby, setLobby] = useState<{ participantCount: number; capacity: number } | null>(null);
 
-  // Poll for partner status if we have a session code
-  useEffect(() => {
+  const { data: packs = [] } = useQuery<QuestionPackSummary[]>({
+    queryKey: ["/api/packs"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const checkPartnerStatus = async () => {
     if (!sessionCode) return;
 
-    const checkPartnerStatus = async () => {
-      try {
-        const response = await apiRequest("GET", `/api/sessions/${sessionCode}/status`);
-        const data = await response.json();
-        if (data.ready) {
-          setPartnerJoined(true);
-        }
-      } catch (error) {
-        console.error("Error checking partner status:", error);
-        // Don't show errors to the user for polling operations
+    try {
+      const response = await apiRequest("GET", `/api/sessions/${sessionCode}/status`);
+      const data = await response.json();
+      setLobby({ participantCount: data.participantCount, capacity: data.capacity });
+      if (data.ready) {
+        setPartnerJoined(true);
       }
-    };
+    } catch (error) {
+      console.error("Error checking partner status:", error);
+      // Don't show errors to the user for polling operations
+    }
+  };
+
+  // Listen for players joining over the session socket
+  const { isConnected, socketFailed } = useSessionEvents(sessionCode, (event) => {
+    if (event.type === "partner_joined") {
+      setPartnerJoined(true);
+    }
+    if (event.type === "player_joined") {
+      checkPartnerStatus();
+    }
+  });
+
+  const isGroup = (lobby?.capacity ?? 2) > 2;
+
+  // Check partner status once the socket is up, and poll only if the socket fails
+  useEffect(() => {
+    if (!sessionCode) return;
 
     // Initial check
     checkPartnerStatus();
 
+    if (!socketFailed) return;
+
     // Set up polling interval
     const intervalId = setInterval(checkPartnerStatus, 3000);
     
     // Clean up interval on unmount
     return () => clearInterval(intervalId);
-  }, [sessionCode]);
+  }, [sessionCode, isConnected, socketFailed]);
 
   const generateCode = async () => {
     if (!user) {
       toast({
-        title: "Registration Required",
-        description: "Please register first to generate a code.",
+        title: t("session.registrationRequired"),
+        description: t("session.registerToGenerate"),
         variant: "destructive",
       });
       navigate("/register");
@@ -65,14 +107,17 @@ export default function CodeSession() {
     
     try {
       // Don't need to send userId, it's handled by session in the backend
-      const response = await apiRequest("POST", "/api/sessions/create", {});
+      const response = await apiRequest("POST", "/api/sessions/create", {
+        packId: selectedPack === "default" ? null : parseInt(selectedPack),
+        capacity: parseInt(capacity)
+      });
       const data = await response.json();
       
       if (data.sessionCode) {
         setSessionCode(data.sessionCode);
         toast({
-          title: "Code Generated",
-          description: "Share this code with your partner to start the game.",
+          title: t("session.codeGenerated"),
+          description: t("session.codeGeneratedDescription"),
         });
       } else {
         throw new Error("Failed to generate session code");
@@ -80,8 +125,8 @@ export default function CodeSession() {
     } catch (error) {
       console.error("Error generating code:", error);
       toast({
-        title: "Code Generation Failed",
-        description: error instanceof Error ? error.message : "Failed to generate a session code. Please try again.",
+        title: t("session.generateFailed"),
+        description: error instanceof Error ? error.message : t("session.generateFailedDescription"),
         variant: "destructive",
       });
     } finally {
@@ -92,8 +137,8 @@ export default function CodeSession() {
   const joinSession = async () => {
     if (!user) {
       toast({
-        title: "Registration Required",
-        description: "Please register first to join a session.",
+        title: t("session.registrationRequired"),
+        description: t("session.registerToJoin"),
         variant: "destructive",
       });
       navigate("/register");
@@ -102,8 +147,8 @@ export default function CodeSession() {
 
     if (!partnerCode.trim()) {
       toast({
-        title: "Code Required",
-        description: "Please enter your partner's code to join the session.",
+        title: t("session.codeRequired"),
+        description: t("session.codeRequiredDescription"),
         variant: "destructive",
       });
       return;
@@ -141,17 +186,21 @@ export default function CodeSession() {
         setSessionCode(partnerCode);
         setPartnerJoined(true);
         toast({
-          title: "Session Joined",
-          description: "You've successfully joined your partner's session.",
+          title: t("session.joined"),
+          description: t("session.joinedDescription"),
         });
       } else {
         throw new Error(result.message || "Could not join the session");
       }
     } catch (error) {
       console.error("Error joining session:", error);
+      // 410 Gone means the code expired or the session was abandoned
+      const expired = error instanceof Error && error.message.startsWith("410");
       toast({
-        title: "Failed to Join",
-        description: error instanceof Error ? error.message : "Failed to join the session. Please check the code and try again.",
+        title: t("session.joinFailed"),
+        description: expired
+          ? t("session.codeExpired")
+          : error instanceof Error ? error.message : t("session.joinFailedDescription"),
         variant: "destructive",
       });
     } finally {
@@ -159,6 +208,33 @@ export default function CodeSession() {
     }
   };
 
+  const sendInvite = async () => {
+    if (!sessionCode || !inviteNumber.trim()) return;
+
+    setIsInviting(true);
+    try {
+      const whatsappNumber = inviteNumber.replace(/[\s-]/g, "");
+      await apiRequest("POST", `/api/sessions/${sessionCode}/invite`, { whatsappNumber });
+      toast({
+        title: t("session.inviteSent"),
+        description: t("session.inviteSentDescription", { number: whatsappNumber }),
+      });
+      setInviteNumber("");
+    } catch (error) {
+      console.error("Error sending invite:", error);
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: t("session.inviteFailed"),
+        description: status === "400"
+          ? t("session.inviteInvalidNumber")
+          : status === "429" ? t("session.inviteLimitReached") : t("session.inviteFailedDescription"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
   const startGame = async () => {
     // Ensure we have both a session code and a logged-in user before starting
     if (sessionCode && user) {
@@ -182,8 +258,8 @@ export default function CodeSession() {
       }
     } else if (!user) {
       toast({
-        title: "Authentication Required",
-        description: "Please login again before starting the game.",
+        title: t("session.authRequired"),
+        description: t("session.authRequiredDescription"),
         variant: "destructive",
       });
       navigate('/register');
@@ -199,7 +275,7 @@ export default function CodeSession() {
         <div className="max-w-md mx-auto flex items-center justify-center min-h-[300px]">
           <div className="text-center">
             <Loader2 className="h-10 w-10 animate-spin text-primary mx-auto mb-4" />
-            <p className="text-gray-600">Loading your profile...</p>
+            <p className="text-gray-600">{t("session.loadingProfile")}</p>
           </div>
         </div>
         
@@ -218,29 +294,80 @@ export default function CodeSession() {
       <Header />
       
       {/* Temporary logout button for testing */}
-      <div className="flex justify-end mb-4">
+      <div className="flex justify-end gap-2 mb-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate("/history")}
+          className="text-gray-500"
+        >
+          <History className="me-1 h-4 w-4" />
+          {t("session.viewHistory")}
+        </Button>
         <Button 
           variant="outline"
           size="sm"
           onClick={handleLogout}
           className="text-gray-500"
         >
-          Log Out (Test)
+          {t("session.logout")}
         </Button>
       </div>
       
       <div className="max-w-md mx-auto">
         <Card>
           <CardContent className="pt-6">
-            <h2 className="text-2xl font-bold text-primary text-center mb-6">Game Session</h2>
+            <h2 className="text-2xl font-bold text-primary text-center mb-6">{t("session.title")}</h2>
             
             {!sessionCode ? (
               <div>
                 <p className="text-center text-gray-600 mb-6">
-                  Generate a unique code or enter your partner's code to start the compatibility challenge!
+                  {t("session.intro")}
                 </p>
                 
                 <div className="flex flex-col space-y-4">
+                  <div className="mx-auto w-full max-w-xs">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t("session.players")}
+                    </label>
+                    <Select value={capacity} onValueChange={setCapacity}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="2">{t("session.couple")}</SelectItem>
+                        {[3, 4, 5, 6, 7, 8].map((count) => (
+                          <SelectItem key={count} value={count.toString()}>
+                            {t("session.groupOf", { count })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {packs.length > 0 && (
+                    <div className="mx-auto w-full max-w-xs">
+                      <Select value={selectedPack} onValueChange={setSelectedPack}>
+                        <SelectTrigger>
+                          <SelectValue placeholder={t("session.choosePack")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">{t("session.classicPack")}</SelectItem>
+                          {packs.map((pack) => (
+                            <SelectItem key={pack.id} value={pack.id.toString()}>
+                              {pack.name} ({t("session.packQuestions", { count: pack.questionCount })})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedPack !== "default" && (
+                        <p className="text-xs text-gray-500 mt-1 text-center">
+                          {packs.find((pack) => pack.id.toString() === selectedPack)?.description}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <Button 
                     onClick={generateCode} 
                     className="bg-[#8e2c8e] hover:bg-[#742374] text-white font-semibold py-3 px-8 rounded-full shadow-lg mx-auto"
@@ -248,25 +375,25 @@ export default function CodeSession() {
                   >
                     {isGenerating ? (
                       <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Generating...
+                        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                        {t("session.generating")}
                       </>
-                    ) : "Generate New Code"}
+                    ) : t("session.generate")}
                   </Button>
                   
                   <div className="text-center my-4">
-                    <p className="text-gray-500">- OR -</p>
+                    <p className="text-gray-500">{t("session.or")}</p>
                   </div>
                   
                   <div>
                     <label htmlFor="partner-code" className="block text-sm font-medium text-gray-700 mb-1">
-                      Enter Partner's Code
+                      {t("session.enterPartnerCode")}
                     </label>
                     <Input 
                       id="partner-code"
                       value={partnerCode}
                       onChange={(e) => setPartnerCode(e.target.value)}
-                      placeholder="Enter 6-digit code"
+                      placeholder={t("session.codePlaceholder")}
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
                     />
                   </div>
@@ -278,19 +405,19 @@ export default function CodeSession() {
                   >
                     {isJoining ? (
                       <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Joining...
+                        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                        {t("session.joining")}
                       </>
-                    ) : "Join Partner"}
+                    ) : t("session.join")}
                   </Button>
                 </div>
               </div>
             ) : (
               <div>
                 <div className="text-center mb-6">
-                  <p className="text-gray-600 mb-2">Your session code is:</p>
+                  <p className="text-gray-600 mb-2">{t("session.yourCode")}</p>
                   <div className="session-code text-primary mb-4">{sessionCode}</div>
-                  <p className="text-sm text-gray-500">Share this code with your partner to join the same session</p>
+                  <p className="text-sm text-gray-500">{isGroup ? t("session.shareCodeGroup") : t("session.shareCode")}</p>
                 </div>
                 
                 {!partnerJoined ? (
@@ -298,12 +425,51 @@ export default function CodeSession() {
                     <div className="inline-block animate-pulse-slow">
                       <Heart className="h-10 w-10 text-primary" />
                     </div>
-                    <p className="text-gray-600 mt-2">Waiting for your partner to join...</p>
+                    <p className="text-gray-600 mt-2">{isGroup ? t("session.waitingPlayers") : t("session.waiting")}</p>
+                    {isGroup && lobby && (
+                      <p className="text-sm text-primary font-medium mt-1">
+                        {t("session.playersJoined", { count: lobby.participantCount, capacity: lobby.capacity })}
+                      </p>
+                    )}
+                    
+                    <div className="mt-6 text-start">
+                      <label htmlFor="invite-number" className="block text-sm font-medium text-gray-700 mb-1">
+                        {t("session.inviteLabel")}
+                      </label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="invite-number"
+                          type="tel"
+                          dir="ltr"
+                          value={inviteNumber}
+                          onChange={(e) => setInviteNumber(e.target.value)}
+                          placeholder={t("session.invitePlaceholder")}
+                        />
+                        <Button
+                          onClick={sendInvite}
+                          variant="outline"
+                          className="shrink-0"
+                          disabled={isInviting || !inviteNumber.trim()}
+                        >
+                          {isInviting ? (
+                            <>
+                              <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                              {t("session.sendingInvite")}
+                            </>
+                          ) : (
+                            <>
+                              <Send className="me-2 h-4 w-4 rtl:-scale-x-100" />
+                              {t("session.sendInvite")}
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </div>
                   </div>
                 ) : (
                   <div className="text-center py-4">
                     <div className="bg-green-100 text-green-600 rounded-lg p-3 mb-4">
-                      <span>Partner has joined! Ready to start the challenge.</span>
+                      <span>{isGroup ? t("session.groupReady") : t("session.partnerJoined")}</span>
                     </div>
                     
                     <Button 
@@ -313,10 +479,10 @@ export default function CodeSession() {
                     >
                       {checkingStatus ? (
                         <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Checking...
+                          <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                          {t("session.checking")}
                         </>
-                      ) : "Start Challenge"}
+                      ) : t("session.start")}
                     </Button>
                   </div>
                 )}
@@ -6,9 +6,12 @@ import { Footer } from "@/components/layout/Footer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useGameSession } from "@/hooks/use-game-session";
-import { GameQuestion, fetchGameQuestions, submitAnswers } from "@/lib/game-questions";
+import { useSessionEvents } from "@/hooks/use-session-events";
+import { fetchGameQuestions, submitAnswers } from "@/lib/game-questions";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/lib/language-provider";
+import { GameQuestion } from "@shared/schema";
 
 export default function Game() {
   const params = useParams<{ code: string }>();
@@ -16,27 +19,36 @@ export default function Game() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { userId, checkUserSessionStatus } = useGameSession();
+  const { language, t } = useLanguage();
   
   const [isLoading, setIsLoading] = useState(true);
   const [commonQuestions, setCommonQuestions] = useState<GameQuestion[]>([]);
   const [individualQuestions, setIndividualQuestions] = useState<GameQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Map<number, { optionId: number, answer: string }>>(new Map());
+  // Guesses of the partner's answer on individual questions
+  const [predictions, setPredictions] = useState<Map<number, { optionId: number, answer: string }>>(new Map());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [isCheckingSubmissionStatus, setIsCheckingSubmissionStatus] = useState(true);
+  const [capacity, setCapacity] = useState(2);
 
   // Combined questions array for navigation
   const allQuestions = [...commonQuestions, ...individualQuestions];
   const currentQuestion = allQuestions[currentQuestionIndex];
   
+  // Individual questions need both your own answer and a guess of your partner's
+  const isQuestionAnswered = (question?: GameQuestion) =>
+    !!question && answers.has(question.id) && (question.type !== "individual" || predictions.has(question.id));
+  
   useEffect(() => {
     const loadQuestions = async () => {
       if (!sessionCode || !userId) return;
       
       setIsLoading(true);
       try {
-        const questions = await fetchGameQuestions(sessionCode);
+        // Answers are kept by option ID, so reloading in another language keeps them
+        const questions = await fetchGameQuestions(sessionCode, language);
         console.log("Loaded questions:", {
           commonQuestions: questions.commonQuestions.map(q => ({
             id: q.id,
@@ -51,11 +63,12 @@ export default function Game() {
         });
         setCommonQuestions(questions.commonQuestions);
         setIndividualQuestions(questions.individualQuestions);
+        setCapacity(questions.capacity);
       } catch (error) {
         console.error("Error loading questions:", error);
         toast({
-          title: "Failed to Load Questions",
-          description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+          title: t("game.loadFailed"),
+          description: error instanceof Error ? error.message : t("common.genericError"),
           variant: "destructive",
         });
       } finally {
@@ -64,7 +77,7 @@ export default function Game() {
     };
     
     loadQuestions();
-  }, [sessionCode, userId, toast]);
+  }, [sessionCode, userId, toast, language, t]);
   
   // Check if the user has already submitted answers for this session - only run once when component mounts
   useEffect(() => {
@@ -91,8 +104,8 @@ export default function Game() {
           if (data.ready && isMounted) {
             // If results are ready, navigate to results page
             toast({
-              title: "Results Ready",
-              description: "You've already submitted answers for this session. Redirecting to results.",
+              title: t("game.resultsReady"),
+              description: t("game.resultsReadyDescription"),
             });
             navigate(`/results/${sessionCode}`);
           }
@@ -112,7 +125,7 @@ export default function Game() {
     return () => {
       isMounted = false; // Clean up to prevent state updates after unmount
     };
-  }, [sessionCode, userId, navigate, toast, checkUserSessionStatus]); // Include dependencies but with isMounted guard to prevent over-polling
+  }, [sessionCode, userId, navigate, toast, checkUserSessionStatus, t]); // Include dependencies but with isMounted guard to prevent over-polling
   
   const handleAnswerSelect = (questionId: number, optionId: number, answerText: string) => {
     // Create a copy of the answers map and update it
@@ -128,6 +141,12 @@ export default function Game() {
     setAnswers(newAnswers);
   };
   
+  const handlePredictionSelect = (questionId: number, optionId: number, answerText: string) => {
+    const newPredictions = new Map(predictions);
+    newPredictions.set(questionId, { optionId, answer: answerText });
+    setPredictions(newPredictions);
+  };
+  
   const goToNextQuestion = () => {
     if (currentQuestionIndex < allQuestions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
@@ -140,7 +159,14 @@ export default function Game() {
     }
   };
   
-  // Poll for partner's submission status
+  // Listen for both partners finishing over the session socket
+  const { isConnected, socketFailed } = useSessionEvents(sessionCode, (event) => {
+    if (event.type === "results_ready") {
+      navigate(`/results/${sessionCode}`);
+    }
+  });
+
+  // Check partner's submission status, polling only if the socket fails
   useEffect(() => {
     if (!hasSubmitted || !sessionCode) return;
     
@@ -162,18 +188,20 @@ export default function Game() {
     // Initial check
     checkResultsReady();
     
+    if (!socketFailed) return;
+    
     // Set up polling interval (every 3 seconds)
     const intervalId = setInterval(checkResultsReady, 3000);
     
     // Clean up interval on unmount
     return () => clearInterval(intervalId);
-  }, [hasSubmitted, sessionCode, navigate]);
+  }, [hasSubmitted, sessionCode, navigate, isConnected, socketFailed]);
 
   const handleSubmit = async () => {
-    if (answers.size < allQuestions.length) {
+    if (!allQuestions.every(isQuestionAnswered)) {
       toast({
-        title: "Incomplete Answers",
-        description: "Please answer all questions before submitting.",
+        title: t("game.incomplete"),
+        description: t("game.incompleteDescription"),
         variant: "destructive",
       });
       return;
@@ -184,7 +212,8 @@ export default function Game() {
     // Convert the answers Map to the format expected by the API
     const answerArray = Array.from(answers.entries()).map(([questionId, data]) => ({
       questionId,
-      optionId: data.optionId
+      optionId: data.optionId,
+      predictedOptionId: predictions.get(questionId)?.optionId
     }));
     
     console.log("Submitting answers:", answerArray);
@@ -193,17 +222,22 @@ export default function Game() {
       await submitAnswers(sessionCode, answerArray);
       
       toast({
-        title: "Answers Submitted",
-        description: "Your answers have been submitted successfully.",
+        title: t("game.submitted"),
+        description: t("game.submittedDescription"),
       });
       
       // Set hasSubmitted to true to start polling for partner's submission
       setHasSubmitted(true);
     } catch (error) {
       console.error("Error submitting answers:", error);
+      // Answers sent from another tab, or by a retry whose first attempt got through
+      if (error instanceof Error && error.message.startsWith("409")) {
+        setHasSubmitted(true);
+        return;
+      }
       toast({
-        title: "Submission Failed",
-        description: error instanceof Error ? error.message : "Failed to submit your answers. Please try again.",
+        title: t("game.submitFailed"),
+        description: error instanceof Error ? error.message : t("game.submitFailedDescription"),
         variant: "destructive",
       });
     } finally {
@@ -222,7 +256,7 @@ export default function Game() {
             <div className="h-12 bg-primary/20 rounded w-1/2 mx-auto"></div>
           </div>
           <p className="mt-6 text-gray-600">
-            {isCheckingSubmissionStatus ? "Checking submission status..." : "Loading questions..."}
+            {isCheckingSubmissionStatus ? t("game.checkingStatus") : t("game.loadingQuestions")}
           </p>
         </div>
         <Footer />
@@ -244,25 +278,25 @@ export default function Game() {
                     <div className="animate-spin h-10 w-10 border-4 border-primary border-t-transparent rounded-full"></div>
                   </div>
                 </div>
-                <h2 className="text-xl font-semibold text-primary mb-2">Answers Submitted!</h2>
-                <p className="text-gray-600 mb-6">Waiting for your partner to complete the questionnaire...</p>
-                <p className="text-sm text-gray-500 mb-8">You'll automatically be redirected to see your results once your partner submits their answers.</p>
+                <h2 className="text-xl font-semibold text-primary mb-2">{t("game.submittedTitle")}</h2>
+                <p className="text-gray-600 mb-6">{capacity > 2 ? t("game.waitingGroup") : t("game.waitingPartner")}</p>
+                <p className="text-sm text-gray-500 mb-8">{capacity > 2 ? t("game.autoRedirectGroup") : t("game.autoRedirect")}</p>
                 
                 <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-gray-100 shadow-md">
                   <Button 
                     onClick={() => window.location.reload()}
                     className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-medium py-2 px-4 rounded-lg mx-auto"
                   >
-                    Refresh Status
+                    {t("game.refresh")}
                   </Button>
                 </div>
               </div>
             ) : (
               <>
                 <div className="flex justify-between items-center mb-6">
-                  <h2 className="text-2xl font-bold text-primary">Compatibility Quiz</h2>
+                  <h2 className="text-2xl font-bold text-primary">{t("game.title")}</h2>
                   <div className="bg-primary/10 text-primary rounded-full px-3 py-1 text-sm">
-                    Question <span id="current-question">{currentQuestionIndex + 1}</span>/<span id="total-questions">{allQuestions.length}</span>
+                    {t("game.question")} <span id="current-question">{currentQuestionIndex + 1}</span>/<span id="total-questions">{allQuestions.length}</span>
                   </div>
                 </div>
                 
@@ -270,11 +304,15 @@ export default function Game() {
                   <div className="animate-slide-up">
                     <h3 className="text-lg font-semibold text-gray-800 mb-4">{currentQuestion.text}</h3>
                     
+                    {currentQuestion.type === "individual" && (
+                      <p className="text-sm font-medium text-primary mb-2">{t("game.yourAnswer")}</p>
+                    )}
+                    
                     <RadioGroup 
-                      value={answers.get(currentQuestion.id)?.answer || ""}
+                      value={answers.get(currentQuestion.id)?.optionId.toString() || ""}
                       className="space-y-3"
                       onValueChange={(value) => {
-                        const selectedOption = currentQuestion.options.find(opt => opt.text === value);
+                        const selectedOption = currentQuestion.options.find(opt => opt.id.toString() === value);
                         if (selectedOption) {
                           handleAnswerSelect(currentQuestion.id, selectedOption.id, selectedOption.text);
                         }
@@ -282,8 +320,8 @@ export default function Game() {
                     >
                       {currentQuestion.options.map((option) => (
                         <div key={option.id} className="option-container">
-                          <div className="flex items-center space-x-2 p-3 border border-gray-300 rounded-lg cursor-pointer hover:bg-primary/5 transition-all">
-                            <RadioGroupItem value={option.text} id={`q${currentQuestion.id}-option${option.id}`} />
+                          <div className="flex items-center space-x-2 rtl:space-x-reverse p-3 border border-gray-300 rounded-lg cursor-pointer hover:bg-primary/5 transition-all">
+                            <RadioGroupItem value={option.id.toString()} id={`q${currentQuestion.id}-option${option.id}`} />
                             <Label htmlFor={`q${currentQuestion.id}-option${option.id}`} className="flex-1 cursor-pointer">
                               <span className="text-gray-700">{option.text}</span>
                             </Label>
@@ -291,6 +329,33 @@ export default function Game() {
                         </div>
                       ))}
                     </RadioGroup>
+                    
+                    {currentQuestion.type === "individual" && (
+                      <>
+                        <p className="text-sm font-medium text-primary mt-6 mb-2">{capacity > 2 ? t("game.predictGroup") : t("game.predictPartner")}</p>
+                        <RadioGroup 
+                          value={predictions.get(currentQuestion.id)?.optionId.toString() || ""}
+                          className="space-y-3"
+                          onValueChange={(value) => {
+                            const predictedOption = currentQuestion.options.find(opt => opt.id.toString() === value);
+                            if (predictedOption) {
+                              handlePredictionSelect(currentQuestion.id, predictedOption.id, predictedOption.text);
+                            }
+                          }}
+                        >
+                          {currentQuestion.options.map((option) => (
+                            <div key={option.id} className="option-container">
+                              <div className="flex items-center space-x-2 rtl:space-x-reverse p-3 border border-gray-300 rounded-lg cursor-pointer hover:bg-primary/5 transition-all">
+                                <RadioGroupItem value={option.id.toString()} id={`q${currentQuestion.id}-guess${option.id}`} />
+                                <Label htmlFor={`q${currentQuestion.id}-guess${option.id}`} className="flex-1 cursor-pointer">
+                                  <span className="text-gray-700">{option.text}</span>
+                                </Label>
+                              </div>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      </>
+                    )}
                   </div>
                 )}
                 
@@ -300,24 +365,24 @@ export default function Game() {
                     className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-medium py-2 px-4 rounded-lg"
                     disabled={currentQuestionIndex === 0}
                   >
-                    Previous
+                    {t("game.previous")}
                   </Button>
                   
                   {currentQuestionIndex < allQuestions.length - 1 ? (
                     <Button 
                       onClick={goToNextQuestion}
                       className="bg-[#8e2c8e] hover:bg-[#742374] text-white font-medium py-2 px-6 rounded-lg"
-                      disabled={!answers.has(currentQuestion?.id)}
+                      disabled={!isQuestionAnswered(currentQuestion)}
                     >
-                      Next
+                      {t("game.next")}
                     </Button>
                   ) : (
                     <Button 
                       onClick={handleSubmit}
                       className="bg-[#8e2c8e] hover:bg-[#742374] text-white font-medium py-2 px-6 rounded-lg"
-                      disabled={isSubmitting || !answers.has(currentQuestion?.id)}
+                      disabled={isSubmitting || !isQuestionAnswered(currentQuestion)}
                     >
-                      {isSubmitting ? "Submitting..." : "Submit Answers"}
+                      {isSubmitting ? t("game.submitting") : t("game.submit")}
                     </Button>
                   )}
                 </div>
@@ -0,0 +1,150 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { fetchSessionHistory, SessionHistoryItem } from "@/lib/game-questions";
+import { useLanguage } from "@/lib/language-provider";
+import { dateLocale, TranslationKey } from "@/lib/translations";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+function statusKey(session: SessionHistoryItem): TranslationKey {
+  if (session.completed) return "history.completed";
+  if (session.status === "abandoned") return "history.abandoned";
+  return "history.inProgress";
+}
+
+export default function History() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { language, t } = useLanguage();
+
+  const { data: sessions = [], isLoading, error } = useQuery<SessionHistoryItem[]>({
+    queryKey: ["/api/user/sessions"],
+    queryFn: fetchSessionHistory,
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: t("history.loadFailed"),
+        description: error instanceof Error ? error.message : t("common.genericError"),
+        variant: "destructive",
+      });
+    }
+  }, [error, toast, t]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(dateLocale(language), { day: "numeric", month: "short" });
+
+  // Score trend across finished sessions, oldest first
+  const chartData = sessions
+    .filter((session) => session.completed && session.matchPercentage !== null)
+    .map((session) => ({
+      date: formatDate(session.completedAt ?? session.createdAt),
+      score: session.matchPercentage,
+    }));
+
+  return (
+    <div className="animate-fade-in">
+      <Header />
+
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-2xl font-bold text-primary text-center mb-6">{t("history.title")}</h2>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-10 w-10 animate-spin text-primary" />
+              </div>
+            ) : sessions.length === 0 ? (
+              <p className="text-center text-gray-600 py-4">{t("history.empty")}</p>
+            ) : (
+              <>
+                {chartData.length > 1 && (
+                  <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                    <h3 className="font-semibold text-gray-800 mb-2">{t("history.chart")}</h3>
+                    <div className="h-48" dir="ltr">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData}>
+                          <XAxis dataKey="date" fontSize={12} />
+                          <YAxis domain={[0, 100]} fontSize={12} width={30} />
+                          <Tooltip formatter={(value) => `${value}%`} />
+                          <Line type="monotone" dataKey="score" stroke="#8e2c8e" strokeWidth={2} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+                )}
+
+                <ul className="space-y-3">
+                  {/* Most recent first */}
+                  {[...sessions].reverse().map((session) => (
+                    <li key={session.sessionCode} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-gray-800">
+                            <span className="session-code">{session.sessionCode}</span>
+                            <span className="text-sm text-gray-500 ms-2">{formatDate(session.createdAt)}</span>
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {session.partners.length > 0
+                              ? t("history.with", { names: session.partners.join(", ") })
+                              : t("history.waitingForPlayers")}
+                          </p>
+                          {session.previousSessionCode && (
+                            <p className="text-xs text-gray-500">
+                              {t("history.rematchOf", { code: session.previousSessionCode })}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-end">
+                          {session.completed && session.matchPercentage !== null ? (
+                            <p className="text-xl font-bold text-primary">{session.matchPercentage}%</p>
+                          ) : (
+                            <Badge variant={session.status === "abandoned" ? "destructive" : "outline"}>
+                              {t(statusKey(session))}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      {session.completed && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="px-0 h-auto mt-1"
+                          onClick={() => navigate(`/results/${session.sessionCode}`)}
+                        >
+                          {t("history.viewResults")}
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            <div className="flex justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                onClick={() => navigate("/code-session")}
+                className="flex items-center gap-2 rounded-full"
+              >
+                <ArrowLeft className="h-4 w-4 text-purple-500 rtl:rotate-180" />
+                {t("history.newSession")}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { WhatsappNumberInput, isValidWhatsappNumber } from "@/components/whatsapp-number-input";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLanguage } from "@/lib/language-provider";
+import { User } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+const CODE_LENGTH = 6;
+
+export default function Login() {
+  const [, navigate] = useLocation();
+  const search = useSearch();
+  // Only follow same-site paths
+  const next = new URLSearchParams(search).get("next");
+  const redirectTo = next && next.startsWith("/") && !next.startsWith("//") ? next : "/code-session";
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const [whatsappNumber, setWhatsappNumber] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Redirect once signed in (or straight away if this browser already is)
+  useEffect(() => {
+    if (user) {
+      navigate(redirectTo);
+    }
+  }, [user, navigate, redirectTo]);
+
+  const sendCode = async () => {
+    setIsSending(true);
+    try {
+      await apiRequest("POST", "/api/auth/login-code", { whatsappNumber });
+      setCodeSent(true);
+      setCode("");
+      toast({
+        title: t("login.codeSent"),
+        description: t("login.codeSentDescription", { number: whatsappNumber }),
+      });
+    } catch (error) {
+      console.error("Error sending login code:", error);
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: t("login.sendFailed"),
+        description: status === "429" ? t("login.sendLimitReached") : t("login.sendFailedDescription"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    setIsVerifying(true);
+    try {
+      const response = await apiRequest("POST", "/api/auth/login-code/verify", { whatsappNumber, code: value });
+      const userData: User & { token: string } = await response.json();
+      localStorage.setItem('mawadha_auth_token', userData.token);
+      queryClient.setQueryData(["/api/user"], userData);
+      toast({
+        title: t("login.successTitle"),
+        description: t("login.successDescription", { name: userData.name }),
+      });
+      // Navigation handled in useEffect
+    } catch (error) {
+      console.error("Error verifying login code:", error);
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: t("login.verifyFailed"),
+        description: status === "429" ? t("login.tooManyAttempts") : t("login.codeInvalid"),
+        variant: "destructive",
+      });
+      setCode("");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (user) return null; // Prevent flash of content
+
+  return (
+    <div className="animate-fade-in">
+      <Header />
+
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-2xl font-bold text-primary text-center mb-2">{t("login.title")}</h2>
+
+            {!codeSent ? (
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  sendCode();
+                }}
+              >
+                <p className="text-sm text-center text-muted-foreground mb-6">{t("login.description")}</p>
+                <div className="space-y-2">
+                  <Label htmlFor="login-whatsapp">{t("registration.whatsapp")}</Label>
+                  <WhatsappNumberInput id="login-whatsapp" onChange={setWhatsappNumber} />
+                </div>
+                <div className="flex justify-center pt-4">
+                  <Button
+                    type="submit"
+                    className="bg-[#8e2c8e] hover:bg-[#742374] text-white font-semibold py-3 px-8 rounded-full shadow-lg"
+                    disabled={isSending || !isValidWhatsappNumber(whatsappNumber)}
+                  >
+                    {isSending ? (
+                      <>
+                        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                        {t("login.sending")}
+                      </>
+                    ) : t("login.sendCode")}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-center text-muted-foreground mb-6">
+                  {t("login.enterCode", { number: whatsappNumber })}
+                </p>
+                <div className="flex justify-center" dir="ltr">
+                  <InputOTP
+                    maxLength={CODE_LENGTH}
+                    value={code}
+                    onChange={setCode}
+                    onComplete={verifyCode}
+                    disabled={isVerifying}
+                    autoFocus
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                {isVerifying && (
+                  <p className="flex items-center justify-center text-sm text-muted-foreground">
+                    <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                    {t("login.verifying")}
+                  </p>
+                )}
+                <div className="flex justify-center gap-2 pt-2">
+                  <Button variant="ghost" size="sm" onClick={() => { setCodeSent(false); setWhatsappNumber(""); }} disabled={isVerifying}>
+                    {t("login.changeNumber")}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={sendCode} disabled={isSending || isVerifying}>
+                    {isSending && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+                    {t("login.resend")}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <p className="text-sm text-center text-muted-foreground mt-6">
+              {t("login.newPlayer")}{" "}
+              <Link href={search ? `/register?${search}` : "/register"} className="text-primary font-medium hover:underline">
+                {t("login.register")}
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
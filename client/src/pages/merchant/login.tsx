@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { merchantLoginSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+type FormValues = z.infer<typeof merchantLoginSchema>;
+
+export default function MerchantLogin() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [, navigate] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
+
+  // Only follow redirects back into the merchant area
+  const next = new URLSearchParams(search).get("next");
+  const redirectTo = next && next.startsWith("/merchant") ? next : "/merchant";
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(merchantLoginSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  async function onSubmit(values: FormValues) {
+    setLoginError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/merchant/login", values);
+      const data = await response.json();
+
+      toast({
+        title: "Login Successful",
+        description: `Welcome, ${data.merchant.name}.`,
+      });
+
+      navigate(redirectTo);
+    } catch (error) {
+      console.error("Merchant login error:", error);
+      setLoginError("Invalid username or password. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <Header />
+
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-2xl font-bold text-primary text-center mb-6">Partner Restaurant Login</h2>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Enter your password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {loginError && (
+                  <Alert variant="destructive" className="bg-red-100 text-red-800 text-sm p-3 rounded">
+                    <AlertDescription>{loginError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-center pt-4">
+                  <Button
+                    type="submit"
+                    className="bg-[#8e2c8e] hover:bg-[#742374] text-white font-semibold py-3 px-8 rounded-full shadow-lg"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? "Logging in..." : "Login"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer showAdminLink={false} />
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle2, Loader2, Search } from "lucide-react";
+import { merchantLoginPath } from "@/lib/merchant-route";
+
+interface VoucherLookup {
+  voucherCode: string;
+  voucherType: string;
+  discount: string;
+  validUntil: string;
+  status: "valid" | "redeemed" | "expired" | "revoked";
+  redeemedAt: string | null;
+  redeemedBy: string | null;
+}
+
+function VoucherStatusBadge({ status }: { status: VoucherLookup["status"] }) {
+  switch (status) {
+    case "valid":
+      return <Badge>Valid</Badge>;
+    case "redeemed":
+      return <Badge variant="secondary">Already Redeemed</Badge>;
+    case "revoked":
+      return <Badge variant="destructive">Revoked</Badge>;
+    default:
+      return <Badge variant="destructive">Expired</Badge>;
+  }
+}
+
+export default function MerchantRedeem() {
+  const [, navigate] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [voucher, setVoucher] = useState<VoucherLookup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [justRedeemed, setJustRedeemed] = useState(false);
+
+  // signature is present when the code came from scanning a voucher's QR code
+  const lookUp = async (voucherCode: string, signature?: string) => {
+    setIsLookingUp(true);
+    setError(null);
+    setVoucher(null);
+    setJustRedeemed(false);
+    try {
+      const query = signature ? `?sig=${encodeURIComponent(signature)}` : "";
+      const response = await fetch(`/api/merchant/vouchers/${encodeURIComponent(voucherCode)}${query}`);
+      if (response.status === 401) {
+        navigate(merchantLoginPath());
+        return;
+      }
+      if (response.status === 400) {
+        setError("This voucher link is not valid. Please type the code printed on the voucher instead.");
+        return;
+      }
+      if (response.status === 404) {
+        setError("No voucher found with this code. Please check it and try again.");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to look up voucher");
+      }
+      setVoucher(await response.json());
+    } catch (error) {
+      console.error("Error looking up voucher:", error);
+      setError("Something went wrong while looking up the voucher. Please try again.");
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    lookUp(code.trim());
+  };
+
+  // Opened from a scanned QR code: look the voucher up straight away
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const scannedCode = params.get("code");
+    if (scannedCode) {
+      setCode(scannedCode.toUpperCase());
+      lookUp(scannedCode, params.get("sig") ?? undefined);
+    }
+  }, [search]);
+
+  const handleRedeem = async () => {
+    if (!voucher) return;
+
+    setIsRedeeming(true);
+    try {
+      const response = await fetch(`/api/merchant/vouchers/${encodeURIComponent(voucher.voucherCode)}/redeem`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setVoucher(data);
+        setJustRedeemed(true);
+        toast({
+          title: "Voucher Redeemed",
+          description: `${data.voucherCode} has been redeemed.`,
+        });
+        return;
+      }
+
+      // Someone else redeemed it, or it expired or was revoked, since the lookup
+      if (data.voucher) {
+        setVoucher(data.voucher);
+      }
+      toast({
+        title: "Voucher Not Redeemed",
+        description: data.error || "Failed to redeem voucher",
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error("Error redeeming voucher:", error);
+      toast({
+        title: "Error",
+        description: "Failed to redeem voucher. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await fetch("/api/merchant/logout", { method: "POST" });
+    navigate("/merchant/login");
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <Header />
+
+      <div className="flex justify-end mb-4">
+        <Button variant="outline" size="sm" onClick={handleLogout} className="text-gray-500">
+          Log Out
+        </Button>
+      </div>
+
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardContent className="pt-6">
+            <h2 className="text-2xl font-bold text-primary text-center mb-6">Redeem a Voucher</h2>
+
+            <form onSubmit={handleLookup} className="flex gap-2 mb-6">
+              <Input
+                placeholder="MAWADHA-XXXXXXXX-XXXX"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                className="font-mono"
+                dir="ltr"
+              />
+              <Button type="submit" disabled={isLookingUp || !code.trim()}>
+                {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              </Button>
+            </form>
+
+            {error && (
+              <Alert variant="destructive" className="bg-red-100 text-red-800 text-sm p-3 rounded">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {voucher && (
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono font-bold">{voucher.voucherCode}</span>
+                  <VoucherStatusBadge status={voucher.status} />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{voucher.voucherType}</p>
+                  <p className="text-2xl font-bold text-primary">{voucher.discount}</p>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Valid until {new Date(voucher.validUntil).toLocaleDateString()}
+                </p>
+                {voucher.redeemedAt && (
+                  <p className="text-sm text-gray-600">
+                    Redeemed on {new Date(voucher.redeemedAt).toLocaleString()}
+                    {voucher.redeemedBy && ` by ${voucher.redeemedBy}`}
+                  </p>
+                )}
+
+                {justRedeemed ? (
+                  <div className="flex items-center gap-2 text-green-700 font-medium">
+                    <CheckCircle2 className="h-5 w-5" />
+                    Redeemed successfully
+                  </div>
+                ) : voucher.status === "valid" && (
+                  <Button
+                    onClick={handleRedeem}
+                    disabled={isRedeeming}
+                    className="w-full bg-[#8e2c8e] hover:bg-[#742374] text-white font-semibold rounded-full"
+                  >
+                    {isRedeeming ? "Redeeming..." : "Redeem Voucher"}
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer showAdminLink={false} />
+    </div>
+  );
+}
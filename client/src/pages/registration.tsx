@@ -1,4 +1,4 @@
-import { useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -9,58 +9,36 @@ import { Footer } from "@/components/layout/Footer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { WhatsappNumberInput, isValidWhatsappNumber } from "@/components/whatsapp-number-input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo } from "react";
+import { useLanguage } from "@/lib/language-provider";
+import { TranslationKey } from "@/lib/translations";
 
-// Define form schema
-const formSchema = z.object({
-  name: z.string().min(2, "Name must be at least 2 characters"),
+// Define form schema (built per language so validation messages are translated)
+const createFormSchema = (t: (key: TranslationKey) => string) => z.object({
+  name: z.string().min(2, t("registration.nameTooShort")),
   gender: z.enum(["male", "female"], {
-    required_error: "Please select your gender",
+    required_error: t("registration.genderRequired"),
   }),
-  age: z.string().refine(val => /^\d+$/.test(val), "Age must be a number"), // Only check that it consists of digits
-  whatsappNumber: z.string().refine(
-    (val) => {
-      // Validate country code first
-      const countryCodes = ["+971", "+966", "+973", "+974", "+965", "+968", "+91"];
-      const hasValidCode = countryCodes.some(code => val.startsWith(code));
-      if (!hasValidCode) return false;
-      
-      // Extract the part after country code
-      let number = "";
-      if (val.startsWith("+971")) number = val.substring(4); // UAE
-      else if (val.startsWith("+966")) number = val.substring(4); // KSA
-      else if (val.startsWith("+973")) number = val.substring(4); // Bahrain
-      else if (val.startsWith("+974")) number = val.substring(4); // Qatar
-      else if (val.startsWith("+965")) number = val.substring(4); // Kuwait
-      else if (val.startsWith("+968")) number = val.substring(4); // Oman
-      else if (val.startsWith("+91")) number = val.substring(3); // India
-      
-      // Validate the phone number based on country
-      if (val.startsWith("+971")) return /^\d{9}$/.test(number); // UAE: 9 digits
-      if (val.startsWith("+966")) return /^\d{9}$/.test(number); // KSA: 9 digits
-      if (val.startsWith("+973")) return /^\d{8}$/.test(number); // Bahrain: 8 digits
-      if (val.startsWith("+974")) return /^\d{8}$/.test(number); // Qatar: 8 digits
-      if (val.startsWith("+965")) return /^\d{8}$/.test(number); // Kuwait: 8 digits
-      if (val.startsWith("+968")) return /^\d{8}$/.test(number); // Oman: 8 digits
-      if (val.startsWith("+91")) return /^\d{10}$/.test(number); // India: 10 digits
-      
-      return false;
-    },
-    "Please enter a valid mobile number for the selected country"
-  ),
+  age: z.string().refine(val => /^\d+$/.test(val), t("registration.ageInvalid")), // Only check that it consists of digits
+  whatsappNumber: z.string().refine(isValidWhatsappNumber, t("registration.phoneInvalid")),
 });
 
-type FormValues = z.infer<typeof formSchema>;
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
 
 export default function Registration() {
   const [, navigate] = useLocation();
+  const search = useSearch();
+  // Only follow same-site paths
+  const next = new URLSearchParams(search).get("next");
+  const redirectTo = next && next.startsWith("/") && !next.startsWith("//") ? next : "/code-session";
   const { toast } = useToast();
   const { user, registerMutation } = useAuth();
-  const [countryCode, setCountryCode] = useState("+971");
-  const [phoneNumber, setPhoneNumber] = useState("");
+  const { t } = useLanguage();
+  const formSchema = useMemo(() => createFormSchema(t), [t]);
 
   // Form setup
   const form = useForm<FormValues>({
@@ -73,12 +51,12 @@ export default function Registration() {
     },
   });
 
-  // Redirect to code session if already logged in
+  // Redirect to code session (or the page that sent the player here) if already logged in
   useEffect(() => {
     if (user) {
-      navigate("/code-session");
+      navigate(redirectTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
   // Handle form submission
   function onSubmit(values: FormValues) {
@@ -90,8 +68,8 @@ export default function Registration() {
     registerMutation.mutate(formattedValues, {
       onSuccess: () => {
         toast({
-          title: "Registration Successful",
-          description: "You've been registered successfully.",
+          title: t("registration.successTitle"),
+          description: t("registration.successDescription"),
         });
         
         // Navigation handled in useEffect
@@ -108,7 +86,7 @@ export default function Registration() {
       <div className="max-w-md mx-auto">
         <Card>
           <CardContent className="pt-6">
-            <h2 className="text-2xl font-bold text-primary text-center mb-6">Player Registration</h2>
+            <h2 className="text-2xl font-bold text-primary text-center mb-6">{t("registration.title")}</h2>
             
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -117,9 +95,9 @@ export default function Registration() {
                   name="name"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Full Name</FormLabel>
+                      <FormLabel>{t("registration.fullName")}</FormLabel>
                       <FormControl>
-                        <Input placeholder="Enter your full name" {...field} />
+                        <Input placeholder={t("registration.namePlaceholder")} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -131,16 +109,16 @@ export default function Registration() {
                   name="gender"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Gender</FormLabel>
+                      <FormLabel>{t("registration.gender")}</FormLabel>
                       <Select onValueChange={field.onChange} defaultValue={field.value}>
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select gender" />
+                            <SelectValue placeholder={t("registration.genderPlaceholder")} />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="male">Male</SelectItem>
-                          <SelectItem value="female">Female</SelectItem>
+                          <SelectItem value="male">{t("registration.male")}</SelectItem>
+                          <SelectItem value="female">{t("registration.female")}</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -153,11 +131,11 @@ export default function Registration() {
                   name="age"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Age</FormLabel>
+                      <FormLabel>{t("registration.age")}</FormLabel>
                       <FormControl>
                         <Input 
                           type="text" 
-                          placeholder="Enter your age"
+                          placeholder={t("registration.agePlaceholder")}
                           {...field}
                           onChange={(e) => {
                             // Only allow digits
@@ -176,54 +154,10 @@ export default function Registration() {
                   name="whatsappNumber"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>WhatsApp Number</FormLabel>
-                      <div className="flex items-center space-x-2">
-                        <Select defaultValue="+971" onValueChange={val => {
-                          setCountryCode(val);
-                          // Clear the phone number when country changes
-                          setPhoneNumber("");
-                          // Set the form field with the new country code
-                          field.onChange(`${val}`);
-                        }}>
-                          <SelectTrigger className="w-[110px]">
-                            <SelectValue placeholder="Code" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="+971">UAE +971</SelectItem>
-                            <SelectItem value="+966">KSA +966</SelectItem>
-                            <SelectItem value="+973">Bahrain +973</SelectItem>
-                            <SelectItem value="+974">Qatar +974</SelectItem>
-                            <SelectItem value="+965">Kuwait +965</SelectItem>
-                            <SelectItem value="+968">Oman +968</SelectItem>
-                            <SelectItem value="+91">India +91</SelectItem>
-                          </SelectContent>
-                        </Select>
-
-                        <FormControl>
-                          <Input
-                            placeholder="Enter phone number"
-                            type="text"
-                            onChange={(e) => {
-                              // Only allow numbers
-                              const onlyNumbers = e.target.value.replace(/\D/g, '');
-                              setPhoneNumber(onlyNumbers);
-                              
-                              // Update the form field with country code + phone number
-                              field.onChange(`${countryCode}${onlyNumbers}`);
-                            }}
-                            value={phoneNumber}
-                          />
-                        </FormControl>
-                      </div>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {countryCode === "+971" && "Format: 5XXXXXXXX (9 digits)"}
-                        {countryCode === "+966" && "Format: 5XXXXXXXX (9 digits)"}
-                        {countryCode === "+973" && "Format: XXXXXXXX (8 digits)"}
-                        {countryCode === "+974" && "Format: XXXXXXXX (8 digits)"}
-                        {countryCode === "+965" && "Format: XXXXXXXX (8 digits)"}
-                        {countryCode === "+968" && "Format: XXXXXXXX (8 digits)"}
-                        {countryCode === "+91" && "Format: XXXXXXXXXX (10 digits)"}
-                      </p>
+                      <FormLabel>{t("registration.whatsapp")}</FormLabel>
+                      <FormControl>
+                        <WhatsappNumberInput onChange={field.onChange} onBlur={field.onBlur} name={field.name} ref={field.ref} />
+                      </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -237,14 +171,21 @@ export default function Registration() {
                   >
                     {registerMutation.isPending ? (
                       <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Registering...
+                        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                        {t("registration.submitting")}
                       </>
-                    ) : "Continue"}
+                    ) : t("registration.continue")}
                   </Button>
                 </div>
               </form>
             </Form>
+
+            <p className="text-sm text-center text-muted-foreground mt-6">
+              {t("registration.returningPlayer")}{" "}
+              <Link href={search ? `/login?${search}` : "/login"} className="text-primary font-medium hover:underline">
+                {t("registration.logIn")}
+              </Link>
+            </p>
           </CardContent>
         </Card>
       </div>
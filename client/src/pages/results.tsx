@@ -5,10 +5,21 @@ import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { useGameSession } from "@/hooks/use-game-session";
-import { fetchGameResults, GameSessionResult } from "@/lib/game-questions";
-import { generateVoucherPDF } from "@/lib/voucher-generator";
-import { HeartPulse, Gift, Download, ArrowLeft } from "lucide-react";
+import { useSessionEvents } from "@/hooks/use-session-events";
+import { fetchGameResults, GameSessionResult, requestRematch, downloadVoucherPdf, downloadWalletPass } from "@/lib/game-questions";
+import { useLanguage } from "@/lib/language-provider";
+import { dateLocale, TranslationKey } from "@/lib/translations";
+import { HeartPulse, Gift, Download, ArrowLeft, History, Loader2, RefreshCw, Wallet } from "lucide-react";
+
+// Wording shown for each band of the overall score
+function scoreTier(matchPercentage: number): { title: TranslationKey; message: TranslationKey } {
+  if (matchPercentage >= 81) return { title: "results.tierDeep", message: "results.tierDeepMessage" };
+  if (matchPercentage >= 51) return { title: "results.tierBeautiful", message: "results.tierBeautifulMessage" };
+  if (matchPercentage >= 31) return { title: "results.tierClearer", message: "results.tierClearerMessage" };
+  return { title: "results.tierPolishing", message: "results.tierPolishingMessage" };
+}
 
 export default function Results() {
   const params = useParams<{ code: string }>();
@@ -16,10 +27,21 @@ export default function Results() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { userId, clearUserSession } = useGameSession();
+  const { language, t } = useLanguage();
   
   const [isLoading, setIsLoading] = useState(true);
   const [results, setResults] = useState<GameSessionResult | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isDownloadingPass, setIsDownloadingPass] = useState(false);
+  const [rematchCode, setRematchCode] = useState<string | null>(null);
+  const [isStartingRematch, setIsStartingRematch] = useState(false);
+  
+  // Hear about a rematch the partner starts while we're still looking at the results
+  useSessionEvents(sessionCode, (event) => {
+    if (event.type === "rematch_created" && event.userId !== userId && event.nextSessionCode) {
+      setRematchCode(event.nextSessionCode);
+    }
+  });
   
   useEffect(() => {
     const loadResults = async () => {
@@ -28,7 +50,7 @@ export default function Results() {
       setIsLoading(true);
       try {
         console.log(`Fetching results for session code: ${sessionCode}`);
-        const resultData = await fetchGameResults(sessionCode);
+        const resultData = await fetchGameResults(sessionCode, language);
         console.log("Results data received:", {
           matchPercentage: resultData.matchPercentage,
           matchingAnswersCount: resultData.matchingAnswers?.length,
@@ -46,11 +68,12 @@ export default function Results() {
         }
         
         setResults(resultData);
+        setRematchCode(resultData.rematchCode ?? null);
       } catch (error) {
         console.error("Error loading results:", error);
         toast({
-          title: "Failed to Load Results",
-          description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+          title: t("results.loadFailed"),
+          description: error instanceof Error ? error.message : t("common.genericError"),
           variant: "destructive",
         });
       } finally {
@@ -59,42 +82,85 @@ export default function Results() {
     };
     
     loadResults();
-  }, [sessionCode, userId, toast]);
+  }, [sessionCode, userId, toast, language, t]);
   
   const handleDownloadVoucher = async () => {
     if (!results?.voucher) return;
     
     setIsDownloading(true);
     try {
-      await generateVoucherPDF({
-        voucherId: results.voucher.voucherId,
-        voucherCode: results.voucher.voucherCode,
-        discount: results.voucher.discount,
-        validUntil: results.voucher.validUntil,
-        matchPercentage: results.matchPercentage
-      });
+      await downloadVoucherPdf(results.voucher.voucherId, results.voucher.voucherCode, language);
       
       toast({
-        title: "Voucher Downloaded",
-        description: "Your voucher has been downloaded successfully.",
+        title: t("results.downloaded"),
+        description: t("results.downloadedDescription"),
       });
     } catch (error) {
       console.error("Error downloading voucher:", error);
       toast({
-        title: "Download Failed",
-        description: error instanceof Error ? error.message : "Failed to download the voucher. Please try again.",
+        title: t("results.downloadFailed"),
+        description: error instanceof Error ? error.message : t("results.downloadFailedDescription"),
         variant: "destructive",
       });
     } finally {
       setIsDownloading(false);
     }
   };
+
+  const handleAddToWallet = async () => {
+    if (!results?.voucher) return;
+    
+    setIsDownloadingPass(true);
+    try {
+      await downloadWalletPass(results.voucher.voucherId, results.voucher.voucherCode);
+    } catch (error) {
+      console.error("Error downloading wallet pass:", error);
+      toast({
+        title: t("results.downloadFailed"),
+        description: t("results.walletPassFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingPass(false);
+    }
+  };
   
   const handlePlayAgain = () => {
     clearUserSession();
     navigate("/");
   };
   
+  // Creates the follow-up session, or joins the one the partner already started
+  const handleRematch = async () => {
+    if (!sessionCode) return;
+    
+    setIsStartingRematch(true);
+    try {
+      const nextSessionCode = await requestRematch(sessionCode);
+      clearUserSession();
+      navigate(`/code-session?code=${nextSessionCode}`);
+    } catch (error) {
+      toast({
+        title: t("results.rematchFailed"),
+        description: error instanceof Error ? error.message : t("common.genericError"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsStartingRematch(false);
+    }
+  };
+
+  // Group sessions: label the current player as "You" in the matrix
+  const participantName = (id: number) => {
+    if (id === userId) return t("results.you");
+    return results?.group?.participants.find((participant) => participant.id === id)?.name ?? "";
+  };
+
+  const findPair = (a: number, b: number) =>
+    results?.group?.pairs.find(
+      (pair) => (pair.userId === a && pair.otherUserId === b) || (pair.userId === b && pair.otherUserId === a)
+    );
+
   return (
     <div className="animate-fade-in">
       <Header />
@@ -107,7 +173,7 @@ export default function Results() {
                 <div className="inline-block animate-pulse">
                   <HeartPulse className="h-12 w-12 text-primary" />
                 </div>
-                <p className="text-gray-600 mt-4">Calculating your compatibility score...</p>
+                <p className="text-gray-600 mt-4">{t("results.calculating")}</p>
               </div>
             ) : (
               <div>
@@ -118,51 +184,101 @@ export default function Results() {
     <div className="absolute inset-2 rounded-full border-4 border-white/20"></div>
     <span className="text-5xl text-purple-500">{results?.matchPercentage || 0}<span className="text-2xl align-top">%</span></span>
   </div>
-  <h2 className="text-2xl font-bold text-purple-500 mt-5">Compatibility Score</h2>
+  <h2 className="text-2xl font-bold text-purple-500 mt-5">{results?.group ? t("results.groupScore") : t("results.score")}</h2>
   <div></div>
   {results?.matchPercentage ? (
     <div className="text-gray-900 mt-2 font-medium">
-      <p>Thank you for playing the Mawadha Mirror Quiz with your partner!</p>
+      <p>{t("results.thanks")}</p>
       <p className="font-bold">
-        {Number(results.matchPercentage) >= 81
-          ? "'Deeply Connected'"
-          : Number(results.matchPercentage) >= 51
-            ? "'Beautiful Reflection'"
-            : Number(results.matchPercentage) >= 31
-              ? "'Getting Clearer'"
-              : "'Mirror needs polishing'"
-        }
+        {t(scoreTier(Number(results.matchPercentage)).title)}
       </p>
       <p className="italic mt-2">
-        {Number(results.matchPercentage) >= 81
-          ? "\"You're soul mirrors. Keep this light alive!\""
-          : Number(results.matchPercentage) >= 51
-            ? "\"You understand each other well — keep nurturing your emotional garden.\""
-            : Number(results.matchPercentage) >= 31
-              ? "\"You're learning each other. Every honest attempt builds your bond.\""
-              : "\"Every connection starts somewhere. Keep reflecting with love and courage.\""
-        }
+        {t(scoreTier(Number(results.matchPercentage)).message)}
       </p>
       <p className="mt-2">
-        Keep growing, keep reflecting.<br />
-        — Team Mawadha
+        {t("results.keepGrowing")}<br />
+        {t("results.signature")}
       </p>
     </div>
   ) : (
-    <p className="text-gray-900 mt-2 font-medium">No matching answers found</p>
+    <p className="text-gray-900 mt-2 font-medium">{t("results.noMatches")}</p>
   )}
 </div>
+                
+                {results && (
+                  <div className="grid grid-cols-2 gap-3 mb-6">
+                    <div className="bg-primary/5 rounded-lg p-3 text-center">
+                      <p className="text-2xl font-bold text-primary">{results.agreementPercentage}%</p>
+                      <p className="text-xs text-gray-600 mt-1">{t("results.agreement")}</p>
+                    </div>
+                    <div className="bg-primary/5 rounded-lg p-3 text-center">
+                      <p className="text-2xl font-bold text-primary">{results.knowledgePercentage}%</p>
+                      <p className="text-xs text-gray-600 mt-1">{t("results.knowledge")}</p>
+                    </div>
+                  </div>
+                )}
+
+                {results?.group && (
+                  <>
+                    {results.group.mostCompatiblePair && (
+                      <div className="bg-primary/10 rounded-lg p-4 mb-4 text-center">
+                        <h3 className="font-semibold text-primary mb-1">{t("results.mostCompatible")}</h3>
+                        <p className="text-gray-800">
+                          {participantName(results.group.mostCompatiblePair.userId)} &amp; {participantName(results.group.mostCompatiblePair.otherUserId)}
+                        </p>
+                        <p className="text-2xl font-bold text-primary">{results.group.mostCompatiblePair.matchPercentage}%</p>
+                      </div>
+                    )}
+
+                    <div className="border border-gray-200 rounded-lg p-4 mb-6 overflow-x-auto">
+                      <h3 className="font-semibold text-gray-800 mb-2">{t("results.groupMatrix")}</h3>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr>
+                            <th className="py-1"></th>
+                            {results.group.participants.map((participant) => (
+                              <th key={participant.id} className="font-medium py-1 px-1 text-center text-gray-500">
+                                {participantName(participant.id)}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {results.group.participants.map((row) => (
+                            <tr key={row.id} className="border-t border-gray-100">
+                              <th className="font-medium py-1 text-start text-gray-500">{participantName(row.id)}</th>
+                              {results.group!.participants.map((column) => {
+                                const pair = findPair(row.id, column.id);
+                                const best = results.group!.mostCompatiblePair;
+                                const isBest = !!pair && !!best &&
+                                  pair.userId === best.userId && pair.otherUserId === best.otherUserId;
+                                return (
+                                  <td
+                                    key={column.id}
+                                    className={`py-1 px-1 text-center ${isBest ? "bg-primary/10 font-bold text-primary" : "text-gray-700"}`}
+                                  >
+                                    {pair ? `${pair.matchPercentage}%` : "—"}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
   
                 
                 {results?.matchingAnswers && results.matchingAnswers.length > 0 && (
                   <div className="bg-primary/10 rounded-lg p-4 mb-4">
-                    <h3 className="font-semibold text-primary mb-2">Matching Answers:</h3>
+                    <h3 className="font-semibold text-primary mb-2">{t("results.matching")}</h3>
                     <ul className="list-disc list-inside text-gray-700 space-y-2">
                       {results.matchingAnswers.map((match, index) => (
                         <li key={index} className="leading-relaxed">
                           <span className="font-medium text-gray-800">{match.question}:</span> 
                           <br className="md:hidden" />
-                          <span className="ml-0 md:ml-1">You both chose </span>
+                          <span className="ms-0 md:ms-1">{t("results.bothChose")} </span>
                           <span className="text-primary font-medium">{match.answer}</span>
                         </li>
                       ))}
@@ -172,27 +288,109 @@ export default function Results() {
                 
                 {results?.nonMatchingAnswers && results.nonMatchingAnswers.length > 0 && (
                   <div className="bg-accent/10 rounded-lg p-4 mb-6">
-                    <h3 className="font-semibold text-accent mb-2">Different Answers:</h3>
+                    <h3 className="font-semibold text-accent mb-2">{t("results.different")}</h3>
                     <ul className="list-none text-gray-700 space-y-4">
                       {results.nonMatchingAnswers.map((item, index) => (
                         <li key={index} className="border-b border-accent/10 pb-3 last:border-0 last:pb-0">
                           <p className="font-medium text-gray-800 mb-2">{item.question}</p>
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-1">
                             <div className="bg-primary/5 p-2 rounded">
-                              <span className="text-primary font-medium block mb-1">You chose:</span> 
+                              <span className="text-primary font-medium block mb-1">{t("results.youChose")}</span> 
                               <span className="text-gray-700">{item.yourAnswer}</span>
                             </div>
                             <div className="bg-accent/5 p-2 rounded">
-                              <span className="text-accent font-medium block mb-1">Partner chose:</span> 
+                              <span className="text-accent font-medium block mb-1">{t("results.partnerChose")}</span> 
                               <span className="text-gray-700">{item.partnerAnswer}</span>
                             </div>
                           </div>
+                          {item.credit > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">{t("results.partialCredit", { credit: item.credit })}</p>
+                          )}
                         </li>
                       ))}
                     </ul>
                   </div>
                 )}
                 
+                {results?.yourPredictions && results.yourPredictions.length > 0 && (
+                  <div className="bg-primary/5 rounded-lg p-4 mb-6">
+                    <h3 className="font-semibold text-primary mb-2">{t("results.guessPartner")}</h3>
+                    <ul className="list-none text-gray-700 space-y-4">
+                      {results.yourPredictions.map((prediction, index) => {
+                        const partnerPrediction = results.partnerPredictions[index];
+                        return (
+                          <li key={index} className="border-b border-primary/10 pb-3 last:border-0 last:pb-0">
+                            <p className="font-medium text-gray-800 mb-2">{prediction.question}</p>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-1">
+                              <div className="bg-white/60 p-2 rounded">
+                                <span className="text-primary font-medium block mb-1">
+                                  {prediction.correct ? t("results.youGuessedRight") : t("results.youGuessedWrong")}
+                                </span>
+                                <span className="text-gray-700">
+                                  {prediction.guess}
+                                  {!prediction.correct && ` ${t("results.partnerActual", { answer: prediction.actual })}`}
+                                </span>
+                              </div>
+                              {partnerPrediction && (
+                                <div className="bg-white/60 p-2 rounded">
+                                  <span className="text-accent font-medium block mb-1">
+                                    {partnerPrediction.correct ? t("results.partnerGuessedRight") : t("results.partnerGuessedWrong")}
+                                  </span>
+                                  <span className="text-gray-700">
+                                    {partnerPrediction.guess}
+                                    {!partnerPrediction.correct && ` ${t("results.yourActual", { answer: partnerPrediction.actual })}`}
+                                  </span>
+                                </div>
+                              )}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+                
+                {results?.categoryScores && results.categoryScores.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                    <h3 className="font-semibold text-gray-800 mb-3">{t("results.byCategory")}</h3>
+                    <div className="space-y-3">
+                      {results.categoryScores.map((score) => (
+                        <div key={score.category}>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span className="text-gray-700">{t(`category.${score.category}` as TranslationKey)}</span>
+                            <span className="font-medium text-primary">{score.percentage}%</span>
+                          </div>
+                          <Progress value={score.percentage} className="h-2" />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {results?.breakdown && results.breakdown.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                    <h3 className="font-semibold text-gray-800 mb-2">{t("results.breakdown")}</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-start text-gray-500">
+                          <th className="font-medium py-1 text-start">{t("results.question")}</th>
+                          <th className="font-medium py-1 text-center">{t("results.weight")}</th>
+                          <th className="font-medium py-1 text-end">{t("results.credit")}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.breakdown.map((item, index) => (
+                          <tr key={index} className="border-t border-gray-100">
+                            <td className="py-1 pe-2 text-gray-700">{item.question}</td>
+                            <td className="py-1 text-center text-gray-700">×{item.weight}</td>
+                            <td className="py-1 text-end font-medium text-primary">{item.credit}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                
                 {results?.voucher && (
                   <div className="mt-10">
                     <div className="relative bg-gradient-to-br from-primary via-[#a235a2] to-[#8e2c8e] p-7 rounded-lg shadow-xl max-w-md mx-auto transform transition-all duration-300 hover:scale-105 overflow-hidden border border-white/20">
@@ -216,17 +414,17 @@ export default function Results() {
                       <div className="relative z-10">
                         <div className="text-center">
                           <div className="bg-white/20 backdrop-blur-sm text-white inline-block px-4 py-1.5 rounded-full text-sm font-medium mb-3 shadow-lg">
-                            <Gift className="inline-block w-4 h-4 mr-1" /> 
-                            Congratulations!
+                            <Gift className="inline-block w-4 h-4 me-1" /> 
+                            {t("results.congratulations")}
                           </div>
                           
-                          <h3 className="text-xl font-bold text-white mb-1 text-shadow">You've Earned a Voucher!</h3>
+                          <h3 className="text-xl font-bold text-white mb-1 text-shadow">{t("results.earnedVoucher")}</h3>
                           <div className="flex items-center justify-center gap-2 mb-4">
                             <div className="bg-white/20 rounded-full h-5 w-5 flex items-center justify-center">
                               <HeartPulse className="h-3 w-3 text-primary" />
                             </div>
                             <p className="text-primary text-sm">
-                              Match percentage: <span className="font-bold">{results.matchPercentage}%</span>
+                              {t("results.matchPercentage")} <span className="font-bold">{results.matchPercentage}%</span>
                             </p>
                             <div className="bg-white/20 rounded-full h-5 w-5 flex items-center justify-center">
                               <HeartPulse className="h-3 w-3 text-primary" />
@@ -238,22 +436,27 @@ export default function Results() {
                               {results.voucher.discount}
                             </p>
                             <p className="text-primary uppercase tracking-widest text-xs font-medium mt-1 letter-spacing-wide">
-                              {results.voucher.discount.includes('%') ? 'DISCOUNT VOUCHER' : 'CASH VOUCHER'}
+                              {results.voucher.discount.includes('%') ? t("results.discountVoucher") : t("results.cashVoucher")}
                             </p>
+                            {results.voucher.merchant && (
+                              <p className="text-primary font-semibold mt-2">{results.voucher.merchant.name}</p>
+                            )}
                           </div>
                           
                           <div className="bg-white/20 backdrop-blur-md rounded-lg p-3.5 mb-3 border border-primary/20 shadow-inner">
-                            <p className="text-xs text-primary mb-1 uppercase tracking-wider font-medium">VOUCHER CODE</p>
-                            <p className="text-primary font-mono font-bold tracking-[0.2em] text-lg">
+                            <p className="text-xs text-primary mb-1 uppercase tracking-wider font-medium">{t("results.voucherCode")}</p>
+                            <p dir="ltr" className="text-primary font-mono font-bold tracking-[0.2em] text-lg">
                               {results.voucher.voucherCode}
                             </p>
                           </div>
                           
                           <p className="text-primary text-xs mb-4 bg-white/20 rounded-full py-1.5 px-4 inline-block shadow-sm">
-                            Valid until: {new Date(results.voucher.validUntil).toLocaleDateString('en-US', {
-                              year: 'numeric',
-                              month: 'long',
-                              day: 'numeric'
+                            {t("voucher.validUntil", {
+                              date: new Date(results.voucher.validUntil).toLocaleDateString(dateLocale(language), {
+                                year: 'numeric',
+                                month: 'long',
+                                day: 'numeric'
+                              })
                             })}
                           </p>
                         </div>
@@ -263,32 +466,83 @@ export default function Results() {
                           className="bg-white hover:bg-white/90 text-primary font-semibold py-3 px-4 rounded-lg w-full flex items-center justify-center shadow-lg"
                           disabled={isDownloading}
                         >
-                          <Download className="h-5 w-5 mr-2" /> 
-                          {isDownloading ? "Preparing PDF..." : "Download Voucher"}
+                          <Download className="h-5 w-5 me-2" /> 
+                          {isDownloading ? t("results.preparingPdf") : t("results.downloadVoucher")}
                         </Button>
+                        
+                        {results.voucher.walletPassAvailable && (
+                          <Button
+                            onClick={handleAddToWallet}
+                            variant="outline"
+                            className="mt-3 bg-transparent hover:bg-white/10 text-white border-white font-semibold py-3 px-4 rounded-lg w-full flex items-center justify-center"
+                            disabled={isDownloadingPass}
+                          >
+                            <Wallet className="h-5 w-5 me-2" />
+                            {isDownloadingPass ? t("results.preparingWalletPass") : t("results.addToWallet")}
+                          </Button>
+                        )}
                       </div>
                     </div>
                     
                     <p className="text-center text-gray-500 text-xs mt-3">
-                      ↑ Click to download and save your voucher ↑
+                      {t("results.clickToDownload")}
                     </p>
                   </div>
                 )}
                 
-                <div className="flex flex-col sm:flex-row justify-center items-center gap-4 mt-8">
+                {rematchCode && (
+                  <div className="bg-accent/10 rounded-lg p-4 mt-8 text-center">
+                    <p className="font-semibold text-accent mb-3">{t("results.rematchInvite")}</p>
+                    <Button
+                      onClick={handleRematch}
+                      disabled={isStartingRematch}
+                      className="bg-accent hover:bg-accent/80 text-white font-semibold rounded-full"
+                    >
+                      {isStartingRematch && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+                      {t("results.joinRematch")}
+                    </Button>
+                  </div>
+                )}
+                
+                {!rematchCode && (
+                  <div className="flex justify-center mt-8">
+                    <Button
+                      onClick={handleRematch}
+                      disabled={isStartingRematch}
+                      className="bg-primary hover:bg-primary/80 text-white font-semibold py-3 px-8 rounded-full shadow-lg"
+                    >
+                      {isStartingRematch ? (
+                        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="me-2 h-4 w-4" />
+                      )}
+                      {results?.group ? t("results.playAgainSameGroup") : t("results.playAgainSamePartner")}
+                    </Button>
+                  </div>
+                )}
+                
+                <div className="flex flex-col sm:flex-row justify-center items-center gap-4 mt-4">
                   <Button 
                     onClick={handlePlayAgain}
                     className="bg-accent hover:bg-accent/80 text-white font-semibold py-3 px-8 rounded-full shadow-lg"
                   >
-                    Play Again
+                    {t("results.playAgain")}
                   </Button>
                   <Button 
                     variant="outline"
                     onClick={() => navigate('/')}
                     className="flex items-center gap-2 py-3 px-5 rounded-full"
                   >
-                    <ArrowLeft className="h-4 w-4 text-purple-500" />
-                    Back to Welcome
+                    <ArrowLeft className="h-4 w-4 text-purple-500 rtl:rotate-180" />
+                    {t("results.backToWelcome")}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => navigate("/history")}
+                    className="flex items-center gap-2 py-3 px-5 rounded-full"
+                  >
+                    <History className="h-4 w-4 text-purple-500" />
+                    {t("results.viewHistory")}
                   </Button>
                 </div>
               </div>
@@ -3,12 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { useAuth } from "@/hooks/use-auth";
+import { useLanguage } from "@/lib/language-provider";
 import { useEffect } from "react";
 import { Loader2, Instagram, Youtube, Globe } from "lucide-react";
 
 export default function Welcome() {
   const { user, isLoading } = useAuth();
   const [, navigate] = useLocation();
+  const { t } = useLanguage();
 
   // Redirect to code session if user is already logged in
   useEffect(() => {
@@ -26,7 +28,7 @@ export default function Welcome() {
         <div className="container mx-auto flex items-center justify-center min-h-[300px]">
           <div className="text-center">
             <Loader2 className="h-10 w-10 animate-spin text-primary mx-auto mb-4" />
-            <p className="text-gray-600">Loading...</p>
+            <p className="text-gray-600">{t("common.loading")}</p>
           </div>
         </div>
 
@@ -48,11 +50,10 @@ export default function Welcome() {
             {/* Main content */}
             <div className="max-w-lg">
               <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-primary mb-4 animate-fade-in">
-                Compatibility Challenge
+                {t("welcome.title")}
               </h1>
               <p className="text-lg md:text-xl text-gray-700 mb-8 animate-slide-up">
-                Discover how well you know your partner and win exclusive
-                vouchers together!
+                {t("welcome.subtitle")}
               </p>
 
               <div className="mt-6 animate-fade-in">
@@ -61,13 +62,13 @@ export default function Welcome() {
                     size="lg"
                     className="font-semibold py-4 px-8 rounded-full shadow-lg text-lg md:text-xl bg-[#8e2c8e] hover:bg-[#742374] text-white"
                   >
-                    Start Now
+                    {t("welcome.start")}
                   </Button>
                 </Link>
               </div>
 
               {/* Social Media Links */}
-              <div className="mt-10 flex justify-center items-center space-x-5">
+              <div className="mt-10 flex justify-center items-center space-x-5 rtl:space-x-reverse">
                 <a
                   href="https://www.instagram.com/mawadhaofficial?utm_source=qr&igsh=bmgxNGl0MmpjYm92"
                   target="_blank"
@@ -75,7 +76,7 @@ export default function Welcome() {
                   className="text-primary hover:text-primary/80 transition-colors duration-200 flex flex-col items-center"
                 >
                   <Instagram className="w-6 h-6 mb-1" />
-                  <span className="text-xs">Instagram</span>
+                  <span className="text-xs">{t("welcome.instagram")}</span>
                 </a>
                 <a
                   href="https://youtube.com/@mawadhaofficial?si=TGKKepllEntj_gSy"
@@ -84,7 +85,7 @@ export default function Welcome() {
                   className="text-primary hover:text-primary/80 transition-colors duration-200 flex flex-col items-center"
                 >
                   <Youtube className="w-6 h-6 mb-1" />
-                  <span className="text-xs">YouTube</span>
+                  <span className="text-xs">{t("welcome.youtube")}</span>
                 </a>
                 <a
                   href="https://www.mawadha.com"
@@ -93,7 +94,7 @@ export default function Welcome() {
                   className="text-primary hover:text-primary/80 transition-colors duration-200 flex flex-col items-center"
                 >
                   <Globe className="w-6 h-6 mb-1" />
-                  <span className="text-xs">Website</span>
+                  <span className="text-xs">{t("welcome.website")}</span>
                 </a>
               </div>
             </div>
@@ -16,4 +16,47 @@ if (!process.env.SESSION_SECRET) {
 export const config = {
   databaseUrl: process.env.DATABASE_URL,
   sessionSecret: process.env.SESSION_SECRET,
+  // Key for the signatures on voucher redemption links; falls back to the session secret
+  voucherSigningSecret: process.env.VOUCHER_SIGNING_SECRET || process.env.SESSION_SECRET,
+  // Key for the signatures on player tokens; falls back to the session secret
+  userTokenSecret: process.env.USER_TOKEN_SECRET || process.env.SESSION_SECRET,
+  // Public address used in links printed on vouchers, e.g. https://mawadha.example.com
+  publicBaseUrl: process.env.PUBLIC_BASE_URL,
+  // Wallet passes are only offered when a pass type certificate is configured
+  walletPass: {
+    passTypeIdentifier: process.env.WALLET_PASS_TYPE_IDENTIFIER, // e.g. pass.com.example.mawadha
+    teamIdentifier: process.env.WALLET_TEAM_IDENTIFIER,
+    certificatePath: process.env.WALLET_CERT_PATH, // Pass type certificate, PEM
+    keyPath: process.env.WALLET_KEY_PATH, // Its private key, PEM
+    keyPassphrase: process.env.WALLET_KEY_PASSPHRASE,
+    wwdrCertificatePath: process.env.WALLET_WWDR_CERT_PATH, // Apple WWDR intermediate certificate, PEM
+  },
+  // Used to create the first owner account when no admin accounts exist yet
+  initialAdmin: {
+    username: process.env.ADMIN_USERNAME,
+    password: process.env.ADMIN_PASSWORD,
+  },
+  // Where player messages such as invites and voucher reminders are sent: "whatsapp" for the
+  // WhatsApp Business API, or "log" to write them to the console during development
+  notifications: {
+    provider: process.env.NOTIFICATION_PROVIDER || "log",
+    logFile: process.env.NOTIFICATION_LOG_FILE, // Also append logged messages to this file
+  },
+  // WhatsApp Business (Cloud API) credentials, used by the "whatsapp" provider
+  whatsapp: {
+    apiUrl: process.env.WHATSAPP_API_URL || "https://graph.facebook.com/v20.0",
+    phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+    appSecret: process.env.WHATSAPP_APP_SECRET, // Checks the signature on status webhooks
+    webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
+    // Names of the approved message templates each kind of message is sent as, and the
+    // language they were approved in. Their parameters are listed in server/notifications.ts.
+    templates: {
+      session_invite: process.env.WHATSAPP_TEMPLATE_SESSION_INVITE || "mawadha_session_invite",
+      voucher: process.env.WHATSAPP_TEMPLATE_VOUCHER || "mawadha_voucher",
+      voucher_reminder: process.env.WHATSAPP_TEMPLATE_VOUCHER_REMINDER || "mawadha_voucher_reminder",
+      login_code: process.env.WHATSAPP_TEMPLATE_LOGIN_CODE || "mawadha_login_code",
+    },
+    templateLanguage: process.env.WHATSAPP_TEMPLATE_LANGUAGE || "en",
+  },
 }; 
\ No newline at end of file
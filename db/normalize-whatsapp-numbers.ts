@@ -0,0 +1,37 @@
+import { db, pool } from "./index";
+import * as schema from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+// One-off: numbers registered before they were normalised are rewritten to E.164, so
+// duplicates typed differently (spaces, 00 instead of +, a local leading 0) are found.
+// New registrations are normalised as they come in; running this again changes nothing.
+async function normalizeWhatsappNumbers() {
+  const users = await db.select({ id: schema.users.id, whatsappNumber: schema.users.whatsappNumber })
+    .from(schema.users);
+
+  let updated = 0;
+  for (const user of users) {
+    const whatsappNumber = schema.normalizeWhatsappNumber(user.whatsappNumber);
+    if (whatsappNumber && whatsappNumber !== user.whatsappNumber) {
+      await db.update(schema.users)
+        .set({ whatsappNumber })
+        .where(eq(schema.users.id, user.id));
+      updated++;
+    }
+  }
+
+  console.log(`Normalised ${updated} of ${users.length} WhatsApp number(s)`);
+}
+
+async function run() {
+  try {
+    await normalizeWhatsappNumbers();
+  } catch (error) {
+    console.error("Error normalising WhatsApp numbers:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+run();
@@ -0,0 +1,70 @@
+import { storage, AuditLogFilters } from "./storage";
+import type { AuthRequest } from "./auth";
+import { AuditAction, AuditEntityType, AuditLog } from "@shared/schema";
+import { csvRow } from "./csv";
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: number | string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Never written to the log, wherever they appear in an entity
+const REDACTED_KEYS = new Set(["password", "passwordHash"]);
+
+// Plain JSON for the jsonb columns: dates become ISO strings and secrets are dropped
+function snapshot(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify(value, (key, field) => REDACTED_KEYS.has(key) ? undefined : field));
+}
+
+const CSV_HEADERS = ["Time", "Admin", "Action", "Entity", "Entity ID", "Before", "After"];
+
+function toCsvRow(entry: AuditLog): string {
+  return csvRow([
+    entry.createdAt.toISOString(),
+    entry.adminUsername,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.before === null ? null : JSON.stringify(entry.before),
+    entry.after === null ? null : JSON.stringify(entry.after)
+  ]);
+}
+
+export const auditLog = {
+  // Records changes made by the signed-in admin. The change has already happened by the time
+  // this runs, so a failure to write the log is reported rather than failing the request.
+  async record(req: AuthRequest, entries: AuditEntry | AuditEntry[]): Promise<void> {
+    const admin = req.adminUser!;
+    try {
+      await storage.createAuditLogs((Array.isArray(entries) ? entries : [entries]).map((entry) => ({
+        adminId: admin.id,
+        adminUsername: admin.username,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId === undefined || entry.entityId === null ? null : String(entry.entityId),
+        before: snapshot(entry.before),
+        after: snapshot(entry.after)
+      })));
+    } catch (error) {
+      console.error(`Error writing audit log for ${admin.username}:`, error, entries);
+    }
+  },
+
+  async list(page: number, limit: number, filters: AuditLogFilters): Promise<{ entries: AuditLog[]; total: number }> {
+    const entries = await storage.getAuditLogs(limit, (page - 1) * limit, filters);
+    const total = await storage.getTotalAuditLogs(filters);
+    return { entries, total };
+  },
+
+  // Every entry matching the filters, as a CSV file
+  async exportCsv(filters: AuditLogFilters): Promise<string> {
+    const entries = await storage.getAuditLogs(undefined, 0, filters);
+    return [csvRow(CSV_HEADERS), ...entries.map(toCsvRow)].join("\r\n");
+  }
+};
@@ -1,23 +1,25 @@
 import { Request, Response, NextFunction } from "express";
-import { adminLoginSchema } from "@shared/schema";
-
-const ADMIN_USERNAME = "admin";
-const ADMIN_PASSWORD = "123@Admin";
+import { adminLoginSchema, merchantLoginSchema, AdminPermission, hasAdminPermission } from "@shared/schema";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword } from "./passwords";
+import { config } from "../config";
 
 export interface AuthRequest extends Request {
-  adminUser?: { username: string };
+  adminUser?: { id: number; username: string; role: string };
+  merchant?: { id: number; name: string };
 }
 
-export function validateAdminLogin(req: Request, res: Response) {
+export async function validateAdminLogin(req: Request, res: Response) {
   try {
     const credentials = adminLoginSchema.parse(req.body);
 
-    if (credentials.username === ADMIN_USERNAME && credentials.password === ADMIN_PASSWORD) {
+    const admin = await storage.getAdminByUsername(credentials.username);
+    if (admin && admin.isActive && await verifyPassword(credentials.password, admin.passwordHash)) {
       // Set session data
       if (req.session) {
-        req.session.isAdmin = true;
-        req.session.adminUser = { username: ADMIN_USERNAME };
+        req.session.adminUser = { id: admin.id, username: admin.username };
       }
+      await storage.recordAdminLogin(admin.id);
       return res.status(200).json({ message: "Login successful" });
     } else {
       return res.status(401).json({ message: "Invalid credentials" });
@@ -28,13 +30,49 @@ export function validateAdminLogin(req: Request, res: Response) {
   }
 }
 
-export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction) {
-  if (req.session?.isAdmin) {
-    req.adminUser = req.session.adminUser;
-    return next();
+// Lets a signed-in admin through if their role holds the permission; without one, any
+// signed-in admin. The account is re-read on every request so that a deactivated account
+// or a changed role takes effect straight away.
+export function requirePermission(permission?: AdminPermission) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const adminId = req.session?.adminUser?.id;
+      const admin = adminId ? await storage.getAdminById(adminId) : undefined;
+      if (!admin || !admin.isActive) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (permission && !hasAdminPermission(admin.role, permission)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      req.adminUser = { id: admin.id, username: admin.username, role: admin.role };
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+// Creates the first owner from ADMIN_USERNAME and ADMIN_PASSWORD while there are no admin
+// accounts, so a fresh install can be signed into
+export async function ensureOwnerAccount() {
+  if (await storage.countAdmins() > 0) {
+    return;
   }
-  
-  return res.status(401).json({ message: "Unauthorized" });
+
+  const { username, password } = config.initialAdmin;
+  if (!username || !password) {
+    console.warn("No admin accounts exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first owner.");
+    return;
+  }
+  await storage.createAdmin({
+    username,
+    name: username,
+    role: "owner",
+    isActive: true,
+    passwordHash: await hashPassword(password)
+  });
+  console.log(`Created owner account "${username}"`);
 }
 
 export function adminLogout(req: Request, res: Response) {
@@ -48,3 +86,46 @@ export function adminLogout(req: Request, res: Response) {
     return res.status(200).json({ message: "Logged out successfully" });
   });
 }
+
+export async function validateMerchantLogin(req: Request, res: Response) {
+  try {
+    const credentials = merchantLoginSchema.parse(req.body);
+
+    const merchant = await storage.getMerchantByUsername(credentials.username);
+    if (merchant && merchant.isActive && await verifyPassword(credentials.password, merchant.passwordHash)) {
+      if (req.session) {
+        req.session.merchant = { id: merchant.id, name: merchant.name };
+      }
+      return res.status(200).json({ message: "Login successful", merchant: { name: merchant.name } });
+    } else {
+      return res.status(401).json({ message: "Invalid credentials" });
+    }
+  } catch (error) {
+    console.error("Merchant login validation error:", error);
+    return res.status(400).json({ message: "Invalid input data" });
+  }
+}
+
+// Like requirePermission, the merchant is re-read on every request so that deactivating
+// it signs its staff out straight away
+export async function requireMerchant(req: AuthRequest, res: Response, next: NextFunction) {
+  try {
+    const merchantId = req.session?.merchant?.id;
+    const merchant = merchantId ? await storage.getMerchantById(merchantId) : undefined;
+    if (!merchant || !merchant.isActive) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    req.merchant = { id: merchant.id, name: merchant.name };
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export function merchantLogout(req: Request, res: Response) {
+  if (req.session) {
+    delete req.session.merchant;
+  }
+  return res.status(200).json({ message: "Logged out successfully" });
+}
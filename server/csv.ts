@@ -0,0 +1,12 @@
+// Quotes every field; a leading =, +, - or @ is escaped so spreadsheets don't run it as a formula
+export function csvField(value: string | boolean | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function csvRow(values: (string | boolean | number | null)[]): string {
+  return values.map(csvField).join(",");
+}
@@ -1,31 +1,241 @@
 import { storage } from "./storage";
+import { toIssuedVoucher, formatTemplateDiscount, withNewVoucherCode, voucherService } from "./voucher-service";
+import { messageService, bilingualMessage } from "./notifications";
 import { nanoid } from "nanoid";
 import { db } from "@db";
 import { eq } from "drizzle-orm";
-import { gameSessions } from "@shared/schema";
-
-export interface GameQuestion {
-  id: number;
-  text: string;
-  options: Array<{
-    id: number;
-    text: string;
-  }>;
-  type: string;
+import {
+  gameSessions,
+  GameSession,
+  Language,
+  SUPPORTED_LANGUAGES,
+  GameQuestion,
+  PredictionResult,
+  ScoreBreakdownItem,
+  MatchResult,
+  PairScore,
+  GroupResult
+} from "@shared/schema";
+
+// Stored on the session when it is finalised, so results are computed exactly once
+export interface FrozenResult {
+  // Player whose point of view the "your"/"partner" fields are written from
+  perspectiveUserId: number;
+  byLanguage: Record<Language, Omit<MatchResult, "sessionId">>;
+}
+
+// Deck used when no question pools have been configured
+const DEFAULT_DECK = { common: 5, individual: 2 };
+
+// How long a new code can be joined, and how long a full session has to finish before it is abandoned
+export const SESSION_EXPIRY_HOURS = Number(process.env.SESSION_EXPIRY_HOURS) || 24;
+export const SESSION_ABANDON_HOURS = Number(process.env.SESSION_ABANDON_HOURS) || 24;
+
+export type JoinResult = "joined" | "not_found" | "full" | "expired";
+
+// Invites a session's players can send, to keep the app from being used to message strangers
+const MAX_INVITES_PER_SESSION = 5;
+
+export type InviteResult = "sent" | "failed" | "not_found" | "full" | "expired" | "limit_reached";
+
+export type SubmitAnswersResult = "submitted" | "not_found" | "expired" | "not_participant" | "already_submitted" | "invalid_answers";
+
+export interface SessionHistoryItem {
+  sessionCode: string;
+  createdAt: Date;
+  completedAt: Date | null;
+  matchPercentage: number | null;
+  status: string;
+  completed: boolean;
+  // Names of the other players
+  partners: string[];
+  // Code of the session this one was a rematch of
+  previousSessionCode: string | null;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Weighted average of the credits, as a whole percentage
+function weightedPercentage(items: { weight: number; credit: number }[]): number {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) return 0;
+  
+  const earned = items.reduce((sum, item) => sum + item.weight * item.credit, 0);
+  return Math.round(earned / totalWeight);
+}
+
+// Option IDs are unique across questions, so an unordered pair is enough as a key
+function similarityKey(optionId: number, otherOptionId: number): string {
+  return optionId < otherOptionId ? `${optionId}:${otherOptionId}` : `${otherOptionId}:${optionId}`;
+}
+
+function optionCredit(similarities: Map<string, number>, optionId: number, otherOptionId: number): number {
+  if (optionId === otherOptionId) return 100;
+  return similarities.get(similarityKey(optionId, otherOptionId)) ?? 0;
+}
+
+// Pick the translation for the player's language, falling back to English
+function localize(text: string, textAr: string | null, language: Language): string {
+  return language === "ar" && textAr ? textAr : text;
+}
+
+// Read a couple's frozen result from the other player's side
+function flipPerspective(result: Omit<MatchResult, "sessionId">): Omit<MatchResult, "sessionId"> {
+  return {
+    ...result,
+    nonMatchingAnswers: result.nonMatchingAnswers.map(item => ({
+      ...item,
+      yourAnswer: item.partnerAnswer,
+      partnerAnswer: item.yourAnswer
+    })),
+    yourPredictions: result.partnerPredictions,
+    partnerPredictions: result.yourPredictions
+  };
+}
+
+// A frozen result with the given players replaced by another, used when accounts are merged
+export function reassignFrozenResult(result: FrozenResult, fromUserIds: number[], to: { id: number; name: string }): FrozenResult {
+  const reassign = (userId: number) => fromUserIds.includes(userId) ? to.id : userId;
+  const reassignPair = (pair: PairScore): PairScore => ({ ...pair, userId: reassign(pair.userId), otherUserId: reassign(pair.otherUserId) });
+
+  const byLanguage = {} as FrozenResult["byLanguage"];
+  for (const [language, languageResult] of Object.entries(result.byLanguage) as [Language, FrozenResult["byLanguage"][Language]][]) {
+    const group = languageResult.group;
+    byLanguage[language] = {
+      ...languageResult,
+      group: group && {
+        participants: group.participants.map(participant => fromUserIds.includes(participant.id) ? { id: to.id, name: to.name } : participant),
+        pairs: group.pairs.map(reassignPair),
+        mostCompatiblePair: group.mostCompatiblePair && reassignPair(group.mostCompatiblePair)
+      }
+    };
+  }
+  return { perspectiveUserId: reassign(result.perspectiveUserId), byLanguage };
+}
+
+type AnswerInfo = {
+  questionText: string;
+  questionType: string;
+  category: string | null;
+  weight: number;
+  optionId: number;
+  answerText: string;
+  predictedOptionId: number | null;
+  predictedText: string | null;
+};
+
+// Overall, agreement, knowledge and per-category percentages for a set of scored questions
+function summarize(breakdown: ScoreBreakdownItem[]) {
+  const categories = Array.from(new Set(breakdown.map(item => item.category).filter((c): c is string => !!c)));
+  
+  return {
+    matchPercentage: weightedPercentage(breakdown),
+    agreementPercentage: weightedPercentage(breakdown.filter(item => item.kind === "agreement")),
+    knowledgePercentage: weightedPercentage(breakdown.filter(item => item.kind === "prediction")),
+    categoryScores: categories.map(category => ({
+      category,
+      percentage: weightedPercentage(breakdown.filter(item => item.category === category))
+    }))
+  };
 }
 
-export interface MatchResult {
-  matchPercentage: number;
-  matchingAnswers: {
-    question: string;
-    answer: string;
-  }[];
-  nonMatchingAnswers: {
-    question: string;
-    yourAnswer: string;
-    partnerAnswer: string;
-  }[];
-  sessionId: number;
+// Compare two players' answers, from the point of view of the first one
+function comparePair(
+  yourAnswers: Map<number, AnswerInfo>,
+  partnerAnswers: Map<number, AnswerInfo>,
+  similarities: Map<string, number>
+): Omit<MatchResult, "sessionId" | "group"> {
+  const matchingAnswers: MatchResult["matchingAnswers"] = [];
+  const nonMatchingAnswers: MatchResult["nonMatchingAnswers"] = [];
+  const yourPredictions: PredictionResult[] = [];
+  const partnerPredictions: PredictionResult[] = [];
+  const breakdown: ScoreBreakdownItem[] = [];
+
+  // Process only questions both users have answered
+  // Convert Map.entries() to array to avoid TypeScript iterator issues
+  const yourEntriesArray = Array.from(yourAnswers.entries());
+
+  for (let i = 0; i < yourEntriesArray.length; i++) {
+    const [questionId, yourAnswer] = yourEntriesArray[i];
+    const partnerAnswer = partnerAnswers.get(questionId);
+    
+    if (!partnerAnswer) {
+      console.log(`Partner didn't answer question ${questionId}`);
+      continue; // Skip if second user didn't answer this question
+    }
+    
+    // Individual questions are scored on how well each partner predicted the other's answer.
+    // Older answers without predictions fall back to plain agreement scoring.
+    if (yourAnswer.questionType === "individual" &&
+        yourAnswer.predictedOptionId && yourAnswer.predictedText &&
+        partnerAnswer.predictedOptionId && partnerAnswer.predictedText) {
+      const yourCredit = optionCredit(similarities, yourAnswer.predictedOptionId, partnerAnswer.optionId);
+      const partnerCredit = optionCredit(similarities, partnerAnswer.predictedOptionId, yourAnswer.optionId);
+      
+      yourPredictions.push({
+        question: yourAnswer.questionText,
+        guess: yourAnswer.predictedText,
+        actual: partnerAnswer.answerText,
+        correct: yourAnswer.predictedOptionId === partnerAnswer.optionId,
+        credit: yourCredit
+      });
+      partnerPredictions.push({
+        question: yourAnswer.questionText,
+        guess: partnerAnswer.predictedText,
+        actual: yourAnswer.answerText,
+        correct: partnerAnswer.predictedOptionId === yourAnswer.optionId,
+        credit: partnerCredit
+      });
+      breakdown.push({
+        question: yourAnswer.questionText,
+        category: yourAnswer.category,
+        kind: "prediction",
+        weight: yourAnswer.weight,
+        credit: Math.round((yourCredit + partnerCredit) / 2)
+      });
+      continue;
+    }
+    
+    const credit = optionCredit(similarities, yourAnswer.optionId, partnerAnswer.optionId);
+    breakdown.push({
+      question: yourAnswer.questionText,
+      category: yourAnswer.category,
+      kind: "agreement",
+      weight: yourAnswer.weight,
+      credit
+    });
+    
+    // Check if answers match
+    if (yourAnswer.optionId === partnerAnswer.optionId) {
+      matchingAnswers.push({
+        question: yourAnswer.questionText,
+        answer: yourAnswer.answerText
+      });
+    } else {
+      nonMatchingAnswers.push({
+        question: yourAnswer.questionText,
+        yourAnswer: yourAnswer.answerText,
+        partnerAnswer: partnerAnswer.answerText,
+        credit
+      });
+    }
+  }
+
+  return {
+    ...summarize(breakdown),
+    matchingAnswers,
+    nonMatchingAnswers,
+    yourPredictions,
+    partnerPredictions,
+    breakdown
+  };
 }
 
 export const gameService = {
@@ -34,16 +244,50 @@ export const gameService = {
     return nanoid(6).toUpperCase();
   },
 
-  async createSession(): Promise<string> {
+  async createSession(packId?: number | null, capacity: number = 2, previousSessionId: number | null = null): Promise<string> {
     const sessionCode = this.generateSessionCode();
-    await storage.createGameSession({ sessionCode });
+    const expiresAt = new Date(Date.now() + SESSION_EXPIRY_HOURS * 60 * 60 * 1000);
+    const session = await storage.createGameSession({ sessionCode, packId: packId ?? null, capacity, expiresAt, previousSessionId });
+    
+    // Draw the deck up front so every player gets the same questions
+    await storage.assignSessionQuestions(session.id, await this.drawDeck(packId));
     return sessionCode;
   },
 
-  async joinSession(sessionCode: string, userId: number): Promise<boolean> {
+  // Randomly pick question IDs for a new session: a themed pack is played in full,
+  // otherwise each pool's draw count is honoured
+  async drawDeck(packId?: number | null): Promise<number[]> {
+    if (packId) {
+      const pack = await storage.getQuestionPackById(packId);
+      if (pack && pack.questionIds.length > 0) {
+        return shuffle(pack.questionIds);
+      }
+    }
+    
+    const [allQuestions, pools] = await Promise.all([
+      storage.getQuestions(),
+      storage.getQuestionPools()
+    ]);
+    
+    let drawn: typeof allQuestions;
+    if (pools.length > 0) {
+      drawn = pools.flatMap(pool =>
+        shuffle(allQuestions.filter(q => q.poolId === pool.id)).slice(0, pool.drawCount)
+      );
+    } else {
+      drawn = [
+        ...shuffle(allQuestions.filter(q => q.questionType === "common")).slice(0, DEFAULT_DECK.common),
+        ...shuffle(allQuestions.filter(q => q.questionType === "individual")).slice(0, DEFAULT_DECK.individual)
+      ];
+    }
+    
+    return drawn.map(q => q.id);
+  },
+
+  async joinSession(sessionCode: string, userId: number): Promise<JoinResult> {
     const session = await storage.getGameSessionByCode(sessionCode);
     if (!session) {
-      return false;
+      return "not_found";
     }
 
     const participants = await storage.getSessionParticipants(session.id);
@@ -51,17 +295,138 @@ export const gameService = {
     // Check if the user is already a participant in this session
     const isUserAlreadyParticipant = participants.some(participant => participant.id === userId);
     if (isUserAlreadyParticipant) {
-      return true; // User is already a participant, consider this a successful join
+      return "joined"; // User is already a participant, consider this a successful join
+    }
+    
+    // Expired and abandoned codes can't take new players
+    if (session.status === "abandoned" || (session.expiresAt && session.expiresAt < new Date())) {
+      return "expired";
     }
     
     // Check if the session is already full
-    if (participants.length >= 2) {
-      return false; // Session already full
+    if (participants.length >= session.capacity) {
+      return "full";
     }
 
     // Add the user to the session if not already a participant
     await storage.addParticipantToSession(session.id, userId);
-    return true;
+    return "joined";
+  },
+
+  // Send a partner the session code and a link to join it on WhatsApp. Only players of a
+  // session that still has room can invite.
+  async invitePartner(sessionCode: string, userId: number, whatsappNumber: string, joinUrl: string): Promise<InviteResult> {
+    const session = await storage.getGameSessionByCode(sessionCode);
+    if (!session) {
+      return "not_found";
+    }
+
+    const participants = await storage.getSessionParticipants(session.id);
+    const inviter = participants.find(participant => participant.id === userId);
+    if (!inviter) {
+      return "not_found";
+    }
+    if (session.completed || session.status === "abandoned" || (session.expiresAt && session.expiresAt < new Date())) {
+      return "expired";
+    }
+    if (participants.length >= session.capacity) {
+      return "full";
+    }
+    if (await storage.countSessionMessages(session.id, "session_invite") >= MAX_INVITES_PER_SESSION) {
+      return "limit_reached";
+    }
+
+    const message = await messageService.send({
+      kind: "session_invite",
+      to: whatsappNumber,
+      body: bilingualMessage(
+        `${inviter.name} has invited you to the Mawadha Compatibility Challenge! Join with code ${session.sessionCode}: ${joinUrl}`,
+        `يدعوك ${inviter.name} إلى تحدي التوافق من مودة! انضم باستخدام الرمز ${session.sessionCode}: ${joinUrl}`
+      ),
+      parameters: [inviter.name, session.sessionCode, joinUrl],
+      sessionId: session.id
+    });
+    return message.status === "failed" ? "failed" : "sent";
+  },
+
+  // Start (or join) the follow-up session for a finished one, with the same pack and size
+  // but a fresh deck. Only players of the finished session can do this. Whoever starts it
+  // invites the other players on WhatsApp, in case they have left the results page.
+  async createRematch(sessionCode: string, userId: number, baseUrl: string): Promise<string | null> {
+    const session = await storage.getGameSessionByCode(sessionCode);
+    if (!session || !session.completed) {
+      return null;
+    }
+
+    const participants = await storage.getSessionParticipants(session.id);
+    const inviter = participants.find(participant => participant.id === userId);
+    if (!inviter) {
+      return null;
+    }
+
+    // The partner may already have asked for a rematch
+    let rematch = await storage.getRematchSession(session.id);
+    let started = false;
+    if (!rematch) {
+      try {
+        await this.createSession(session.packId, session.capacity, session.id);
+        started = true;
+      } catch (error) {
+        // Both players asked at the same time and the other request won
+        if (!(error && typeof error === 'object' && 'constraint' in error && error.constraint === 'game_sessions_previous_session_id_unique')) {
+          throw error;
+        }
+      }
+      rematch = await storage.getRematchSession(session.id);
+      if (!rematch) {
+        return null;
+      }
+    }
+
+    await this.joinSession(rematch.sessionCode, userId);
+
+    const { id: rematchId, sessionCode: rematchCode } = rematch;
+    if (started) {
+      const joinUrl = `${baseUrl}/code-session?join=${encodeURIComponent(rematchCode)}`;
+      for (const partner of participants.filter(participant => participant.id !== userId)) {
+        // Sent in the background so the rematch isn't held up by the messaging provider
+        messageService.send({
+          kind: "session_invite",
+          to: partner.whatsappNumber,
+          body: bilingualMessage(
+            `${inviter.name} wants a rematch in the Mawadha Compatibility Challenge! Join with code ${rematchCode}: ${joinUrl}`,
+            `يريد ${inviter.name} إعادة تحدي التوافق من مودة! انضم باستخدام الرمز ${rematchCode}: ${joinUrl}`
+          ),
+          parameters: [inviter.name, rematchCode, joinUrl],
+          userId: partner.id,
+          sessionId: rematchId
+        }).catch(error => console.error(`Error sending rematch invite for session ${rematchCode}:`, error));
+      }
+    }
+    return rematchCode;
+  },
+
+  async getSessionHistory(userId: number): Promise<SessionHistoryItem[]> {
+    const sessions = await storage.getUserSessionHistory(userId);
+    const codesById = new Map(sessions.map(session => [session.id, session.sessionCode]));
+
+    return sessions.map(session => ({
+      sessionCode: session.sessionCode,
+      createdAt: session.createdAt,
+      completedAt: session.completedAt,
+      matchPercentage: session.matchPercentage,
+      status: session.status,
+      completed: !!session.completed,
+      partners: session.participants
+        .filter(participant => participant.userId !== userId)
+        .map(participant => participant.user.name),
+      previousSessionCode: session.previousSessionId ? codesById.get(session.previousSessionId) ?? null : null
+    }));
+  },
+
+  // Background sweep so stale codes stop cluttering the admin lists
+  async sweepAbandonedSessions(): Promise<number> {
+    return storage.markAbandonedSessions(SESSION_ABANDON_HOURS);
   },
 
   async isSessionReady(sessionCode: string): Promise<boolean> {
@@ -70,66 +435,132 @@ export const gameService = {
       return false;
     }
 
-    return storage.isSessionComplete(session.id);
+    return storage.isSessionComplete(session.id, session.capacity);
   },
 
-  async getSessionQuestions(sessionCode: string): Promise<{ 
+  async getLobbyStatus(sessionCode: string): Promise<{ ready: boolean; participantCount: number; capacity: number } | null> {
+    const session = await storage.getGameSessionByCode(sessionCode);
+    if (!session) {
+      return null;
+    }
+
+    const participants = await storage.getSessionParticipants(session.id);
+    return {
+      ready: participants.length >= session.capacity,
+      participantCount: participants.length,
+      capacity: session.capacity
+    };
+  },
+
+  async getSessionQuestions(sessionCode: string, language: Language = "en"): Promise<{ 
     commonQuestions: GameQuestion[],
-    individualQuestions: GameQuestion[]
+    individualQuestions: GameQuestion[],
+    capacity: number
   }> {
-    // Get 5 common questions and 2 individual questions
-    const commonQuestions = await storage.getQuestions("common");
-    const individualQuestions = await storage.getQuestions("individual");
-
-    console.log("Raw questions from DB:", {
-      common: commonQuestions,
-      individual: individualQuestions
-    });
+    const session = await storage.getGameSessionByCode(sessionCode);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    
+    // Sessions created before decks existed get one drawn on first request
+    let deck = await storage.getSessionQuestions(session.id);
+    if (deck.length === 0) {
+      await storage.assignSessionQuestions(session.id, await this.drawDeck(session.packId));
+      deck = await storage.getSessionQuestions(session.id);
+    }
+    
+    const commonQuestions = deck.filter(q => q.questionType === "common");
+    const individualQuestions = deck.filter(q => q.questionType === "individual");
 
     return {
-      commonQuestions: commonQuestions.slice(0, 5).map(q => ({
+      commonQuestions: commonQuestions.map(q => ({
         id: q.id,
-        text: q.text,
+        text: localize(q.text, q.textAr, language),
         options: q.options.map(o => ({
           id: o.id,
-          text: o.optionText
+          text: localize(o.optionText, o.optionTextAr, language)
         })),
-        type: q.questionType
+        type: "common"
       })),
-      individualQuestions: individualQuestions.slice(0, 2).map(q => ({
+      individualQuestions: individualQuestions.map(q => ({
         id: q.id,
-        text: q.text,
+        text: localize(q.text, q.textAr, language),
         options: q.options.map(o => ({
           id: o.id,
-          text: o.optionText
+          text: localize(o.optionText, o.optionTextAr, language)
         })),
-        type: q.questionType
-      }))
+        type: "individual"
+      })),
+      capacity: session.capacity
     };
   },
 
+  // Players submit once, answering every question of the session's deck exactly once with
+  // options of that question, so areAllAnswersSubmitted can go by the number of answers.
+  // Individual questions also need a prediction of the partner's answer, which they are scored on.
   async submitAnswers(
     sessionCode: string, 
     userId: number, 
-    answers: { questionId: number, optionId: number }[]
-  ): Promise<void> {
+    answers: { questionId: number, optionId: number, predictedOptionId?: number | null }[]
+  ): Promise<SubmitAnswersResult> {
     const session = await storage.getGameSessionByCode(sessionCode);
     if (!session) {
-      throw new Error("Session not found");
+      return "not_found";
+    }
+    // Abandoned and expired sessions can't be finished, or they would still be rewarded
+    if (session.status === "abandoned" || (session.expiresAt && session.expiresAt < new Date())) {
+      return "expired";
+    }
+
+    const participants = await storage.getSessionParticipants(session.id);
+    if (!participants.some(participant => participant.id === userId)) {
+      return "not_participant";
+    }
+    if (await storage.hasUserSubmittedAnswers(session.id, userId)) {
+      return "already_submitted";
     }
 
-    // Save each answer
-    for (const answer of answers) {
-      await storage.saveUserAnswer({
+    // Older sessions were played with the whole question table rather than a drawn deck
+    let deck: { id: number; questionType: string; options: { id: number }[] }[] = await storage.getSessionQuestions(session.id);
+    if (!deck.length) {
+      deck = await storage.getQuestions();
+    }
+    const questionsById = new Map(deck.map(question => [question.id, question]));
+    const answered = new Set(answers.map(answer => answer.questionId));
+    const isValid = answered.size === answers.length && answered.size === deck.length && answers.every(answer => {
+      const question = questionsById.get(answer.questionId);
+      if (!question) {
+        return false;
+      }
+      const options = question.options.map(option => option.id);
+      return options.includes(answer.optionId) &&
+        (answer.predictedOptionId == null
+          ? question.questionType !== "individual"
+          : options.includes(answer.predictedOptionId));
+    });
+    if (!isValid) {
+      return "invalid_answers";
+    }
+
+    try {
+      await storage.saveUserAnswers(answers.map(answer => ({
         userId,
         sessionId: session.id,
         questionId: answer.questionId,
-        selectedOptionId: answer.optionId
-      });
+        selectedOptionId: answer.optionId,
+        predictedOptionId: answer.predictedOptionId ?? null
+      })));
+    } catch (error) {
+      // The same answers sent twice at once: the first one stored them
+      if (error && typeof error === 'object' && 'code' in error && error.code === '23505') {
+        return "already_submitted";
+      }
+      throw error;
     }
+    return "submitted";
   },
 
-  async calculateMatches(sessionCode: string, requestingUserId?: number): Promise<MatchResult | null> {
+  async calculateMatches(sessionCode: string, requestingUserId?: number, language: Language = "en"): Promise<MatchResult | null> {
     console.log(`Calculating matches for session: ${sessionCode}`);
     
     const session = await storage.getGameSessionByCode(sessionCode);
@@ -139,178 +570,171 @@ export const gameService = {
     }
 
     const participants = await storage.getSessionParticipants(session.id);
-    if (participants.length !== 2) {
+    if (participants.length < 2) {
       console.log(`Invalid number of participants: ${participants.length}`);
-      return null; // Need exactly 2 participants
+      return null; // Need at least 2 participants
     }
 
     // Get all session answers with related data
     const sessionAnswers = await storage.getSessionAnswers(session.id);
     console.log(`Found ${sessionAnswers.length} total answers for session ID ${session.id}`);
     
-    // Get all questions
+    // Get all questions with their partial-credit matrices
     const allQuestions = await storage.getQuestions();
     console.log(`Found ${allQuestions.length} total questions`);
     
-    // Determine which user is 'you' and which is 'partner'
-    let userId1 = participants[0].id;
-    let userId2 = participants[1].id;
-    if (requestingUserId && userId2 === requestingUserId) {
-      // Swap so that userId1 is always the requesting user
-      [userId1, userId2] = [userId2, userId1];
-    }
-    console.log(`Comparing answers between users: you=${userId1}, partner=${userId2}`);
-
-    // Create maps for each participant's answers
-    const user1Answers = new Map<number, { questionText: string, answerText: string, questionType: string }>();
-    const user2Answers = new Map<number, { questionText: string, answerText: string, questionType: string }>();
-
-    // Debug answers
-    console.log("Raw session answers:", sessionAnswers.map(answer => ({
-      userId: answer.userId,
-      questionId: answer.questionId,
-      questionText: answer.question.text,
-      selectedOptionId: answer.selectedOptionId,
-      selectedOptionText: answer.selectedOption.optionText
-    })));
-
-    // Fill the maps with all answers
-    sessionAnswers.forEach(answer => {
-      const answerInfo = {
-        questionText: answer.question.text,
-        answerText: answer.selectedOption.optionText,
-        questionType: answer.question.questionType
-      };
-      
-      if (answer.userId === userId1) {
-        user1Answers.set(answer.questionId, answerInfo);
-        console.log(`You (${userId1}) answered "${answerInfo.answerText}" to "${answerInfo.questionText}"`);
-      } else if (answer.userId === userId2) {
-        user2Answers.set(answer.questionId, answerInfo);
-        console.log(`Partner (${userId2}) answered "${answerInfo.answerText}" to "${answerInfo.questionText}"`);
-      }
+    const similarities = new Map<string, number>();
+    allQuestions.forEach(question => {
+      question.similarities.forEach(similarity => {
+        similarities.set(similarityKey(similarity.optionId, similarity.otherOptionId), similarity.score);
+      });
     });
 
-    console.log(`You have ${user1Answers.size} answers, partner has ${user2Answers.size} answers`);
-
-    // Now compare answers and build results
-    let matchCount = 0;
-    const matchingAnswers: { question: string, answer: string }[] = [];
-    const nonMatchingAnswers: { question: string, yourAnswer: string, partnerAnswer: string }[] = [];
-
-    // Process only questions both users have answered
-    // Convert Map.entries() to array to avoid TypeScript iterator issues
-    const user1EntriesArray = Array.from(user1Answers.entries());
+    // Create a map of answers for each participant
+    const answersByUser = new Map<number, Map<number, AnswerInfo>>();
+    participants.forEach(participant => answersByUser.set(participant.id, new Map()));
+    sessionAnswers.forEach(answer => {
+      answersByUser.get(answer.userId)?.set(answer.questionId, {
+        questionText: localize(answer.question.text, answer.question.textAr, language),
+        questionType: answer.question.questionType,
+        category: answer.question.category,
+        weight: answer.question.weight,
+        optionId: answer.selectedOptionId,
+        answerText: localize(answer.selectedOption.optionText, answer.selectedOption.optionTextAr, language),
+        predictedOptionId: answer.predictedOptionId,
+        predictedText: answer.predictedOption
+          ? localize(answer.predictedOption.optionText, answer.predictedOption.optionTextAr, language)
+          : null
+      });
+    });
 
-    for (let i = 0; i < user1EntriesArray.length; i++) {
-      const [questionId, user1Answer] = user1EntriesArray[i];
-      const user2Answer = user2Answers.get(questionId);
-      
-      if (!user2Answer) {
-        console.log(`Partner didn't answer question ${questionId}`);
-        continue; // Skip if second user didn't answer this question
+    if (participants.length === 2) {
+      // Determine which user is 'you' and which is 'partner'
+      let userId1 = participants[0].id;
+      let userId2 = participants[1].id;
+      if (requestingUserId && userId2 === requestingUserId) {
+        // Swap so that userId1 is always the requesting user
+        [userId1, userId2] = [userId2, userId1];
       }
+      console.log(`Comparing answers between users: you=${userId1}, partner=${userId2}`);
       
-      console.log(`Comparing answers for question "${user1Answer.questionText}": "${user1Answer.answerText}" (you) vs "${user2Answer.answerText}" (partner)`);
+      const result = comparePair(answersByUser.get(userId1)!, answersByUser.get(userId2)!, similarities);
+      console.log(`Match calculation complete: agreement ${result.agreementPercentage}%, knowledge ${result.knowledgePercentage}%, overall ${result.matchPercentage}%`);
       
-      // Check if answers match
-      if (user1Answer.answerText === user2Answer.answerText) {
-        matchCount++;
-        matchingAnswers.push({
-          question: user1Answer.questionText,
-          answer: user1Answer.answerText
-        });
-        console.log(`✓ Match found!`);
-      } else {
-        nonMatchingAnswers.push({
-          question: user1Answer.questionText,
-          yourAnswer: user1Answer.answerText,
-          partnerAnswer: user2Answer.answerText
+      return { ...result, sessionId: session.id };
+    }
+
+    // Group sessions: score every pair of players, then summarise across all pairs
+    const pairs: PairScore[] = [];
+    const groupBreakdown: ScoreBreakdownItem[] = [];
+    for (let i = 0; i < participants.length; i++) {
+      for (let j = i + 1; j < participants.length; j++) {
+        const result = comparePair(
+          answersByUser.get(participants[i].id)!,
+          answersByUser.get(participants[j].id)!,
+          similarities
+        );
+        pairs.push({
+          userId: participants[i].id,
+          otherUserId: participants[j].id,
+          matchPercentage: result.matchPercentage
         });
-        console.log(`✗ No match`);
+        groupBreakdown.push(...result.breakdown);
       }
     }
-
-    // Calculate match percentage based on total questions answered by both users
-    const totalQuestions = matchingAnswers.length + nonMatchingAnswers.length;
-    const matchPercentage = totalQuestions > 0 ? Math.round((matchCount / totalQuestions) * 100) : 0;
-
-    console.log(`Match calculation complete: ${matchCount} matches out of ${totalQuestions} questions (${matchPercentage}%)`);
-    console.log("Final results:", {
-        matchPercentage,
-      matchingAnswers,
-      nonMatchingAnswers
-    });
+    
+    const mostCompatiblePair = pairs.reduce<PairScore | null>(
+      (best, pair) => (!best || pair.matchPercentage > best.matchPercentage ? pair : best),
+      null
+    );
+    const summary = summarize(groupBreakdown);
+    console.log(`Group match calculation complete for ${participants.length} players: overall ${summary.matchPercentage}%`);
 
     return {
-      matchPercentage,
-      matchingAnswers,
-      nonMatchingAnswers,
+      ...summary,
+      matchingAnswers: [],
+      nonMatchingAnswers: [],
+      yourPredictions: [],
+      partnerPredictions: [],
+      breakdown: [],
+      group: {
+        participants: participants.map(p => ({ id: p.id, name: p.name })),
+        pairs,
+        mostCompatiblePair
+      },
       sessionId: session.id
     };
   },
 
-  async generateVoucher(sessionId: number, matchPercentage: number): Promise<{
-    voucherId: number,
-    voucherCode: string,
-    discount: string,
-    validUntil: string
-  }> {
-    // Generate voucher code
-    const voucherCode = `MAWADHA-${nanoid(6).toUpperCase()}`;
-    
-    // Get active coupon template based on match percentage
-    const couponTemplate = await storage.getActiveCouponTemplate(matchPercentage);
-    
-    // Determine discount based on template or fallback to default behavior
-    let discount = "10% OFF";
-    let voucherType = "COUPLE'S DINNER";
-    
-    // Set validity - default 3 months from today
-    const validUntil = new Date();
-    
-    if (couponTemplate) {
-      // Use the template data
-      if (couponTemplate.discountType === "percentage") {
-        discount = `${couponTemplate.discountValue}% OFF`;
-      } else {
-        // Use the currency if provided, otherwise default to AED
-        const currency = couponTemplate.currency || "AED";
-        discount = `${currency} ${couponTemplate.discountValue} OFF`; // Fixed amount with currency
+  // Compute and store the final result once every player has submitted. Safe to call repeatedly:
+  // a completed session is returned as is. The session's voucher is issued with its completion,
+  // so simultaneous requests can't issue two, and a failure leaves it to be finalised again.
+  async finalizeSession(sessionCode: string, baseUrl: string): Promise<GameSession | null> {
+    const session = await storage.getGameSessionByCode(sessionCode);
+    if (!session) {
+      return null;
+    }
+    if (session.completed && session.result) {
+      return session;
+    }
+    if (!(await storage.areAllAnswersSubmitted(session.id))) {
+      return null;
+    }
+
+    const participants = await storage.getSessionParticipants(session.id);
+    const perspectiveUserId = participants[0].id;
+    const byLanguage = {} as FrozenResult["byLanguage"];
+    for (const language of SUPPORTED_LANGUAGES) {
+      const result = await this.calculateMatches(sessionCode, perspectiveUserId, language);
+      if (!result) {
+        return null;
       }
-      
-      // Set validity based on template validity days
-      validUntil.setDate(validUntil.getDate() + couponTemplate.validityDays);
-      
-      // Use the template name as voucher type
-      voucherType = couponTemplate.name;
-    } else {
-      // Fallback to default behavior if no template found
-      if (matchPercentage >= 80) {
-        discount = "30% OFF";
-      } else if (matchPercentage >= 60) {
-        discount = "20% OFF";
+      const { sessionId, ...frozen } = result;
+      byLanguage[language] = frozen;
+    }
+
+    // Reward the session from the configured coupon templates, issuing the voucher in the same
+    // transaction that completes it. A code collision rolls both back, so they are retried together.
+    const frozenResult: FrozenResult = { perspectiveUserId, byLanguage };
+    const completed = await withNewVoucherCode((voucherCode) => storage.completeGameSession(
+      session.id,
+      byLanguage.en.matchPercentage,
+      frozenResult,
+      (template) => {
+        const validUntil = new Date();
+        validUntil.setDate(validUntil.getDate() + template.validityDays);
+        return { voucherCode, voucherType: template.name, discount: formatTemplateDiscount(template), validUntil };
       }
-      
-      // Default 3-month validity
-      validUntil.setMonth(validUntil.getMonth() + 3);
+    ));
+    if (!completed) {
+      // Another request finalised the session first; theirs is the one that counts
+      return (await storage.getGameSessionByCode(sessionCode)) ?? null;
     }
-    
-    // Create voucher
-    const voucher = await storage.createVoucher({
-      sessionId,
-      voucherCode,
-      voucherType,
-      discount,
-      validUntil,
-      downloaded: false
-    });
-    
-    return {
-      voucherId: voucher.id,
-      voucherCode: voucher.voucherCode,
-      discount: voucher.discount,
-      validUntil: voucher.validUntil.toISOString()
-    };
+    console.log(`Session ${sessionCode} finalised with match percentage ${byLanguage.en.matchPercentage}%`);
+
+    if (completed.voucher) {
+      // Sent in the background so the results aren't held up by the messaging provider
+      const voucher = toIssuedVoucher(completed.voucher.voucher, completed.voucher.merchant);
+      voucherService.deliver(session.id, voucher, `${baseUrl}/results/${encodeURIComponent(sessionCode)}`)
+        .catch(error => console.error(`Error delivering voucher for session ${sessionCode}:`, error));
+    } else {
+      console.log(`No coupon template available for session ${session.id} at ${byLanguage.en.matchPercentage}%`);
+    }
+    return completed.session;
+  },
+
+  // The frozen result, from the requesting player's point of view
+  async getFinalResult(sessionCode: string, baseUrl: string, requestingUserId?: number, language: Language = "en"): Promise<MatchResult | null> {
+    const session = await this.finalizeSession(sessionCode, baseUrl);
+    if (!session?.result) {
+      return null;
+    }
+
+    const frozen = session.result as FrozenResult;
+    let result = frozen.byLanguage[language] ?? frozen.byLanguage.en;
+    if (!result.group && requestingUserId && requestingUserId !== frozen.perspectiveUserId) {
+      result = flipPerspective(result);
+    }
+    return { ...result, sessionId: session.id };
   }
 };
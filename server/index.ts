@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startSessionSweeper } from "./session-sweeper";
+import { startVoucherReminders } from "./voucher-reminders";
+import { ensureOwnerAccount } from "./auth";
 import path from "path";
 import dotenv from 'dotenv';
 
@@ -15,7 +18,12 @@ log(`NODE_ENV: ${process.env.NODE_ENV}`);
 log(`DATABASE_URL: ${process.env.DATABASE_URL ? 'Set' : 'Not set'}`);
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so webhook signatures can be checked against it
+  verify: (req, _res, buf) => {
+    (req as Request & { rawBody?: Buffer }).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Serve static files from the public directory
@@ -81,5 +89,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startSessionSweeper();
+    startVoucherReminders();
+    ensureOwnerAccount().catch((error) => console.error("Error creating the owner account:", error));
   });
 })();
@@ -0,0 +1,88 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { getNotificationProvider, bilingualMessage } from "./notifications";
+import { User } from "@shared/schema";
+import { config } from "../config";
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 10 * 60 * 1000;
+// Wrong guesses allowed per code before a new one has to be requested
+const MAX_VERIFY_ATTEMPTS = 5;
+// Codes a number can be sent per window, so the login can't be used to spam players
+const MAX_CODES_PER_WINDOW = 3;
+const CODE_WINDOW_MS = 15 * 60 * 1000;
+
+export type LoginCodeRequestResult = "sent" | "unknown_number" | "rate_limited" | "failed";
+
+export type LoginCodeVerifyResult =
+  | { outcome: "verified"; user: User }
+  | { outcome: "invalid" | "expired" | "too_many_attempts" };
+
+function hashCode(whatsappNumber: string, code: string): string {
+  return createHmac("sha256", config.userTokenSecret).update(`login-code:${whatsappNumber}:${code}`).digest("hex");
+}
+
+function generateCode(): string {
+  return String(randomInt(10 ** CODE_LENGTH)).padStart(CODE_LENGTH, "0");
+}
+
+export const loginCodeService = {
+  // Sends a one-time code to a registered number. Codes go straight to the notification
+  // provider rather than through messageService, so they never appear in the admin message log.
+  async request(whatsappNumber: string): Promise<LoginCodeRequestResult> {
+    const user = await storage.getLatestUserByWhatsappNumber(whatsappNumber);
+    if (!user) {
+      return "unknown_number";
+    }
+    if (await storage.countLoginCodesSince(whatsappNumber, new Date(Date.now() - CODE_WINDOW_MS)) >= MAX_CODES_PER_WINDOW) {
+      return "rate_limited";
+    }
+
+    const code = generateCode();
+    await storage.createLoginCode({
+      whatsappNumber,
+      userId: user.id,
+      codeHash: hashCode(whatsappNumber, code),
+      expiresAt: new Date(Date.now() + CODE_TTL_MS)
+    });
+
+    try {
+      await getNotificationProvider().send({
+        to: whatsappNumber,
+        body: bilingualMessage(
+          `Your Mawadha login code is ${code}. It expires in 10 minutes. Don't share it with anyone.`,
+          `رمز الدخول إلى مودة هو ${code}. تنتهي صلاحيته خلال 10 دقائق. لا تشاركه مع أحد.`
+        ),
+        template: "login_code",
+        parameters: [code]
+      });
+      return "sent";
+    } catch (error) {
+      console.error(`Error sending login code to user ${user.id}:`, error);
+      return "failed";
+    }
+  },
+
+  async verify(whatsappNumber: string, code: string): Promise<LoginCodeVerifyResult> {
+    const loginCode = await storage.getLatestLoginCode(whatsappNumber);
+    if (!loginCode || loginCode.consumedAt || loginCode.expiresAt < new Date()) {
+      return { outcome: "expired" };
+    }
+    if (loginCode.attempts >= MAX_VERIFY_ATTEMPTS) {
+      return { outcome: "too_many_attempts" };
+    }
+
+    const expected = Buffer.from(loginCode.codeHash);
+    const given = Buffer.from(hashCode(whatsappNumber, code));
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      await storage.recordLoginCodeAttempt(loginCode.id);
+      return { outcome: "invalid" };
+    }
+
+    if (!await storage.consumeLoginCode(loginCode.id)) {
+      return { outcome: "expired" };
+    }
+    const user = await storage.getUserById(loginCode.userId);
+    return user ? { outcome: "verified", user } : { outcome: "expired" };
+  }
+};
@@ -0,0 +1,126 @@
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { whatsAppProvider } from "./whatsapp";
+import { Message, MessageKind, MessageStatus, MESSAGE_STATUSES } from "@shared/schema";
+import { config } from "../config";
+
+// Business-initiated WhatsApp messages must use a pre-approved template, so each message
+// names the template it is sent as and fills in its parameters, in this order:
+//   session_invite: inviter's name, session code, join link
+//   voucher: discount, voucher code, expiry date, results link
+//   voucher_reminder: player's name, voucher code, discount, expiry date
+//   login_code: the code
+export type MessageTemplate = MessageKind | "login_code";
+
+export interface OutgoingMessage {
+  to: string; // WhatsApp number
+  body: string; // The full text, as logged and shown to admins
+  template: MessageTemplate;
+  parameters: string[];
+}
+
+// Anything that can deliver a message to a player. send() rejects if the message wasn't accepted.
+export interface NotificationProvider {
+  name: string;
+  send(message: OutgoingMessage): Promise<{ providerMessageId: string | null }>;
+}
+
+// What a message was sent about, kept with it for admin review
+export interface MessageContext {
+  kind: MessageKind;
+  userId?: number | null;
+  sessionId?: number | null;
+  voucherId?: number | null;
+}
+
+// Players don't choose a language for messages, so they are written in English and Arabic
+export function bilingualMessage(en: string, ar: string): string {
+  return `${en}\n\n${ar}`;
+}
+
+export function formatMessageDate(date: Date, language: "en" | "ar"): string {
+  return date.toLocaleDateString(language === "ar" ? "ar" : "en-GB", { year: "numeric", month: "long", day: "numeric" });
+}
+
+// Stand-in for local development: prints messages instead of sending them, and appends them
+// to NOTIFICATION_LOG_FILE when that is set
+export const logNotificationProvider: NotificationProvider = {
+  name: "log",
+  async send(message) {
+    const providerMessageId = `log-${randomUUID()}`;
+    console.log(`[notification] to ${message.to}:\n${message.body}`);
+    if (config.notifications.logFile) {
+      const entry = { at: new Date().toISOString(), id: providerMessageId, to: message.to, body: message.body };
+      await fs.promises.appendFile(config.notifications.logFile, JSON.stringify(entry) + "\n");
+    }
+    return { providerMessageId };
+  }
+};
+
+const providers = new Map<string, NotificationProvider>([
+  [logNotificationProvider.name, logNotificationProvider],
+  [whatsAppProvider.name, whatsAppProvider]
+]);
+
+export function registerNotificationProvider(provider: NotificationProvider) {
+  providers.set(provider.name, provider);
+}
+
+// The provider named by NOTIFICATION_PROVIDER, or the logging stand-in if it isn't registered
+export function getNotificationProvider(): NotificationProvider {
+  const provider = providers.get(config.notifications.provider);
+  if (!provider) {
+    console.warn(`Unknown notification provider "${config.notifications.provider}", logging messages instead`);
+    return logNotificationProvider;
+  }
+  return provider;
+}
+
+export const messageService = {
+  // Records the message, then hands it to the provider. A provider failure is stored on the
+  // message rather than thrown, so callers can check the returned status.
+  async send(message: Omit<OutgoingMessage, "template"> & MessageContext): Promise<Message> {
+    const provider = getNotificationProvider();
+    const stored = await storage.createMessage({
+      kind: message.kind,
+      recipient: message.to,
+      body: message.body,
+      userId: message.userId ?? null,
+      sessionId: message.sessionId ?? null,
+      voucherId: message.voucherId ?? null,
+      provider: provider.name
+    });
+
+    try {
+      const { providerMessageId } = await provider.send({
+        to: message.to,
+        body: message.body,
+        template: message.kind,
+        parameters: message.parameters
+      });
+      return await storage.updateMessage(stored.id, { status: "sent", providerMessageId });
+    } catch (error) {
+      console.error(`Error sending ${message.kind} message ${stored.id}:`, error);
+      return storage.updateMessage(stored.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  },
+
+  // Applies a delivery report from the provider. Reports can arrive out of order, so a
+  // message never moves back to an earlier status.
+  async applyStatusUpdate(provider: string, providerMessageId: string, status: MessageStatus, error: string | null): Promise<void> {
+    const message = await storage.getMessageByProviderId(provider, providerMessageId);
+    if (!message) {
+      return;
+    }
+    const isLater = status === "failed"
+      ? message.status !== "read"
+      : MESSAGE_STATUSES.indexOf(status) > MESSAGE_STATUSES.indexOf(message.status as MessageStatus);
+    if (isLater) {
+      await storage.updateMessage(message.id, { status, error });
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { storage, ParticipantAccount } from "./storage";
+import { reassignFrozenResult, FrozenResult } from "./game-service";
+import { User } from "@shared/schema";
+
+// Everyone who registered more than once with one number
+export interface DuplicateGroup {
+  whatsappNumber: string;
+  accounts: ParticipantAccount[];
+}
+
+export type MergeResult =
+  | { outcome: "merged"; survivor: User; merged: User[] }
+  | { outcome: "not_found" }
+  | { outcome: "different_numbers" }
+  | { outcome: "shared_session"; sessionIds: number[] };
+
+export const participantService = {
+  async getDuplicateGroups(limit: number, offset: number, search: string = ""): Promise<DuplicateGroup[]> {
+    const numbers = await storage.getDuplicateWhatsappNumbers(limit, offset, search);
+    const accounts = await storage.getAccountsByWhatsappNumbers(numbers);
+    return numbers.map((whatsappNumber) => ({
+      whatsappNumber,
+      accounts: accounts.filter((account) => account.whatsappNumber === whatsappNumber)
+    }));
+  },
+
+  // Folds duplicate registrations into the one that is kept. Only accounts with the same
+  // number can be merged, and not when two of them played in the same session, since the
+  // merged player would then be in it twice.
+  async merge(survivorId: number, duplicateIds: number[]): Promise<MergeResult> {
+    const ids = [survivorId, ...Array.from(new Set(duplicateIds))];
+    const accounts = await storage.getUsersByIds(ids);
+    const survivor = accounts.find((account) => account.id === survivorId);
+    if (!survivor || accounts.length !== ids.length) {
+      return { outcome: "not_found" };
+    }
+    if (accounts.some((account) => account.whatsappNumber !== survivor.whatsappNumber)) {
+      return { outcome: "different_numbers" };
+    }
+    const sessionIds = await storage.getSharedSessionIds(ids);
+    if (sessionIds.length > 0) {
+      return { outcome: "shared_session", sessionIds };
+    }
+
+    const duplicates = ids.slice(1);
+    await storage.mergeUsers(survivorId, duplicates, (result) => reassignFrozenResult(result as FrozenResult, duplicates, survivor));
+    return { outcome: "merged", survivor, merged: accounts.filter((account) => account.id !== survivorId) };
+  }
+};
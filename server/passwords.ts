@@ -0,0 +1,20 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "<hash>.<salt>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashHex, salt] = stored.split(".");
+  if (!hashHex || !salt) return false;
+
+  const storedHash = Buffer.from(hashHex, "hex");
+  const hash = (await scryptAsync(password, salt, storedHash.length)) as Buffer;
+  return hash.length === storedHash.length && timingSafeEqual(hash, storedHash);
+}
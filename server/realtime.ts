@@ -0,0 +1,91 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+
+export type SessionEventType = "player_joined" | "partner_joined" | "partner_submitted" | "results_ready" | "rematch_created";
+
+export interface SessionEvent {
+  type: SessionEventType;
+  sessionCode: string;
+  userId?: number;
+  // Code of the follow-up session, for rematch_created
+  nextSessionCode?: string;
+}
+
+const REALTIME_PATH = "/ws";
+
+// Sockets subscribed to each session code
+const sessionSubscribers = new Map<string, Set<WebSocket>>();
+
+function subscribe(sessionCode: string, socket: WebSocket) {
+  let subscribers = sessionSubscribers.get(sessionCode);
+  if (!subscribers) {
+    subscribers = new Set();
+    sessionSubscribers.set(sessionCode, subscribers);
+  }
+  subscribers.add(socket);
+}
+
+function unsubscribe(sessionCode: string, socket: WebSocket) {
+  const subscribers = sessionSubscribers.get(sessionCode);
+  if (!subscribers) return;
+
+  subscribers.delete(socket);
+  if (subscribers.size === 0) {
+    sessionSubscribers.delete(sessionCode);
+  }
+}
+
+export function setupRealtime(server: Server) {
+  // noServer mode so we don't reject upgrade requests meant for Vite's HMR socket
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // A malformed Host header makes the URL unparseable; drop the connection rather than
+    // letting the error take the server down
+    let url: URL;
+    try {
+      url = new URL(req.url || "", `http://${req.headers.host}`);
+    } catch {
+      socket.destroy();
+      return;
+    }
+    if (url.pathname !== REALTIME_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+    const url = new URL(req.url || "", `http://${req.headers.host}`);
+    const sessionCode = url.searchParams.get("code")?.toUpperCase();
+
+    if (!sessionCode) {
+      ws.close(1008, "Session code is required");
+      return;
+    }
+
+    subscribe(sessionCode, ws);
+
+    ws.on("close", () => unsubscribe(sessionCode, ws));
+    ws.on("error", (error) => {
+      console.error(`WebSocket error for session ${sessionCode}:`, error);
+      unsubscribe(sessionCode, ws);
+    });
+  });
+
+  return wss;
+}
+
+export function broadcastSessionEvent(event: SessionEvent) {
+  const subscribers = sessionSubscribers.get(event.sessionCode.toUpperCase());
+  if (!subscribers) return;
+
+  const message = JSON.stringify(event);
+  subscribers.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(message);
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
 import { z } from "zod";
 import multer from 'multer';
 import path from 'path';
@@ -10,29 +11,70 @@ import fs from 'fs';
 declare module "express-session" {
   interface SessionData {
     userId?: number;
-    isAdmin?: boolean;
-    adminUser?: { username: string };
+    adminUser?: { id: number; username: string };
+    merchant?: { id: number; name: string };
   }
 }
-import { storage } from "./storage";
-import { validateAdminLogin, requireAdmin, adminLogout, AuthRequest } from "./auth";
+import { storage, AuditLogFilters } from "./storage";
+import { validateAdminLogin, requirePermission, adminLogout, validateMerchantLogin, requireMerchant, merchantLogout, AuthRequest } from "./auth";
 import { gameService } from "./game-service";
+import { participantService } from "./participant-service";
+import { voucherService, toIssuedVoucher, redemptionUrl, verifyVoucherSignature } from "./voucher-service";
+import { renderVoucherPdf } from "./voucher-pdf";
+import { generateWalletPass, isWalletPassConfigured } from "./wallet-pass";
+import { messageService } from "./notifications";
+import { verifyWebhookSignature, parseStatusWebhook } from "./whatsapp";
+import { hashPassword } from "./passwords";
+import { auditLog } from "./audit-log";
+import { loginCodeService } from "./login-codes";
+import { issueUserToken, verifyUserToken, revokeUserToken, USER_TOKEN_TTL_MS } from "./user-tokens";
+import { setupRealtime, broadcastSessionEvent } from "./realtime";
 import { 
   insertUserSchema, 
+  loginCodeRequestSchema,
+  loginCodeVerifySchema,
+  submitAnswersSchema,
   adminLoginSchema,
   updateSettingsSchema,
   insertCouponTemplateSchema,
-  CouponTemplateInsert
+  couponPreviewSchema,
+  revokeVouchersSchema,
+  mergeParticipantsSchema,
+  reissueVoucherSchema,
+  extendVouchersSchema,
+  VOUCHER_STATUSES,
+  VoucherStatus,
+  sessionInviteSchema,
+  MESSAGE_KINDS,
+  MESSAGE_STATUSES,
+  MessageKind,
+  MessageStatus,
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  AuditAction,
+  AuditEntityType,
+  insertMerchantSchema,
+  updateMerchantSchema,
+  insertAdminSchema,
+  updateAdminSchema,
+  insertQuestionPoolSchema,
+  insertQuestionPackSchema,
+  optionSimilarityInputSchema,
+  questionOptionInputSchema,
+  questionWeightSchema,
+  questionCategorySchema,
+  sessionCapacitySchema,
+  CouponTemplateInsert,
+  QuestionOption,
+  Language,
+  SUPPORTED_LANGUAGES
 } from "@shared/schema";
-import { db } from "@db";
+import { db, pool } from "@db";
+import { config } from "../config";
 
-// Middleware to check if user is authenticated
-// Store active user sessions in memory as a fallback when cookies fail
-const activeUserSessions = new Map<string, number>();
-
-// Custom auth middleware that checks both session and fallback token
-// Helper function to get userId from session or token
-function getUserIdFromRequest(req: Request): number | undefined {
+// Helper function to get userId from session or, when cookies fail, the signed
+// x-user-token header
+async function getUserIdFromRequest(req: Request): Promise<number | undefined> {
   // Check session first
   if (req.session?.userId) {
     return req.session.userId;
@@ -40,11 +82,10 @@ function getUserIdFromRequest(req: Request): number | undefined {
   
   // Check for x-user-token header as fallback
   const userToken = req.headers['x-user-token'] as string;
-  if (userToken && activeUserSessions.has(userToken)) {
-    const userId = activeUserSessions.get(userToken);
-    
+  const userId = userToken ? await verifyUserToken(userToken) : undefined;
+  if (userId) {
     // Recreate session if possible
-    if (req.session && userId) {
+    if (req.session) {
       req.session.userId = userId;
       // No need to wait for save to complete
       req.session.save(err => {
@@ -58,8 +99,8 @@ function getUserIdFromRequest(req: Request): number | undefined {
   return undefined;
 }
 
-function requireUser(req: Request, res: Response, next: NextFunction) {
-  const userId = getUserIdFromRequest(req);
+async function requireUser(req: Request, res: Response, next: NextFunction) {
+  const userId = await getUserIdFromRequest(req);
   if (userId) {
     return next();
   }
@@ -67,19 +108,59 @@ function requireUser(req: Request, res: Response, next: NextFunction) {
   return res.status(401).json({ error: "User not logged in" });
 }
 
-// Session configuration
-const SESSION_SECRET = process.env.SESSION_SECRET || "mawadha-compatibility-game-secret";
+// Translate position-based similarities from the admin form into rows keyed by option ID
+function toOptionSimilarities(
+  similarities: z.infer<typeof optionSimilarityInputSchema>[],
+  options: QuestionOption[]
+) {
+  return similarities
+    .filter(s => s.score > 0 && s.optionIndex !== s.otherOptionIndex && options[s.optionIndex] && options[s.otherOptionIndex])
+    .map(s => ({
+      optionId: options[s.optionIndex].id,
+      otherOptionId: options[s.otherOptionIndex].id,
+      score: s.score
+    }));
+}
+
+// Language requested by the player via `?lang=`, defaulting to English
+function getRequestLanguage(req: Request): Language {
+  const lang = typeof req.query.lang === "string" ? req.query.lang : "";
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(lang) ? lang as Language : "en";
+}
+
+// Address printed in voucher links; set PUBLIC_BASE_URL when behind a proxy
+function getPublicBaseUrl(req: Request): string {
+  return config.publicBaseUrl || `${req.protocol}://${req.get("host")}`;
+}
+
+// A voucher the player may download: only those it was issued to
+async function findPlayerVoucher(voucherId: number, userId: number) {
+  const voucher = await storage.getVoucherById(voucherId);
+  if (!voucher || voucher.revokedAt) {
+    return undefined;
+  }
+  const participants = await storage.getSessionParticipants(voucher.sessionId);
+  return participants.some(participant => participant.id === userId) ? voucher : undefined;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === '23505';
+}
+
+// Sessions live in Postgres so players stay signed in across restarts and server instances
+const PgSessionStore = connectPgSimple(session);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup session middleware
   app.use(
     session({
-      secret: SESSION_SECRET,
-      resave: true,
-      saveUninitialized: true,
+      store: new PgSessionStore({ pool, tableName: "session" }),
+      secret: config.sessionSecret,
+      resave: false,
+      saveUninitialized: false,
       cookie: { 
         secure: false, // Allow non-secure cookies for deployment
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+        maxAge: USER_TOKEN_TTL_MS,
         sameSite: 'lax'
       },
     })
@@ -89,7 +170,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User endpoints
   app.get("/api/user", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
@@ -100,9 +181,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Clear invalid session and token
         req.session?.destroy(() => {});
         
-        // Remove token from active sessions if it exists
         const userToken = req.headers['x-user-token'] as string;
-        if (userToken) activeUserSessions.delete(userToken);
+        if (userToken) await revokeUserToken(userToken);
         
         return res.status(401).json({ error: "User not found" });
       }
@@ -114,12 +194,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/logout", (req, res) => {
-    // Check for token in the request headers
+  app.post("/api/logout", async (req, res) => {
+    // Sign the token out too, so a copy of it can't be used to get back in
     const userToken = req.headers['x-user-token'] as string;
-    if (userToken && activeUserSessions.has(userToken)) {
-      // Remove token from active sessions
-      activeUserSessions.delete(userToken);
+    if (userToken) {
+      try {
+        await revokeUserToken(userToken);
+      } catch (error) {
+        console.error("Error revoking user token:", error);
+        return res.status(500).json({ error: "Logout failed" });
+      }
     }
     
     req.session?.destroy((err) => {
@@ -139,9 +223,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userData = insertUserSchema.parse(req.body);
       const newUser = await storage.createUser(userData);
       
-      // Generate a unique token for this user as fallback auth
-      const userToken = `user_${newUser.id}_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-      activeUserSessions.set(userToken, newUser.id);
+      // Generate a signed token for this user as fallback auth
+      const userToken = issueUserToken(newUser.id);
       
       // Store user ID in session
       if (req.session) {
@@ -168,6 +251,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Returning players sign in with a one-time code sent to their WhatsApp number
+  app.post("/api/auth/login-code", async (req, res) => {
+    try {
+      const { whatsappNumber } = loginCodeRequestSchema.parse(req.body);
+
+      switch (await loginCodeService.request(whatsappNumber)) {
+        case "rate_limited":
+          return res.status(429).json({ error: "Too many codes have been sent to this number. Please try again later." });
+        case "failed":
+          return res.status(502).json({ error: "The code could not be sent" });
+        default:
+          // Unknown numbers get the same answer, so the form can't be used to find out who has played
+          return res.status(200).json({ success: true });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error sending login code:", error);
+      return res.status(500).json({ error: "Failed to send login code" });
+    }
+  });
+
+  app.post("/api/auth/login-code/verify", async (req, res) => {
+    try {
+      const { whatsappNumber, code } = loginCodeVerifySchema.parse(req.body);
+      const result = await loginCodeService.verify(whatsappNumber, code);
+
+      switch (result.outcome) {
+        case "invalid":
+          return res.status(400).json({ error: "That code is not correct" });
+        case "expired":
+          return res.status(400).json({ error: "That code has expired. Please request a new one." });
+        case "too_many_attempts":
+          return res.status(429).json({ error: "Too many wrong codes. Please request a new one." });
+      }
+
+      // Link this browser to the existing player
+      req.session.userId = result.user.id;
+      await new Promise<void>((resolve, reject) => req.session.save(err => err ? reject(err) : resolve()));
+
+      return res.status(200).json({
+        ...result.user,
+        token: issueUserToken(result.user.id)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error verifying login code:", error);
+      return res.status(500).json({ error: "Failed to verify login code" });
+    }
+  });
+
   // Game Session Management
   // Debug endpoint to check session state
   app.get("/api/debug/session", (req, res) => {
@@ -185,13 +322,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Session create - Session ID:", req.sessionID);
       console.log("Session create - User ID:", req.session?.userId);
       
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
       }
 
-      const sessionCode = await gameService.createSession();
+      // Optional themed pack; only active packs can be picked by players
+      const packId = req.body?.packId ? parseInt(req.body.packId) : null;
+      if (packId) {
+        const pack = await storage.getQuestionPackById(packId);
+        if (!pack || !pack.isActive) {
+          return res.status(400).json({ error: "Question pack not found" });
+        }
+      }
+
+      // Couples play with 2; group sessions take up to 8 players
+      const capacity = sessionCapacitySchema.parse(req.body?.capacity ?? 2);
+
+      const sessionCode = await gameService.createSession(packId, capacity);
       
       // Join the user to the session
       await gameService.joinSession(sessionCode, userId);
@@ -199,13 +348,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(201).json({ sessionCode });
     } catch (error) {
       console.error("Error creating game session:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       return res.status(500).json({ error: "Failed to create game session" });
     }
   });
 
+  app.post("/api/sessions/:code/invite", async (req, res) => {
+    try {
+      const userId = await getUserIdFromRequest(req);
+      
+      if (!userId) {
+        return res.status(401).json({ error: "User not logged in" });
+      }
+
+      const { whatsappNumber } = sessionInviteSchema.parse(req.body);
+      const { code } = req.params;
+      const joinUrl = `${getPublicBaseUrl(req)}/code-session?join=${encodeURIComponent(code)}`;
+      
+      switch (await gameService.invitePartner(code, userId, whatsappNumber, joinUrl)) {
+        case "not_found":
+          return res.status(404).json({ error: "Session not found" });
+        case "expired":
+          return res.status(410).json({ error: "This session can no longer be joined" });
+        case "full":
+          return res.status(409).json({ error: "This session is already full" });
+        case "limit_reached":
+          return res.status(429).json({ error: "Too many invites have been sent for this session" });
+        case "failed":
+          return res.status(502).json({ error: "The invite could not be sent" });
+        default:
+          return res.status(200).json({ success: true });
+      }
+    } catch (error) {
+      console.error("Error sending session invite:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to send invite" });
+    }
+  });
+
+  app.get("/api/packs", async (req, res) => {
+    try {
+      const packs = await storage.getQuestionPacks(true);
+      return res.status(200).json(packs.map(({ id, name, description, questionIds }) => ({
+        id,
+        name,
+        description,
+        questionCount: questionIds.length
+      })));
+    } catch (error) {
+      console.error("Error fetching question packs:", error);
+      return res.status(500).json({ error: "Failed to fetch question packs" });
+    }
+  });
+
   app.post("/api/sessions/join", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
@@ -217,10 +419,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       try {
-        const joined = await gameService.joinSession(sessionCode, userId);
-        if (!joined) {
+        const joinResult = await gameService.joinSession(sessionCode, userId);
+        if (joinResult === "expired") {
+          return res.status(410).json({ error: "This session code has expired. Ask your partner for a new one." });
+        }
+        if (joinResult !== "joined") {
           return res.status(404).json({ error: "Session not found or full" });
         }
+
+        // Let everyone waiting know who arrived, and when the session is full
+        broadcastSessionEvent({ type: "player_joined", sessionCode, userId });
+        if (await gameService.isSessionReady(sessionCode)) {
+          broadcastSessionEvent({ type: "partner_joined", sessionCode, userId });
+        }
         
         // After successful join, get user data to return to client
         const user = await storage.getUserById(userId);
@@ -229,8 +440,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Generate a fresh token for this user
-        const userToken = `user_${user.id}_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-        activeUserSessions.set(userToken, user.id);
+        const userToken = issueUserToken(user.id);
         
         // Make sure session is fully saved before returning
         if (req.session) {
@@ -267,8 +477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Generate a fresh token for this user
-          const userToken = `user_${user.id}_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-          activeUserSessions.set(userToken, user.id);
+          const userToken = issueUserToken(user.id);
           
           // Make sure session is fully saved before returning
           if (req.session) {
@@ -305,9 +514,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/sessions/:code/status", async (req, res) => {
     try {
       const { code } = req.params;
-      const isReady = await gameService.isSessionReady(code);
+      const status = await gameService.getLobbyStatus(code);
+      if (!status) {
+        return res.status(404).json({ error: "Session not found" });
+      }
       
-      return res.status(200).json({ ready: isReady });
+      return res.status(200).json(status);
     } catch (error) {
       console.error("Error checking session status:", error);
       return res.status(500).json({ error: "Failed to check session status" });
@@ -316,14 +528,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/sessions/:code/questions", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
       }
 
       const { code } = req.params;
-      const questions = await gameService.getSessionQuestions(code);
+      const questions = await gameService.getSessionQuestions(code, getRequestLanguage(req));
       
       return res.status(200).json(questions);
     } catch (error) {
@@ -334,25 +546,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/sessions/:code/answers", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
       }
 
       const { code } = req.params;
-      const { answers } = req.body;
-      
-      if (!Array.isArray(answers)) {
-        return res.status(400).json({ error: "Invalid answers format" });
+      const answers = submitAnswersSchema.parse(req.body.answers);
+      
+      const result = await gameService.submitAnswers(code, userId, answers);
+      switch (result) {
+        case "not_found":
+          return res.status(404).json({ error: "Session not found" });
+        case "expired":
+          return res.status(410).json({ error: "This session has expired" });
+        case "not_participant":
+          return res.status(403).json({ error: "You are not a player of this session" });
+        case "already_submitted":
+          return res.status(409).json({ error: "Answers have already been submitted" });
+        case "invalid_answers":
+          return res.status(400).json({ error: "Answer every question of this session once, with one of its options, and predict your partner's answer where asked" });
       }
       
-      // TypeScript needs reassurance that userId exists after our earlier check
-      await gameService.submitAnswers(code, userId as number, answers);
+      broadcastSessionEvent({ type: "partner_submitted", sessionCode: code, userId });
+      
+      // The last submission freezes the result before anyone is told to fetch it. The answers
+      // are stored either way; if this fails, fetching the results finalises the session.
+      try {
+        const completedSession = await gameService.finalizeSession(code, getPublicBaseUrl(req));
+        if (completedSession) {
+          broadcastSessionEvent({ type: "results_ready", sessionCode: code });
+        }
+      } catch (error) {
+        console.error(`Error finalising session ${code}:`, error);
+      }
       
       return res.status(200).json({ success: true });
     } catch (error) {
       console.error("Error submitting answers:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       return res.status(500).json({ error: "Failed to submit answers" });
     }
   });
@@ -383,7 +618,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get("/api/sessions/:code/results-status", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
@@ -415,7 +650,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/sessions/:code/results", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       console.log(`User ${userId} requesting results for session code`);
       
       if (!userId) {
@@ -439,41 +674,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Not all participants have submitted their answers" });
       }
 
-      // Calculate match results (pass userId for perspective)
-      const results = await gameService.calculateMatches(code, userId);
+      // Read the frozen match results (pass userId for perspective)
+      const results = await gameService.getFinalResult(code, getPublicBaseUrl(req), userId, getRequestLanguage(req));
       
       if (!results) {
         console.log(`No results available for session ${code}`);
         return res.status(404).json({ error: "Results not available" });
       }
       
-      console.log(`Results calculated for session ${code}:`, JSON.stringify(results));
+      console.log(`Results loaded for session ${code}:`, JSON.stringify(results));
       
-      // Create a voucher for the session if match percentage is above threshold (50% or higher)
-      let voucher = null;
-      if (results.matchPercentage >= 50) {
-        // Check if voucher already exists
-        const existingVoucher = await storage.getVoucherBySessionId(gameSession.id);
-        
-        if (existingVoucher) {
-          console.log(`Using existing voucher for session ${code}:`, existingVoucher);
-          voucher = {
-            voucherId: existingVoucher.id,
-            voucherCode: existingVoucher.voucherCode,
-            discount: existingVoucher.discount,
-            validUntil: existingVoucher.validUntil.toISOString()
-          };
-        } else {
-          console.log(`Generating new voucher for session ${code} with match percentage ${results.matchPercentage}%`);
-          voucher = await gameService.generateVoucher(results.sessionId, results.matchPercentage);
-        }
-      } else {
-        console.log(`Match percentage ${results.matchPercentage}% too low for voucher`);
-      }
+      // The voucher was issued when the session was finalised, if its score earned one
+      const issuedVoucher = await storage.getVoucherBySessionId(gameSession.id);
+      // A revoked voucher is withheld, not replaced; admins reissue one when it should be
+      const voucher = issuedVoucher && !issuedVoucher.revokedAt
+        ? toIssuedVoucher(issuedVoucher, issuedVoucher.template?.merchant ?? null)
+        : null;
+      
+      // Let a player who missed the live invite still find their partner's rematch
+      const rematch = await storage.getRematchSession(gameSession.id);
       
       const response = {
         ...results,
-        voucher
+        voucher: voucher && { ...voucher, walletPassAvailable: isWalletPassConfigured() },
+        rematchCode: rematch?.sessionCode ?? null
       };
       
       console.log(`Sending results response for session ${code}:`, JSON.stringify(response));
@@ -484,23 +708,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vouchers/:id/download", async (req, res) => {
+  app.post("/api/sessions/:code/rematch", async (req, res) => {
     try {
-      const userId = getUserIdFromRequest(req);
+      const userId = await getUserIdFromRequest(req);
       
       if (!userId) {
         return res.status(401).json({ error: "User not logged in" });
       }
 
-      const { id } = req.params;
-      const voucherId = parseInt(id);
+      const { code } = req.params;
+      const nextSessionCode = await gameService.createRematch(code, userId, getPublicBaseUrl(req));
+      if (!nextSessionCode) {
+        return res.status(400).json({ error: "Only players of a finished session can start a rematch" });
+      }
+
+      // Invite the other players, who are still on the results page of this session
+      broadcastSessionEvent({ type: "rematch_created", sessionCode: code, userId, nextSessionCode });
+      broadcastSessionEvent({ type: "player_joined", sessionCode: nextSessionCode, userId });
+      if (await gameService.isSessionReady(nextSessionCode)) {
+        broadcastSessionEvent({ type: "partner_joined", sessionCode: nextSessionCode, userId });
+      }
       
-      await storage.markVoucherAsDownloaded(voucherId);
+      return res.status(200).json({ sessionCode: nextSessionCode });
+    } catch (error) {
+      console.error("Error creating rematch:", error);
+      return res.status(500).json({ error: "Failed to create rematch" });
+    }
+  });
+
+  app.get("/api/user/sessions", async (req, res) => {
+    try {
+      const userId = await getUserIdFromRequest(req);
       
-      return res.status(200).json({ success: true });
+      if (!userId) {
+        return res.status(401).json({ error: "User not logged in" });
+      }
+
+      const history = await gameService.getSessionHistory(userId);
+      return res.status(200).json(history);
     } catch (error) {
-      console.error("Error marking voucher as downloaded:", error);
-      return res.status(500).json({ error: "Failed to record voucher download" });
+      console.error("Error fetching session history:", error);
+      return res.status(500).json({ error: "Failed to fetch session history" });
+    }
+  });
+
+  // Lets anyone holding a voucher, or a merchant's scanner, confirm it was genuinely issued
+  app.get("/api/vouchers/verify/:code", async (req, res) => {
+    try {
+      const voucher = await voucherService.verify(req.params.code);
+      if (!voucher) {
+        return res.status(404).json({ error: "Voucher not found" });
+      }
+      
+      return res.status(200).json(voucher);
+    } catch (error) {
+      console.error("Error verifying voucher:", error);
+      return res.status(500).json({ error: "Failed to verify voucher" });
+    }
+  });
+
+  // Voucher PDFs are rendered here rather than in the browser so they look the same
+  // everywhere, and a download is only recorded once the file has been produced
+  app.get("/api/vouchers/:id/pdf", async (req, res) => {
+    try {
+      const userId = await getUserIdFromRequest(req);
+      
+      if (!userId) {
+        return res.status(401).json({ error: "User not logged in" });
+      }
+
+      const voucher = await findPlayerVoucher(parseInt(req.params.id), userId);
+      if (!voucher) {
+        return res.status(404).json({ error: "Voucher not found" });
+      }
+      
+      const settings = await storage.getSettings();
+      const pdf = await renderVoucherPdf({
+        voucherCode: voucher.voucherCode,
+        voucherType: voucher.voucherType,
+        discount: voucher.discount,
+        validUntil: voucher.validUntil,
+        matchPercentage: voucher.session.matchPercentage,
+        merchant: voucher.template?.merchant ?? null,
+        redemptionUrl: redemptionUrl(getPublicBaseUrl(req), voucher.voucherCode)
+      }, settings, getRequestLanguage(req));
+      
+      await storage.markVoucherAsDownloaded(voucher.id);
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="Mawadha-Voucher-${voucher.voucherCode}.pdf"`);
+      return res.status(200).send(pdf);
+    } catch (error) {
+      console.error("Error rendering voucher PDF:", error);
+      return res.status(500).json({ error: "Failed to generate voucher PDF" });
+    }
+  });
+
+  // Same voucher as a wallet pass, for couples who'd rather keep it on their phone
+  app.get("/api/vouchers/:id/pass", async (req, res) => {
+    try {
+      const userId = await getUserIdFromRequest(req);
+      
+      if (!userId) {
+        return res.status(401).json({ error: "User not logged in" });
+      }
+      
+      if (!isWalletPassConfigured()) {
+        return res.status(503).json({ error: "Wallet passes are not available" });
+      }
+
+      const voucher = await findPlayerVoucher(parseInt(req.params.id), userId);
+      if (!voucher) {
+        return res.status(404).json({ error: "Voucher not found" });
+      }
+      
+      const settings = await storage.getSettings();
+      const pass = await generateWalletPass({
+        voucherCode: voucher.voucherCode,
+        voucherType: voucher.voucherType,
+        discount: voucher.discount,
+        validUntil: voucher.validUntil,
+        redeemed: voucher.redeemedAt !== null,
+        merchant: voucher.template?.merchant ?? null,
+        redemptionUrl: redemptionUrl(getPublicBaseUrl(req), voucher.voucherCode)
+      }, settings);
+      
+      await storage.markVoucherAsDownloaded(voucher.id);
+      
+      res.setHeader("Content-Type", "application/vnd.apple.pkpass");
+      res.setHeader("Content-Disposition", `attachment; filename="Mawadha-Voucher-${voucher.voucherCode}.pkpass"`);
+      return res.status(200).send(pass);
+    } catch (error) {
+      console.error("Error generating wallet pass:", error);
+      return res.status(500).json({ error: "Failed to generate wallet pass" });
     }
   });
 
@@ -508,7 +848,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/admin/login", validateAdminLogin);
   app.post("/api/admin/logout", adminLogout);
 
-  app.get("/api/admin/analytics", requireAdmin, async (req: AuthRequest, res) => {
+  // The signed-in admin, so the admin area knows which sections to offer
+  app.get("/api/admin/me", requirePermission(), async (req: AuthRequest, res) => {
+    return res.status(200).json(req.adminUser);
+  });
+
+  // WhatsApp webhook: Meta checks the verify token once when the webhook is set up, then
+  // posts delivery reports for sent messages
+  app.get("/api/webhooks/whatsapp", (req, res) => {
+    const verifyToken = config.whatsapp.webhookVerifyToken;
+    if (verifyToken && req.query["hub.mode"] === "subscribe" && req.query["hub.verify_token"] === verifyToken) {
+      return res.status(200).send(req.query["hub.challenge"]);
+    }
+    return res.sendStatus(403);
+  });
+
+  app.post("/api/webhooks/whatsapp", async (req, res) => {
+    try {
+      if (!verifyWebhookSignature((req as Request & { rawBody?: Buffer }).rawBody ?? Buffer.alloc(0), req.get("x-hub-signature-256"))) {
+        return res.sendStatus(403);
+      }
+      for (const update of parseStatusWebhook(req.body)) {
+        await messageService.applyStatusUpdate("whatsapp", update.providerMessageId, update.status, update.error);
+      }
+      return res.sendStatus(200);
+    } catch (error) {
+      console.error("Error handling WhatsApp webhook:", error);
+      return res.sendStatus(500);
+    }
+  });
+
+  // Merchant routes: partner restaurants look up and redeem voucher codes
+  app.post("/api/merchant/login", validateMerchantLogin);
+  app.post("/api/merchant/logout", merchantLogout);
+
+  app.get("/api/merchant/me", requireMerchant, (req: AuthRequest, res) => {
+    return res.status(200).json({ merchant: req.merchant });
+  });
+
+  app.get("/api/merchant/vouchers/:code", requireMerchant, async (req: AuthRequest, res) => {
+    try {
+      // Codes opened from a voucher's QR code carry a signature; reject links that were edited
+      const signature = req.query.sig;
+      if (typeof signature === "string" && !verifyVoucherSignature(req.params.code, signature)) {
+        return res.status(400).json({ error: "This voucher link is not valid" });
+      }
+      
+      const voucher = await voucherService.lookup(req.params.code, req.merchant!.id);
+      if (!voucher) {
+        return res.status(404).json({ error: "Voucher not found" });
+      }
+      
+      return res.status(200).json(voucher);
+    } catch (error) {
+      console.error("Error looking up voucher:", error);
+      return res.status(500).json({ error: "Failed to look up voucher" });
+    }
+  });
+
+  app.post("/api/merchant/vouchers/:code/redeem", requireMerchant, async (req: AuthRequest, res) => {
+    try {
+      const result = await voucherService.redeem(req.params.code, req.merchant!);
+      
+      switch (result.outcome) {
+        case "not_found":
+          return res.status(404).json({ error: "Voucher not found" });
+        case "already_redeemed":
+          return res.status(409).json({ error: "Voucher has already been redeemed", voucher: result.voucher });
+        case "revoked":
+          return res.status(410).json({ error: "Voucher has been revoked", voucher: result.voucher });
+        case "expired":
+          return res.status(410).json({ error: "Voucher has expired", voucher: result.voucher });
+        default:
+          return res.status(200).json(result.voucher);
+      }
+    } catch (error) {
+      console.error("Error redeeming voucher:", error);
+      return res.status(500).json({ error: "Failed to redeem voucher" });
+    }
+  });
+
+  app.get("/api/admin/analytics", requirePermission("viewAnalytics"), async (req: AuthRequest, res) => {
     try {
       const totalParticipants = await storage.getTotalParticipants();
       const completedMatches = await storage.getCompletedMatches();
@@ -529,7 +949,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/participants", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/participants", requirePermission("viewParticipants"), async (req: AuthRequest, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
@@ -553,16 +973,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(500).json({ error: "Failed to fetch participants" });
     }
   });
+
+  // People who registered more than once with the same number
+  app.get("/api/admin/participants/duplicates", requirePermission("viewParticipants"), async (req: AuthRequest, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const search = req.query.search as string || "";
+
+      const groups = await participantService.getDuplicateGroups(limit, (page - 1) * limit, search);
+      const totalCount = await storage.getTotalDuplicateWhatsappNumbers(search);
+
+      return res.status(200).json({
+        groups,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalItems: totalCount
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching duplicate participants:", error);
+      return res.status(500).json({ error: "Failed to fetch duplicate participants" });
+    }
+  });
+
+  app.post("/api/admin/participants/merge", requirePermission("manageParticipants"), async (req: AuthRequest, res) => {
+    try {
+      const { survivorId, duplicateIds } = mergeParticipantsSchema.parse(req.body);
+      const result = await participantService.merge(survivorId, duplicateIds);
+
+      switch (result.outcome) {
+        case "not_found":
+          return res.status(404).json({ error: "Participant not found" });
+        case "different_numbers":
+          return res.status(409).json({ error: "Only accounts with the same WhatsApp number can be merged" });
+        case "shared_session":
+          return res.status(409).json({ error: "These accounts played in the same session and can't be merged" });
+      }
+
+      await auditLog.record(req, result.merged.map((account) => ({
+        action: "merge",
+        entityType: "participant",
+        entityId: account.id,
+        before: account,
+        after: result.survivor
+      })));
+      return res.status(200).json({ survivor: result.survivor, merged: result.merged.length });
+    } catch (error) {
+      console.error("Error merging participants:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to merge participants" });
+    }
+  });
   
-  app.get("/api/admin/sessions", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/sessions", requirePermission("viewParticipants"), async (req: AuthRequest, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
       const search = req.query.search as string || "";
+      const status = req.query.status as string || "";
       
-      // Get sessions with search
-      const sessions = await storage.getGameSessionsWithParticipants(limit, (page - 1) * limit, search);
-      const totalCount = await storage.getTotalGameSessions(search);
+      // Get sessions with search and filter
+      const sessions = await storage.getGameSessionsWithParticipants(limit, (page - 1) * limit, search, status);
+      const totalCount = await storage.getTotalGameSessions(search, status);
       
       return res.status(200).json({
         sessions,
@@ -578,8 +1054,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Messages sent to players, for checking delivery
+  app.get("/api/admin/messages", requirePermission("viewMessages"), async (req: AuthRequest, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const search = req.query.search as string || "";
+      const status = (MESSAGE_STATUSES as readonly string[]).includes(req.query.status as string) ? req.query.status as MessageStatus : "";
+      const kind = (MESSAGE_KINDS as readonly string[]).includes(req.query.kind as string) ? req.query.kind as MessageKind : "";
+      
+      const messages = await storage.getMessages(limit, (page - 1) * limit, search, status, kind);
+      const totalCount = await storage.getTotalMessages(search, status, kind);
+      
+      return res.status(200).json({
+        messages,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalItems: totalCount
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      return res.status(500).json({ error: "Failed to fetch messages" });
+    }
+  });
+
+  // Voucher management routes
+  const voucherFilters = (req: Request) => {
+    const status = req.query.status as string || "";
+    return {
+      search: req.query.search as string || "",
+      status: (VOUCHER_STATUSES as readonly string[]).includes(status) ? status as VoucherStatus : "" as const
+    };
+  };
+
+  app.get("/api/admin/vouchers", requirePermission("viewVouchers"), async (req: AuthRequest, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const { search, status } = voucherFilters(req);
+      
+      const { vouchers, total } = await voucherService.list(page, limit, search, status);
+      
+      return res.status(200).json({
+        vouchers,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching vouchers:", error);
+      return res.status(500).json({ error: "Failed to fetch vouchers" });
+    }
+  });
+
+  app.get("/api/admin/vouchers/export", requirePermission("viewVouchers"), async (req: AuthRequest, res) => {
+    try {
+      const { search, status } = voucherFilters(req);
+      const csv = await voucherService.exportCsv(search, status);
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="mawadha-vouchers-${new Date().toISOString().slice(0, 10)}.csv"`);
+      // Byte order mark so spreadsheet apps read Arabic names as UTF-8
+      return res.status(200).send("\uFEFF" + csv);
+    } catch (error) {
+      console.error("Error exporting vouchers:", error);
+      return res.status(500).json({ error: "Failed to export vouchers" });
+    }
+  });
+
+  app.post("/api/admin/vouchers/revoke", requirePermission("manageVouchers"), async (req: AuthRequest, res) => {
+    try {
+      const { voucherIds, reason } = revokeVouchersSchema.parse(req.body);
+      const before = await storage.getVouchersByIds(voucherIds);
+      const revoked = await voucherService.revoke(voucherIds, reason);
+      await auditLog.record(req, revoked.map((voucher) => ({
+        action: "revoke",
+        entityType: "voucher",
+        entityId: voucher.id,
+        before: before.find((old) => old.id === voucher.id),
+        after: voucher
+      })));
+      
+      return res.status(200).json({ revoked: revoked.length, skipped: voucherIds.length - revoked.length });
+    } catch (error) {
+      console.error("Error revoking vouchers:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to revoke vouchers" });
+    }
+  });
+
+  app.post("/api/admin/vouchers/extend", requirePermission("manageVouchers"), async (req: AuthRequest, res) => {
+    try {
+      const { voucherIds, validUntil } = extendVouchersSchema.parse(req.body);
+      const before = await storage.getVouchersByIds(voucherIds);
+      const extended = await voucherService.extend(voucherIds, validUntil);
+      await auditLog.record(req, extended.map((voucher) => ({
+        action: "extend",
+        entityType: "voucher",
+        entityId: voucher.id,
+        before: before.find((old) => old.id === voucher.id),
+        after: voucher
+      })));
+      
+      return res.status(200).json({ extended: extended.length, skipped: voucherIds.length - extended.length });
+    } catch (error) {
+      console.error("Error extending vouchers:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to extend vouchers" });
+    }
+  });
+
+  app.post("/api/admin/vouchers/:id/reissue", requirePermission("manageVouchers"), async (req: AuthRequest, res) => {
+    try {
+      const voucherId = parseInt(req.params.id);
+      const { reason } = reissueVoucherSchema.parse(req.body);
+      const [before] = await storage.getVouchersByIds([voucherId]);
+      const replacement = await voucherService.reissue(voucherId, reason);
+      
+      if (!replacement) {
+        return res.status(409).json({ error: "Only vouchers that are neither redeemed nor revoked can be reissued" });
+      }
+      await auditLog.record(req, { action: "reissue", entityType: "voucher", entityId: voucherId, before, after: replacement });
+      return res.status(201).json(replacement);
+    } catch (error) {
+      console.error("Error reissuing voucher:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to reissue voucher" });
+    }
+  });
+
+  // Audit log routes
+  const auditLogFilters = (req: Request): AuditLogFilters => {
+    const action = req.query.action as string || "";
+    const entityType = req.query.entityType as string || "";
+    // Dates are whole days, so "to" runs until the end of that day
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(new Date(req.query.to as string).getTime() + 24 * 60 * 60 * 1000 - 1) : undefined;
+    return {
+      search: req.query.search as string || "",
+      action: (AUDIT_ACTIONS as readonly string[]).includes(action) ? action as AuditAction : undefined,
+      entityType: (AUDIT_ENTITY_TYPES as readonly string[]).includes(entityType) ? entityType as AuditEntityType : undefined,
+      from: from && !isNaN(from.getTime()) ? from : undefined,
+      to: to && !isNaN(to.getTime()) ? to : undefined
+    };
+  };
+
+  app.get("/api/admin/audit-log", requirePermission("viewAuditLog"), async (req: AuthRequest, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      
+      const { entries, total } = await auditLog.list(page, limit, auditLogFilters(req));
+      
+      return res.status(200).json({
+        entries,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      return res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/admin/audit-log/export", requirePermission("viewAuditLog"), async (req: AuthRequest, res) => {
+    try {
+      const csv = await auditLog.exportCsv(auditLogFilters(req));
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="mawadha-audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      // Byte order mark so spreadsheet apps read Arabic text as UTF-8
+      return res.status(200).send("\uFEFF" + csv);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      return res.status(500).json({ error: "Failed to export audit log" });
+    }
+  });
+
   // Question Management Routes
-  app.get("/api/admin/questions", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/questions", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
     try {
       const questions = await storage.getQuestions();
       return res.status(200).json(questions);
@@ -589,75 +1255,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/questions", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/questions", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
     try {
-      const { text, questionType, options } = req.body;
-      
-      // Create the question
-      const question = await storage.createQuestion({
-        text,
-        questionType
-      });
-      
-      // Add options for the question
-      for (const option of options) {
-        await storage.createQuestionOption({
-          questionId: question.id,
-          optionText: option.optionText
-        });
-      }
+      const { text, textAr, questionType, poolId } = req.body;
+      const weight = questionWeightSchema.parse(req.body.weight ?? 1);
+      const category = questionCategorySchema.parse(req.body.category || null);
+      const options = z.array(questionOptionInputSchema).parse(req.body.options ?? []);
+      const similarities = z.array(optionSimilarityInputSchema).parse(req.body.similarities ?? []);
+      
+      // Create the question with its options
+      const question = await storage.createQuestion(
+        {
+          text,
+          textAr: textAr || null,
+          questionType,
+          weight,
+          category,
+          poolId: poolId ?? null
+        },
+        options.map(option => ({ optionText: option.optionText, optionTextAr: option.optionTextAr || null })),
+        createdOptions => toOptionSimilarities(similarities, createdOptions)
+      );
       
       // Get the complete question with options
       const fullQuestion = await storage.getQuestionById(question.id);
+      await auditLog.record(req, { action: "create", entityType: "question", entityId: question.id, after: fullQuestion });
       
       return res.status(201).json(fullQuestion);
     } catch (error) {
       console.error("Error creating question:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       return res.status(500).json({ error: "Failed to create question" });
     }
   });
 
-  app.put("/api/admin/questions/:id", requireAdmin, async (req: AuthRequest, res) => {
+  app.put("/api/admin/questions/:id", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
     try {
       const questionId = parseInt(req.params.id);
-      const { text, questionType, options } = req.body;
-      
-      // Update the question
-      await storage.updateQuestion(questionId, {
-        text,
-        questionType
-      });
+      const { text, textAr, questionType, poolId } = req.body;
+      const weight = questionWeightSchema.parse(req.body.weight ?? 1);
+      const category = questionCategorySchema.parse(req.body.category || null);
+      const options = z.array(questionOptionInputSchema).parse(req.body.options ?? []);
+      const similarities = z.array(optionSimilarityInputSchema).parse(req.body.similarities ?? []);
       
-      // Get existing options
+      // Get the question as it was, with its existing options
       const existingQuestion = await storage.getQuestionById(questionId);
       if (!existingQuestion) {
         return res.status(404).json({ error: "Question not found" });
       }
       
-      // Delete existing options
-      for (const option of existingQuestion.options) {
-        await storage.deleteQuestionOption(option.id);
-      }
-      
-      // Add new options
-      for (const option of options) {
-        await storage.createQuestionOption({
-          questionId,
-          optionText: option.optionText
-        });
+      // Update the question, keeping the options that were edited rather than removed
+      const result = await storage.updateQuestion(
+        questionId,
+        {
+          text,
+          textAr: textAr || null,
+          questionType,
+          weight,
+          category,
+          poolId: poolId ?? null
+        },
+        options.map(option => ({ id: option.id, optionText: option.optionText, optionTextAr: option.optionTextAr || null })),
+        savedOptions => toOptionSimilarities(similarities, savedOptions)
+      );
+      if (result === "option_answered") {
+        return res.status(409).json({ error: "Options that players have already answered can't be removed" });
       }
       
-      // Get the updated question with new options
+      // Get the updated question with its options
       const updatedQuestion = await storage.getQuestionById(questionId);
+      await auditLog.record(req, { action: "update", entityType: "question", entityId: questionId, before: existingQuestion, after: updatedQuestion });
       
       return res.status(200).json(updatedQuestion);
     } catch (error) {
       console.error("Error updating question:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       return res.status(500).json({ error: "Failed to update question" });
     }
   });
 
-  app.delete("/api/admin/questions/:id", requireAdmin, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/questions/:id", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
     try {
       const questionId = parseInt(req.params.id);
       
@@ -667,13 +1348,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Question not found" });
       }
       
-      // Delete options first (foreign key constraint)
-      for (const option of question.options) {
-        await storage.deleteQuestionOption(option.id);
+      // Delete the question with its options, similarities and pack entries
+      const result = await storage.deleteQuestion(questionId);
+      if (result === "in_use") {
+        return res.status(409).json({ error: "This question has been played in a session and can't be deleted" });
       }
-      
-      // Delete the question
-      await storage.deleteQuestion(questionId);
+      await auditLog.record(req, { action: "delete", entityType: "question", entityId: questionId, before: question });
       
       return res.status(200).json({ message: "Question deleted successfully" });
     } catch (error) {
@@ -682,8 +1362,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Question Pool Management Routes
+  app.get("/api/admin/question-pools", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const pools = await storage.getQuestionPools();
+      return res.status(200).json(pools);
+    } catch (error) {
+      console.error("Error fetching question pools:", error);
+      return res.status(500).json({ error: "Failed to fetch question pools" });
+    }
+  });
+
+  app.post("/api/admin/question-pools", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const poolData = insertQuestionPoolSchema.parse(req.body);
+      const newPool = await storage.createQuestionPool(poolData);
+      await auditLog.record(req, { action: "create", entityType: "question_pool", entityId: newPool.id, after: newPool });
+      
+      return res.status(201).json(newPool);
+    } catch (error) {
+      console.error("Error creating question pool:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to create question pool" });
+    }
+  });
+
+  app.put("/api/admin/question-pools/:id", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const poolId = parseInt(req.params.id);
+      const pool = await storage.getQuestionPoolById(poolId);
+      
+      if (!pool) {
+        return res.status(404).json({ error: "Question pool not found" });
+      }
+      
+      const poolData = insertQuestionPoolSchema.parse(req.body);
+      const updatedPool = await storage.updateQuestionPool(poolId, poolData);
+      await auditLog.record(req, { action: "update", entityType: "question_pool", entityId: poolId, before: pool, after: updatedPool });
+      
+      return res.status(200).json(updatedPool);
+    } catch (error) {
+      console.error("Error updating question pool:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to update question pool" });
+    }
+  });
+
+  app.delete("/api/admin/question-pools/:id", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const poolId = parseInt(req.params.id);
+      const pool = await storage.getQuestionPoolById(poolId);
+      
+      if (!pool) {
+        return res.status(404).json({ error: "Question pool not found" });
+      }
+      
+      await storage.deleteQuestionPool(poolId);
+      await auditLog.record(req, { action: "delete", entityType: "question_pool", entityId: poolId, before: pool });
+      
+      return res.status(200).json({ message: "Question pool deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting question pool:", error);
+      return res.status(500).json({ error: "Failed to delete question pool" });
+    }
+  });
+
+  // Question Pack Management Routes
+  app.get("/api/admin/question-packs", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const packs = await storage.getQuestionPacks();
+      return res.status(200).json(packs);
+    } catch (error) {
+      console.error("Error fetching question packs:", error);
+      return res.status(500).json({ error: "Failed to fetch question packs" });
+    }
+  });
+
+  app.post("/api/admin/question-packs", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const packData = insertQuestionPackSchema.parse(req.body);
+      const newPack = await storage.createQuestionPack(packData);
+      await auditLog.record(req, { action: "create", entityType: "question_pack", entityId: newPack.id, after: newPack });
+      
+      return res.status(201).json(newPack);
+    } catch (error) {
+      console.error("Error creating question pack:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to create question pack" });
+    }
+  });
+
+  app.put("/api/admin/question-packs/:id", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const packId = parseInt(req.params.id);
+      const pack = await storage.getQuestionPackById(packId);
+      
+      if (!pack) {
+        return res.status(404).json({ error: "Question pack not found" });
+      }
+      
+      const packData = insertQuestionPackSchema.parse(req.body);
+      const updatedPack = await storage.updateQuestionPack(packId, packData);
+      await auditLog.record(req, { action: "update", entityType: "question_pack", entityId: packId, before: pack, after: updatedPack });
+      
+      return res.status(200).json(updatedPack);
+    } catch (error) {
+      console.error("Error updating question pack:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to update question pack" });
+    }
+  });
+
+  app.delete("/api/admin/question-packs/:id", requirePermission("manageQuestions"), async (req: AuthRequest, res) => {
+    try {
+      const packId = parseInt(req.params.id);
+      const pack = await storage.getQuestionPackById(packId);
+      
+      if (!pack) {
+        return res.status(404).json({ error: "Question pack not found" });
+      }
+      
+      await storage.deleteQuestionPack(packId);
+      await auditLog.record(req, { action: "delete", entityType: "question_pack", entityId: packId, before: pack });
+      
+      return res.status(200).json({ message: "Question pack deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting question pack:", error);
+      return res.status(500).json({ error: "Failed to delete question pack" });
+    }
+  });
+
   // Settings Management Routes
-  app.get("/api/admin/settings", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/settings", requirePermission("manageSettings"), async (req: AuthRequest, res) => {
     try {
       const settings = await storage.getSettings();
       return res.status(200).json(settings);
@@ -693,12 +1511,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/settings", requireAdmin, async (req: AuthRequest, res) => {
+  app.put("/api/admin/settings", requirePermission("manageSettings"), async (req: AuthRequest, res) => {
     try {
       const settingsData = req.body;
       const parsedSettings = updateSettingsSchema.parse(settingsData);
       
+      const before = await storage.getSettings();
       const updatedSettings = await storage.updateSettings(parsedSettings);
+      await auditLog.record(req, { action: "update", entityType: "settings", entityId: updatedSettings.id, before, after: updatedSettings });
       return res.status(200).json(updatedSettings);
     } catch (error) {
       console.error("Error updating settings:", error);
@@ -753,7 +1573,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Logo upload endpoint
-  app.post('/api/admin/upload/logo', requireAdmin, upload.single('logo'), async (req: AuthRequest, res) => {
+  app.post('/api/admin/upload/logo', requirePermission("manageSettings"), upload.single('logo'), async (req: AuthRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -761,6 +1581,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Generate URL for the uploaded file
       const fileUrl = `/uploads/${req.file.filename}`;
+      await auditLog.record(req, {
+        action: "upload",
+        entityType: "logo",
+        entityId: req.file.filename,
+        after: { url: fileUrl, originalName: req.file.originalname, size: req.file.size }
+      });
       
       return res.status(200).json({ 
         url: fileUrl,
@@ -773,7 +1599,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Coupon Template Management Routes
-  app.get('/api/admin/coupon-templates', requireAdmin, async (req: AuthRequest, res) => {
+  app.get('/api/admin/coupon-templates', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
@@ -796,7 +1622,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/admin/coupon-templates/:id', requireAdmin, async (req: AuthRequest, res) => {
+  // Which template a given score would receive right now
+  app.get('/api/admin/coupon-templates/preview', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
+    try {
+      const { score } = couponPreviewSchema.parse(req.query);
+      const preview = await voucherService.previewTemplate(score);
+      
+      return res.status(200).json(preview);
+    } catch (error) {
+      console.error("Error previewing coupon template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to preview coupon template" });
+    }
+  });
+  
+  app.get('/api/admin/coupon-templates/:id', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
     try {
       const templateId = parseInt(req.params.id);
       const template = await storage.getCouponTemplateById(templateId);
@@ -812,10 +1654,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/admin/coupon-templates', requireAdmin, async (req: AuthRequest, res) => {
+  app.post('/api/admin/coupon-templates', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
     try {
       const templateData = insertCouponTemplateSchema.parse(req.body);
       const newTemplate = await storage.createCouponTemplate(templateData);
+      await auditLog.record(req, { action: "create", entityType: "coupon_template", entityId: newTemplate.id, after: newTemplate });
       
       return res.status(201).json(newTemplate);
     } catch (error) {
@@ -827,7 +1670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put('/api/admin/coupon-templates/:id', requireAdmin, async (req: AuthRequest, res) => {
+  app.put('/api/admin/coupon-templates/:id', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
     try {
       const templateId = parseInt(req.params.id);
       const template = await storage.getCouponTemplateById(templateId);
@@ -838,6 +1681,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const templateData = insertCouponTemplateSchema.parse(req.body);
       const updatedTemplate = await storage.updateCouponTemplate(templateId, templateData);
+      await auditLog.record(req, { action: "update", entityType: "coupon_template", entityId: templateId, before: template, after: updatedTemplate });
       
       return res.status(200).json(updatedTemplate);
     } catch (error) {
@@ -849,7 +1693,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete('/api/admin/coupon-templates/:id', requireAdmin, async (req: AuthRequest, res) => {
+  app.delete('/api/admin/coupon-templates/:id', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
     try {
       const templateId = parseInt(req.params.id);
       const template = await storage.getCouponTemplateById(templateId);
@@ -858,7 +1702,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Coupon template not found" });
       }
       
+      // Issued vouchers keep pointing at their template so merchants can still redeem them
+      const issuedCount = await storage.countVouchersForTemplate(templateId);
+      if (issuedCount > 0) {
+        return res.status(400).json({ error: "This template has already issued vouchers. Deactivate it instead." });
+      }
+      
       await storage.deleteCouponTemplate(templateId);
+      await auditLog.record(req, { action: "delete", entityType: "coupon_template", entityId: templateId, before: template });
       
       return res.status(200).json({ message: "Coupon template deleted successfully" });
     } catch (error) {
@@ -867,7 +1718,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch('/api/admin/coupon-templates/:id/status', requireAdmin, async (req: AuthRequest, res) => {
+  app.patch('/api/admin/coupon-templates/:id/status', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
     try {
       const templateId = parseInt(req.params.id);
       const { isActive } = req.body;
@@ -882,7 +1733,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Coupon template not found" });
       }
       
+      if (isActive && template.merchantId === null) {
+        return res.status(400).json({ error: "Choose the merchant that honours this template before activating it" });
+      }
+      
       const updatedTemplate = await storage.toggleCouponTemplateStatus(templateId, isActive);
+      await auditLog.record(req, {
+        action: isActive ? "activate" : "deactivate",
+        entityType: "coupon_template",
+        entityId: templateId,
+        before: template,
+        after: updatedTemplate
+      });
       
       return res.status(200).json(updatedTemplate);
     } catch (error) {
@@ -891,7 +1753,203 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Merchant Management Routes
+  // Also listed for whoever manages coupon templates, which are tied to a merchant
+  app.get('/api/admin/merchants', requirePermission("manageCoupons"), async (req: AuthRequest, res) => {
+    try {
+      const merchantList = await storage.getMerchants();
+      return res.status(200).json(merchantList);
+    } catch (error) {
+      console.error("Error fetching merchants:", error);
+      return res.status(500).json({ error: "Failed to fetch merchants" });
+    }
+  });
+  
+  app.post('/api/admin/merchants', requirePermission("manageMerchants"), async (req: AuthRequest, res) => {
+    try {
+      const { password, ...merchantData } = insertMerchantSchema.parse(req.body);
+      const newMerchant = await storage.createMerchant({
+        ...merchantData,
+        passwordHash: await hashPassword(password)
+      });
+      await auditLog.record(req, { action: "create", entityType: "merchant", entityId: newMerchant.id, after: newMerchant });
+      
+      return res.status(201).json(newMerchant);
+    } catch (error) {
+      console.error("Error creating merchant:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(400).json({ error: "That username is already taken" });
+      }
+      return res.status(500).json({ error: "Failed to create merchant" });
+    }
+  });
+  
+  app.put('/api/admin/merchants/:id', requirePermission("manageMerchants"), async (req: AuthRequest, res) => {
+    try {
+      const merchantId = parseInt(req.params.id);
+      const merchant = await storage.getMerchantById(merchantId);
+      
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      
+      const { password, ...merchantData } = updateMerchantSchema.parse(req.body);
+      const updatedMerchant = await storage.updateMerchant(merchantId, {
+        ...merchantData,
+        ...(password ? { passwordHash: await hashPassword(password) } : {})
+      });
+      await auditLog.record(req, {
+        action: "update",
+        entityType: "merchant",
+        entityId: merchantId,
+        before: merchant,
+        after: { ...updatedMerchant, ...(password ? { passwordChanged: true } : {}) }
+      });
+      
+      return res.status(200).json(updatedMerchant);
+    } catch (error) {
+      console.error("Error updating merchant:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(400).json({ error: "That username is already taken" });
+      }
+      return res.status(500).json({ error: "Failed to update merchant" });
+    }
+  });
+  
+  app.delete('/api/admin/merchants/:id', requirePermission("manageMerchants"), async (req: AuthRequest, res) => {
+    try {
+      const merchantId = parseInt(req.params.id);
+      const merchant = await storage.getMerchantById(merchantId);
+      
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      
+      const templateCount = await storage.countCouponTemplatesForMerchant(merchantId);
+      if (templateCount > 0) {
+        return res.status(400).json({ error: "This merchant still has coupon templates. Reassign or delete them first." });
+      }
+      
+      await storage.deleteMerchant(merchantId);
+      await auditLog.record(req, { action: "delete", entityType: "merchant", entityId: merchantId, before: merchant });
+      
+      return res.status(200).json({ message: "Merchant deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting merchant:", error);
+      return res.status(500).json({ error: "Failed to delete merchant" });
+    }
+  });
+
+  // Admin Account Management Routes
+  app.get('/api/admin/users', requirePermission("manageAdmins"), async (req: AuthRequest, res) => {
+    try {
+      const adminList = await storage.getAdmins();
+      return res.status(200).json(adminList);
+    } catch (error) {
+      console.error("Error fetching admins:", error);
+      return res.status(500).json({ error: "Failed to fetch admins" });
+    }
+  });
+
+  app.post('/api/admin/users', requirePermission("manageAdmins"), async (req: AuthRequest, res) => {
+    try {
+      const { password, ...adminData } = insertAdminSchema.parse(req.body);
+      const newAdmin = await storage.createAdmin({
+        ...adminData,
+        passwordHash: await hashPassword(password)
+      });
+      await auditLog.record(req, { action: "create", entityType: "admin", entityId: newAdmin.id, after: newAdmin });
+
+      return res.status(201).json(newAdmin);
+    } catch (error) {
+      console.error("Error creating admin:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(400).json({ error: "That username is already taken" });
+      }
+      return res.status(500).json({ error: "Failed to create admin" });
+    }
+  });
+
+  app.put('/api/admin/users/:id', requirePermission("manageAdmins"), async (req: AuthRequest, res) => {
+    try {
+      const adminId = parseInt(req.params.id);
+      const admin = await storage.getAdminById(adminId);
+
+      if (!admin) {
+        return res.status(404).json({ error: "Admin not found" });
+      }
+
+      const { password, ...adminData } = updateAdminSchema.parse(req.body);
+      // Someone must always be able to manage the admin accounts
+      const losesOwner = admin.role === "owner" && admin.isActive && (adminData.role !== "owner" || adminData.isActive === false);
+      if (losesOwner && await storage.countActiveOwners() <= 1) {
+        return res.status(409).json({ error: "This is the only active owner. Make someone else an owner first." });
+      }
+
+      const updatedAdmin = await storage.updateAdmin(adminId, {
+        ...adminData,
+        ...(password ? { passwordHash: await hashPassword(password) } : {})
+      });
+      await auditLog.record(req, {
+        action: "update",
+        entityType: "admin",
+        entityId: adminId,
+        before: admin,
+        after: { ...updatedAdmin, ...(password ? { passwordChanged: true } : {}) }
+      });
+
+      return res.status(200).json(updatedAdmin);
+    } catch (error) {
+      console.error("Error updating admin:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(400).json({ error: "That username is already taken" });
+      }
+      return res.status(500).json({ error: "Failed to update admin" });
+    }
+  });
+
+  app.delete('/api/admin/users/:id', requirePermission("manageAdmins"), async (req: AuthRequest, res) => {
+    try {
+      const adminId = parseInt(req.params.id);
+      const admin = await storage.getAdminById(adminId);
+
+      if (!admin) {
+        return res.status(404).json({ error: "Admin not found" });
+      }
+      if (admin.id === req.adminUser!.id) {
+        return res.status(400).json({ error: "You can't delete your own account" });
+      }
+      if (admin.role === "owner" && admin.isActive && await storage.countActiveOwners() <= 1) {
+        return res.status(409).json({ error: "This is the only active owner. Make someone else an owner first." });
+      }
+
+      await storage.deleteAdmin(adminId);
+      await auditLog.record(req, { action: "delete", entityType: "admin", entityId: adminId, before: admin });
+
+      return res.status(200).json({ message: "Admin deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting admin:", error);
+      return res.status(500).json({ error: "Failed to delete admin" });
+    }
+  });
+
   // Create HTTP server
   const httpServer = createServer(app);
+  
+  // Push session lobby events over WebSockets
+  setupRealtime(httpServer);
+  
   return httpServer;
 }
@@ -0,0 +1,34 @@
+import { gameService } from "./game-service";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+async function sweep() {
+  try {
+    const abandoned = await gameService.sweepAbandonedSessions();
+    if (abandoned > 0) {
+      log(`marked ${abandoned} abandoned session(s)`, "sweeper");
+    }
+  } catch (error) {
+    console.error("Error sweeping abandoned sessions:", error);
+  }
+
+  try {
+    const pruned = await storage.deleteExpiredUserTokenRevocations();
+    if (pruned > 0) {
+      log(`pruned ${pruned} expired token revocation(s)`, "sweeper");
+    }
+  } catch (error) {
+    console.error("Error pruning token revocations:", error);
+  }
+}
+
+// Periodically mark sessions that were never joined or never finished as abandoned, and
+// forget signed-out player tokens that have expired anyway
+export function startSessionSweeper() {
+  sweep();
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+}
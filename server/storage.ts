@@ -4,23 +4,199 @@ import {
   gameSessions, 
   sessionParticipants, 
   questions, 
+  questionPools,
+  questionPacks,
+  questionPackItems,
+  sessionQuestions,
   questionOptions, 
+  optionSimilarities,
   userAnswers, 
   vouchers,
   settings,
   couponTemplates,
+  merchants,
+  admins,
+  auditLogs,
+  revokedUserTokens,
+  loginCodes,
+  voucherReminders,
+  messages,
   User,
+  LoginCode,
   GameSession,
   Question,
+  QuestionPool,
+  QuestionPoolInsert,
+  QuestionPack,
+  QuestionPackInsert,
   QuestionOption,
+  OptionSimilarity,
   UserAnswer,
   Voucher,
+  VoucherStatus,
+  VoucherReminder,
+  VoucherReminderStatus,
+  Message,
+  MessageKind,
+  MessageStatus,
   Settings,
   SettingsUpdate,
   CouponTemplate,
-  CouponTemplateInsert
+  CouponTemplateInsert,
+  Merchant,
+  MerchantPublic,
+  MerchantInsert,
+  Admin,
+  AdminPublic,
+  AdminInsert,
+  AuditLog,
+  AuditAction,
+  AuditEntityType
 } from "@shared/schema";
-import { eq, and, desc, sql, count } from "drizzle-orm";
+import { eq, and, or, lte, gte, asc, desc, sql, count, countDistinct, inArray, getTableColumns } from "drizzle-orm";
+
+// What a voucher shows about the business that honours it
+export type MerchantBranding = Pick<Merchant, "id" | "name" | "logoUrl" | "address">;
+export type EligibleCouponTemplate = CouponTemplate & {
+  merchant: MerchantBranding | null;
+  // Vouchers issued today, as the database counts days
+  issuedToday: number;
+};
+export type VoucherWithMerchant = Voucher & {
+  template: { merchantId: number | null; merchant: MerchantBranding | null } | null;
+};
+// A player to remind about an unused voucher
+export type VoucherReminderCandidate = {
+  voucherId: number;
+  voucherCode: string;
+  discount: string;
+  validUntil: Date;
+  merchantName: string | null;
+  userId: number;
+  userName: string;
+  whatsappNumber: string;
+};
+export type VoucherWithDetails = VoucherWithMerchant & {
+  session: { sessionCode: string };
+  reissuedAs: { voucherCode: string } | null;
+};
+// A registration shown when looking for people who signed up more than once
+export type ParticipantAccount = User & {
+  sessionCount: number;
+  lastPlayedAt: Date | null;
+};
+export type AuditLogFilters = {
+  search?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  from?: Date;
+  to?: Date;
+};
+export type QuestionData = {
+  text: string;
+  textAr?: string | null;
+  questionType: string;
+  weight?: number;
+  poolId?: number | null;
+  category?: string | null;
+};
+// An option as the editor sends it; options that already exist keep their id
+export type QuestionOptionData = { id?: number; optionText: string; optionTextAr: string | null };
+export type SimilarityData = { optionId: number; otherOptionId: number; score: number };
+export type QuestionUpdateResult = "updated" | "option_answered";
+export type QuestionDeleteResult = "deleted" | "in_use";
+// A voucher as the template it is issued from describes it
+export type VoucherData = Pick<Voucher, "voucherCode" | "voucherType" | "discount" | "validUntil">;
+// The voucher a session earned, issued together with its completion
+export type SessionVoucher = { voucher: Voucher; merchant: MerchantBranding | null };
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+// Players are counted as people by WhatsApp number, since some registered more than once
+function participantSearchFilter(search: string) {
+  return search
+    ? sql`LOWER(${users.name}) LIKE LOWER(${'%' + search + '%'}) OR 
+          LOWER(${users.whatsappNumber}) LIKE LOWER(${'%' + search + '%'})`
+    : undefined;
+}
+
+// Each person's most recent registration
+function latestAccounts(search: string = "") {
+  return db.selectDistinctOn([users.whatsappNumber], { id: users.id, gender: users.gender })
+    .from(users)
+    .where(participantSearchFilter(search))
+    .orderBy(users.whatsappNumber, desc(users.createdAt), desc(users.id));
+}
+
+async function insertSimilarities(tx: Transaction, questionId: number, similarityData: SimilarityData[]) {
+  if (similarityData.length > 0) {
+    await tx.insert(optionSimilarities).values(
+      similarityData.map(similarity => ({ questionId, ...similarity }))
+    );
+  }
+}
+
+// Relational query fragment loading a voucher's merchant through its template
+const voucherMerchant = {
+  template: {
+    columns: { merchantId: true },
+    with: {
+      merchant: { columns: { id: true, name: true, logoUrl: true, address: true } }
+    }
+  }
+} as const;
+
+// Active templates that can reward a score, in the order they should be tried: scored
+// tiers whose range covers it by priority, then consolation tiers. Whether a template can
+// still issue (window and inventory) is decided by claimCouponTemplate. Templates left
+// without a merchant are skipped, as no merchant could redeem their vouchers.
+async function findEligibleCouponTemplates(executor: Executor, matchPercentage: number): Promise<EligibleCouponTemplate[]> {
+  return executor.query.couponTemplates.findMany({
+    where: and(
+      eq(couponTemplates.isActive, true),
+      sql`${couponTemplates.merchantId} IS NOT NULL`,
+      or(
+        eq(couponTemplates.isConsolation, true),
+        and(
+          lte(couponTemplates.matchPercentageThreshold, matchPercentage),
+          gte(couponTemplates.matchPercentageMax, matchPercentage)
+        )
+      )
+    ),
+    orderBy: [
+      asc(couponTemplates.isConsolation),
+      desc(couponTemplates.priority),
+      desc(couponTemplates.matchPercentageThreshold),
+      asc(couponTemplates.id)
+    ],
+    extras: {
+      issuedToday: sql<number>`CASE WHEN ${couponTemplates.dailyIssuedOn} = CURRENT_DATE THEN ${couponTemplates.dailyIssuedCount} ELSE 0 END`.as("issued_today")
+    },
+    with: voucherMerchant.template.with
+  });
+}
+
+// Take one unit of a template's inventory. The checks and the increments happen in a
+// single conditional update, so concurrent sessions can never over-issue a template.
+async function claimCouponTemplate(executor: Executor, id: number): Promise<boolean> {
+  const claimed = await executor.update(couponTemplates)
+    .set({
+      issuedCount: sql`${couponTemplates.issuedCount} + 1`,
+      dailyIssuedCount: sql`CASE WHEN ${couponTemplates.dailyIssuedOn} = CURRENT_DATE THEN ${couponTemplates.dailyIssuedCount} + 1 ELSE 1 END`,
+      dailyIssuedOn: sql`CURRENT_DATE`
+    })
+    .where(and(
+      eq(couponTemplates.id, id),
+      eq(couponTemplates.isActive, true),
+      sql`(${couponTemplates.startsAt} IS NULL OR ${couponTemplates.startsAt} <= now())`,
+      sql`(${couponTemplates.endsAt} IS NULL OR ${couponTemplates.endsAt} > now())`,
+      sql`(${couponTemplates.maxIssuance} IS NULL OR ${couponTemplates.issuedCount} < ${couponTemplates.maxIssuance})`,
+      sql`(${couponTemplates.dailyCap} IS NULL OR ${couponTemplates.dailyIssuedOn} IS DISTINCT FROM CURRENT_DATE OR ${couponTemplates.dailyIssuedCount} < ${couponTemplates.dailyCap})`
+    ))
+    .returning({ id: couponTemplates.id });
+  return claimed.length > 0;
+}
 
 export const storage = {
   // User operations
@@ -36,8 +212,58 @@ export const storage = {
     return result;
   },
 
+  // The most recent registration with this number, when a player has registered more than once
+  async getLatestUserByWhatsappNumber(whatsappNumber: string): Promise<User | undefined> {
+    return db.query.users.findFirst({
+      where: eq(users.whatsappNumber, whatsappNumber),
+      orderBy: [desc(users.createdAt), desc(users.id)]
+    });
+  },
+
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    return db.query.users.findMany({
+      where: inArray(users.id, ids)
+    });
+  },
+
+  // Login code operations
+  async createLoginCode(codeData: typeof loginCodes.$inferInsert): Promise<LoginCode> {
+    const [newCode] = await db.insert(loginCodes).values(codeData).returning();
+    return newCode;
+  },
+
+  async countLoginCodesSince(whatsappNumber: string, since: Date): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(loginCodes)
+      .where(and(eq(loginCodes.whatsappNumber, whatsappNumber), gte(loginCodes.createdAt, since)));
+    return result.count;
+  },
+
+  // Only the latest code sent to a number can be used
+  async getLatestLoginCode(whatsappNumber: string): Promise<LoginCode | undefined> {
+    return db.query.loginCodes.findFirst({
+      where: eq(loginCodes.whatsappNumber, whatsappNumber),
+      orderBy: [desc(loginCodes.createdAt), desc(loginCodes.id)]
+    });
+  },
+
+  async recordLoginCodeAttempt(id: number): Promise<void> {
+    await db.update(loginCodes)
+      .set({ attempts: sql`${loginCodes.attempts} + 1` })
+      .where(eq(loginCodes.id, id));
+  },
+
+  // Returns false if the code was already used, e.g. by a simultaneous request
+  async consumeLoginCode(id: number): Promise<boolean> {
+    const consumed = await db.update(loginCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(loginCodes.id, id), sql`${loginCodes.consumedAt} IS NULL`))
+      .returning({ id: loginCodes.id });
+    return consumed.length > 0;
+  },
+
   // Game Session operations
-  async createGameSession(sessionData: { sessionCode: string }): Promise<GameSession> {
+  async createGameSession(sessionData: { sessionCode: string; packId?: number | null; capacity?: number; expiresAt?: Date | null; previousSessionId?: number | null }): Promise<GameSession> {
     const [newSession] = await db.insert(gameSessions).values(sessionData).returning();
     return newSession;
   },
@@ -49,6 +275,83 @@ export const storage = {
     return result;
   },
 
+  async getRematchSession(previousSessionId: number): Promise<GameSession | undefined> {
+    return db.query.gameSessions.findFirst({
+      where: eq(gameSessions.previousSessionId, previousSessionId)
+    });
+  },
+
+  // Every session the user has played in, oldest first, with the other players
+  async getUserSessionHistory(userId: number): Promise<(GameSession & { participants: { userId: number; user: User }[] })[]> {
+    const participations = await db.query.sessionParticipants.findMany({
+      where: eq(sessionParticipants.userId, userId),
+      columns: { sessionId: true }
+    });
+    if (participations.length === 0) return [];
+
+    return db.query.gameSessions.findMany({
+      where: inArray(gameSessions.id, participations.map(p => p.sessionId)),
+      orderBy: [asc(gameSessions.createdAt)],
+      with: {
+        participants: {
+          columns: { userId: true },
+          with: { user: true }
+        }
+      }
+    });
+  },
+
+  // Mark sessions that can no longer finish as abandoned: codes that expired before
+  // everyone joined, and full sessions still unfinished this many hours after the last join
+  async markAbandonedSessions(abandonAfterHours: number): Promise<number> {
+    const participantCount = sql`(SELECT count(*) FROM ${sessionParticipants} WHERE ${sessionParticipants.sessionId} = ${gameSessions.id})`;
+    const lastJoinedAt = sql`(SELECT max(${sessionParticipants.createdAt}) FROM ${sessionParticipants} WHERE ${sessionParticipants.sessionId} = ${gameSessions.id})`;
+
+    const abandoned = await db.update(gameSessions)
+      .set({ status: "abandoned" })
+      .where(and(
+        eq(gameSessions.status, "active"),
+        sql`${gameSessions.completed} IS NOT TRUE`,
+        sql`(
+          (${gameSessions.expiresAt} < now() AND ${participantCount} < ${gameSessions.capacity})
+          OR (${participantCount} >= ${gameSessions.capacity} AND ${lastJoinedAt} < now() - make_interval(hours => ${abandonAfterHours}))
+        )`
+      ))
+      .returning({ id: gameSessions.id });
+
+    return abandoned.length;
+  },
+
+  // Store the final score once, together with the voucher it earns from the first eligible
+  // template that can still issue, so a session is never completed without its voucher or a
+  // template unit taken without one. Returns undefined if another request already completed it.
+  async completeGameSession(
+    sessionId: number,
+    matchPercentage: number,
+    result: unknown,
+    buildVoucher: (template: EligibleCouponTemplate) => VoucherData
+  ): Promise<{ session: GameSession; voucher: SessionVoucher | null } | undefined> {
+    return db.transaction(async (tx) => {
+      const [completedSession] = await tx.update(gameSessions)
+        .set({ completed: true, matchPercentage, completedAt: new Date(), result })
+        .where(and(eq(gameSessions.id, sessionId), sql`${gameSessions.completed} IS NOT TRUE`))
+        .returning();
+      if (!completedSession) {
+        return undefined;
+      }
+
+      for (const template of await findEligibleCouponTemplates(tx, matchPercentage)) {
+        if (await claimCouponTemplate(tx, template.id)) {
+          const [voucher] = await tx.insert(vouchers)
+            .values({ ...buildVoucher(template), sessionId, templateId: template.id, downloaded: false })
+            .returning();
+          return { session: completedSession, voucher: { voucher, merchant: template.merchant } };
+        }
+      }
+      return { session: completedSession, voucher: null };
+    });
+  },
+
   async addParticipantToSession(sessionId: number, userId: number): Promise<void> {
     await db.insert(sessionParticipants).values({
       sessionId,
@@ -66,36 +369,64 @@ export const storage = {
     return result.map(p => p.user);
   },
 
-  async isSessionComplete(sessionId: number): Promise<boolean> {
+  async isSessionComplete(sessionId: number, capacity: number = 2): Promise<boolean> {
     const participantCount = await db
       .select({ count: count() })
       .from(sessionParticipants)
       .where(eq(sessionParticipants.sessionId, sessionId));
     
-    return participantCount[0].count === 2;
+    return participantCount[0].count >= capacity;
   },
 
   // Questions operations
-  async getQuestions(type?: string): Promise<(Question & { options: QuestionOption[] })[]> {
+  async getQuestions(type?: string): Promise<(Question & { options: QuestionOption[]; similarities: OptionSimilarity[] })[]> {
     let query = db.query.questions;
     if (type) {
       query = query.findMany({
         where: eq(questions.questionType, type),
         with: {
-          options: true
+          options: true,
+          similarities: true
         }
       });
     } else {
       query = query.findMany({
         with: {
-          options: true
+          options: true,
+          similarities: true
         }
       });
     }
     return query;
   },
 
-  async saveUserAnswer(answerData: Omit<UserAnswer, "id" | "createdAt">): Promise<void> {
+  // Session deck operations
+  async assignSessionQuestions(sessionId: number, questionIds: number[]): Promise<void> {
+    if (questionIds.length === 0) return;
+    
+    // Ignore conflicts so a deck drawn concurrently by both partners is only stored once
+    await db.insert(sessionQuestions)
+      .values(questionIds.map((questionId, position) => ({ sessionId, questionId, position })))
+      .onConflictDoNothing();
+  },
+
+  async getSessionQuestions(sessionId: number): Promise<(Question & { options: QuestionOption[] })[]> {
+    const result = await db.query.sessionQuestions.findMany({
+      where: eq(sessionQuestions.sessionId, sessionId),
+      orderBy: [asc(sessionQuestions.position)],
+      with: {
+        question: {
+          with: {
+            options: true
+          }
+        }
+      }
+    });
+    return result.map(sq => sq.question);
+  },
+
+  // All of a player's answers in one statement, so a submission is stored whole or not at all
+  async saveUserAnswers(answerData: Omit<UserAnswer, "id" | "createdAt">[]): Promise<void> {
     await db.insert(userAnswers).values(answerData);
   },
 
@@ -118,14 +449,16 @@ export const storage = {
   async getSessionAnswers(sessionId: number): Promise<(UserAnswer & { 
     user: User,
     question: Question, 
-    selectedOption: QuestionOption 
+    selectedOption: QuestionOption,
+    predictedOption: QuestionOption | null
   })[]> {
     return db.query.userAnswers.findMany({
       where: eq(userAnswers.sessionId, sessionId),
       with: {
         user: true,
         question: true,
-        selectedOption: true
+        selectedOption: true,
+        predictedOption: true
       }
     });
   },
@@ -144,10 +477,16 @@ export const storage = {
   async areAllAnswersSubmitted(sessionId: number): Promise<boolean> {
     // 1. Get all participants in this session
     const participants = await this.getSessionParticipants(sessionId);
-    if (participants.length < 2) return false;
+    const session = await db.query.gameSessions.findFirst({
+      where: eq(gameSessions.id, sessionId)
+    });
+    if (participants.length < Math.max(2, session?.capacity ?? 2)) return false;
     
-    // 2. Get all questions
-    const questions = await this.getQuestions();
+    // 2. Get the questions drawn for this session (older sessions answered the whole question table)
+    let questions: Question[] = await this.getSessionQuestions(sessionId);
+    if (!questions.length) {
+      questions = await this.getQuestions();
+    }
     if (!questions.length) return false;
     
     // 3. Get all answers for this session grouped by user
@@ -173,41 +512,292 @@ export const storage = {
   },
 
   // Voucher operations
-  async createVoucher(voucherData: Omit<Voucher, "id" | "createdAt">): Promise<Voucher> {
-    const [newVoucher] = await db.insert(vouchers).values(voucherData).returning();
-    return newVoucher;
-  },
-
-  async getVoucherBySessionId(sessionId: number): Promise<Voucher | undefined> {
+  // The session's latest voucher: a reissued voucher's replacement rather than the revoked original
+  async getVoucherBySessionId(sessionId: number): Promise<VoucherWithMerchant | undefined> {
     const voucher = await db.query.vouchers.findFirst({
-      where: eq(vouchers.sessionId, sessionId)
+      where: eq(vouchers.sessionId, sessionId),
+      orderBy: [desc(vouchers.id)],
+      with: voucherMerchant
     });
     return voucher;
   },
 
+  async getVoucherById(id: number): Promise<(VoucherWithMerchant & { session: { matchPercentage: number | null } }) | undefined> {
+    return db.query.vouchers.findFirst({
+      where: eq(vouchers.id, id),
+      with: {
+        ...voucherMerchant,
+        session: { columns: { matchPercentage: true } }
+      }
+    });
+  },
+
   async markVoucherAsDownloaded(voucherId: number): Promise<void> {
     await db.update(vouchers)
       .set({ downloaded: true })
       .where(eq(vouchers.id, voucherId));
   },
 
-  // Analytics
-  async getTotalParticipants(search: string = "", status: string = ""): Promise<number> {
-    // Base query
-    let query = db.select({ count: count() }).from(users);
-    
-    // Apply search filter if provided
+  async getVoucherByCode(voucherCode: string): Promise<VoucherWithMerchant | undefined> {
+    return db.query.vouchers.findFirst({
+      where: eq(vouchers.voucherCode, voucherCode),
+      with: voucherMerchant
+    });
+  },
+
+  // Redeems in a single conditional update so a code can't be used twice, even by concurrent requests.
+  // Returns undefined if the voucher was already redeemed or has expired.
+  async redeemVoucher(voucherId: number, redeemedBy: string): Promise<Voucher | undefined> {
+    const [redeemed] = await db.update(vouchers)
+      .set({ redeemedAt: new Date(), redeemedBy })
+      .where(and(
+        eq(vouchers.id, voucherId),
+        sql`${vouchers.redeemedAt} IS NULL`,
+        sql`${vouchers.revokedAt} IS NULL`,
+        sql`${vouchers.validUntil} >= now()`
+      ))
+      .returning();
+    return redeemed;
+  },
+
+  // Players of unused vouchers expiring within `daysBefore` days, but not within `laterThanDays`
+  // (a more urgent reminder covers those), who haven't had this reminder yet. Vouchers issued
+  // with less than `daysBefore` days to run are skipped.
+  async getVoucherReminderCandidates(daysBefore: number, laterThanDays: number): Promise<VoucherReminderCandidate[]> {
+    return db.select({
+      voucherId: vouchers.id,
+      voucherCode: vouchers.voucherCode,
+      discount: vouchers.discount,
+      validUntil: vouchers.validUntil,
+      merchantName: merchants.name,
+      userId: users.id,
+      userName: users.name,
+      whatsappNumber: users.whatsappNumber
+    })
+      .from(vouchers)
+      .innerJoin(sessionParticipants, eq(sessionParticipants.sessionId, vouchers.sessionId))
+      .innerJoin(users, eq(users.id, sessionParticipants.userId))
+      .leftJoin(couponTemplates, eq(couponTemplates.id, vouchers.templateId))
+      .leftJoin(merchants, eq(merchants.id, couponTemplates.merchantId))
+      .where(and(
+        sql`${vouchers.redeemedAt} IS NULL`,
+        sql`${vouchers.revokedAt} IS NULL`,
+        sql`${vouchers.validUntil} > now() + make_interval(days => ${laterThanDays}::int)`,
+        sql`${vouchers.validUntil} <= now() + make_interval(days => ${daysBefore}::int)`,
+        sql`${vouchers.createdAt} <= ${vouchers.validUntil} - make_interval(days => ${daysBefore}::int)`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${voucherReminders}
+          WHERE ${voucherReminders.voucherId} = ${vouchers.id}
+            AND ${voucherReminders.userId} = ${users.id}
+            AND ${voucherReminders.daysBefore} = ${daysBefore}
+        )`
+      ));
+  },
+
+  // Returns how many were queued; reminders queued concurrently by another run are skipped
+  async queueVoucherReminders(reminders: Pick<VoucherReminder, "voucherId" | "userId" | "daysBefore" | "recipient" | "message" | "templateParameters">[]): Promise<number> {
+    if (reminders.length === 0) {
+      return 0;
+    }
+    const queued = await db.insert(voucherReminders)
+      .values(reminders)
+      .onConflictDoNothing()
+      .returning({ id: voucherReminders.id });
+    return queued.length;
+  },
+
+  async getPendingVoucherReminders(limit: number): Promise<(VoucherReminder & { voucher: Voucher })[]> {
+    return db.query.voucherReminders.findMany({
+      where: eq(voucherReminders.status, "pending"),
+      orderBy: [asc(voucherReminders.createdAt)],
+      limit,
+      with: { voucher: true }
+    });
+  },
+
+  async updateVoucherReminder(id: number, update: { status: VoucherReminderStatus; attempts?: number; lastError?: string | null; sentAt?: Date }): Promise<void> {
+    await db.update(voucherReminders)
+      .set(update)
+      .where(eq(voucherReminders.id, id));
+  },
+
+  // Messages
+  async createMessage(messageData: Pick<Message, "kind" | "recipient" | "body" | "provider"> & Partial<Pick<Message, "userId" | "sessionId" | "voucherId">>): Promise<Message> {
+    const [message] = await db.insert(messages).values(messageData).returning();
+    return message;
+  },
+
+  async updateMessage(id: number, update: { status: MessageStatus; providerMessageId?: string | null; error?: string | null }): Promise<Message> {
+    const [message] = await db.update(messages)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  },
+
+  async getMessageByProviderId(provider: string, providerMessageId: string): Promise<Message | undefined> {
+    return db.query.messages.findFirst({
+      where: and(eq(messages.provider, provider), eq(messages.providerMessageId, providerMessageId))
+    });
+  },
+
+  async countSessionMessages(sessionId: number, kind: MessageKind): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(messages)
+      .where(and(eq(messages.sessionId, sessionId), eq(messages.kind, kind)));
+    return result.count;
+  },
+
+  // Search by recipient and filter by status and kind
+  messageFilter(search: string, status: MessageStatus | "", kind: MessageKind | "") {
+    const conditions = [];
     if (search) {
-      query = query.where(
-        sql`LOWER(${users.name}) LIKE LOWER(${'%' + search + '%'}) OR 
-            LOWER(${users.whatsappNumber}) LIKE LOWER(${'%' + search + '%'})`
-      );
+      conditions.push(sql`${messages.recipient} LIKE ${'%' + search + '%'}`);
+    }
+    if (status) {
+      conditions.push(eq(messages.status, status));
     }
+    if (kind) {
+      conditions.push(eq(messages.kind, kind));
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  },
+
+  async getMessages(limit: number = 10, offset: number = 0, search: string = "", status: MessageStatus | "" = "", kind: MessageKind | "" = ""): Promise<Message[]> {
+    return db.query.messages.findMany({
+      where: this.messageFilter(search, status, kind),
+      orderBy: [desc(messages.createdAt), desc(messages.id)],
+      limit,
+      offset
+    });
+  },
+
+  async getTotalMessages(search: string = "", status: MessageStatus | "" = "", kind: MessageKind | "" = ""): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(messages)
+      .where(this.messageFilter(search, status, kind));
+    return result.count;
+  },
+
+  async getVouchersByIds(ids: number[]): Promise<Voucher[]> {
+    if (ids.length === 0) return [];
+    return db.query.vouchers.findMany({
+      where: inArray(vouchers.id, ids)
+    });
+  },
+
+  // Search by voucher or session code and filter by status
+  voucherFilter(search: string, status: VoucherStatus | "") {
+    const conditions = [];
+    if (search) {
+      const pattern = '%' + search + '%';
+      conditions.push(or(
+        sql`LOWER(${vouchers.voucherCode}) LIKE LOWER(${pattern})`,
+        inArray(vouchers.sessionId, db.select({ id: gameSessions.id })
+          .from(gameSessions)
+          .where(sql`LOWER(${gameSessions.sessionCode}) LIKE LOWER(${pattern})`))
+      ));
+    }
+    if (status === "revoked") {
+      conditions.push(sql`${vouchers.revokedAt} IS NOT NULL`);
+    } else if (status === "redeemed") {
+      conditions.push(sql`${vouchers.redeemedAt} IS NOT NULL`);
+    } else if (status === "expired" || status === "valid") {
+      conditions.push(sql`${vouchers.revokedAt} IS NULL`);
+      conditions.push(sql`${vouchers.redeemedAt} IS NULL`);
+      conditions.push(status === "expired" ? sql`${vouchers.validUntil} < now()` : sql`${vouchers.validUntil} >= now()`);
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  },
+
+  // Newest first; without a limit every matching voucher is returned, for exports
+  async getVouchers(limit: number | undefined, offset: number = 0, search: string = "", status: VoucherStatus | "" = ""): Promise<VoucherWithDetails[]> {
+    return db.query.vouchers.findMany({
+      where: this.voucherFilter(search, status),
+      orderBy: [desc(vouchers.createdAt), desc(vouchers.id)],
+      limit,
+      offset,
+      with: {
+        ...voucherMerchant,
+        session: { columns: { sessionCode: true } },
+        reissuedAs: { columns: { voucherCode: true } }
+      }
+    });
+  },
+
+  async getTotalVouchers(search: string = "", status: VoucherStatus | "" = ""): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(vouchers)
+      .where(this.voucherFilter(search, status));
+    return result.count;
+  },
+
+  // Vouchers that were already redeemed or revoked are left alone
+  async revokeVouchers(voucherIds: number[], reason: string): Promise<Voucher[]> {
+    return db.update(vouchers)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(
+        inArray(vouchers.id, voucherIds),
+        sql`${vouchers.redeemedAt} IS NULL`,
+        sql`${vouchers.revokedAt} IS NULL`
+      ))
+      .returning();
+  },
+
+  // Revokes a voucher and issues a copy of it under a new code, in one transaction.
+  // Returns undefined if the voucher was already redeemed or revoked.
+  async reissueVoucher(voucherId: number, voucherCode: string, reason: string): Promise<Voucher | undefined> {
+    return db.transaction(async (tx) => {
+      const [revoked] = await tx.update(vouchers)
+        .set({ revokedAt: new Date(), revokedReason: reason })
+        .where(and(
+          eq(vouchers.id, voucherId),
+          sql`${vouchers.redeemedAt} IS NULL`,
+          sql`${vouchers.revokedAt} IS NULL`
+        ))
+        .returning();
+      if (!revoked) {
+        return undefined;
+      }
+
+      const [replacement] = await tx.insert(vouchers).values({
+        sessionId: revoked.sessionId,
+        voucherCode,
+        voucherType: revoked.voucherType,
+        discount: revoked.discount,
+        validUntil: revoked.validUntil,
+        downloaded: false,
+        templateId: revoked.templateId
+      }).returning();
+      await tx.update(vouchers)
+        .set({ reissuedAsId: replacement.id })
+        .where(eq(vouchers.id, revoked.id));
+      return replacement;
+    });
+  },
+
+  // Only moves expiry dates later, and only for vouchers that can still be redeemed
+  async extendVouchers(voucherIds: number[], validUntil: Date): Promise<Voucher[]> {
+    return db.update(vouchers)
+      .set({ validUntil })
+      .where(and(
+        inArray(vouchers.id, voucherIds),
+        sql`${vouchers.redeemedAt} IS NULL`,
+        sql`${vouchers.revokedAt} IS NULL`,
+        lte(vouchers.validUntil, validUntil)
+      ))
+      .returning();
+  },
+
+  // Analytics
+  async getTotalParticipants(search: string = "", status: string = ""): Promise<number> {
+    const [result] = await db.select({ count: countDistinct(users.whatsappNumber) })
+      .from(users)
+      .where(participantSearchFilter(search));
     
     // Note: Status filtering is handled in memory after fetching users 
     // because status is calculated from multiple tables
-    const result = await query;
-    return result[0].count;
+    return result.count;
   },
 
   async getCompletedMatches(): Promise<number> {
@@ -218,19 +808,26 @@ export const storage = {
     return result[0].count;
   },
 
+  // Revoked vouchers, and originals that were reissued under a new code, aren't counted
   async getVoucherCount(): Promise<number> {
-    const result = await db.select({ count: count() }).from(vouchers);
+    const result = await db.select({ count: count() })
+      .from(vouchers)
+      .where(and(
+        sql`${vouchers.revokedAt} IS NULL`,
+        sql`${vouchers.reissuedAsId} IS NULL`
+      ));
     return result[0].count;
   },
 
   async getUsersByGender(): Promise<{ gender: string; count: number }[]> {
+    const people = latestAccounts().as("people");
     const result = await db
       .select({
-        gender: users.gender,
+        gender: people.gender,
         count: count()
       })
-      .from(users)
-      .groupBy(users.gender);
+      .from(people)
+      .groupBy(people.gender);
     return result;
   },
 
@@ -244,7 +841,11 @@ export const storage = {
           ELSE '45+'
         END AS "ageGroup",
         COUNT(*) AS count
-      FROM users
+      FROM (
+        SELECT DISTINCT ON (whatsapp_number) age
+        FROM users
+        ORDER BY whatsapp_number, created_at DESC, id DESC
+      ) AS people
       GROUP BY "ageGroup"
       ORDER BY "ageGroup"
     `);
@@ -254,61 +855,231 @@ export const storage = {
   },
 
   // Question CRUD operations
-  async getQuestionById(id: number): Promise<(Question & { options: QuestionOption[] }) | undefined> {
+  async getQuestionById(id: number): Promise<(Question & { options: QuestionOption[]; similarities: OptionSimilarity[] }) | undefined> {
     const question = await db.query.questions.findFirst({
       where: eq(questions.id, id),
       with: {
-        options: true
+        options: true,
+        similarities: true
       }
     });
     return question;
   },
 
-  async createQuestion(questionData: { text: string; questionType: string }): Promise<Question> {
-    const [newQuestion] = await db.insert(questions).values(questionData).returning();
-    return newQuestion;
+  // The question, its options and their similarities are written in one transaction.
+  // Similarities refer to options by position, so they are built from the saved options.
+  async createQuestion(
+    questionData: QuestionData,
+    optionData: QuestionOptionData[],
+    buildSimilarities: (options: QuestionOption[]) => SimilarityData[]
+  ): Promise<Question> {
+    return db.transaction(async (tx) => {
+      const [newQuestion] = await tx.insert(questions).values(questionData).returning();
+      const savedOptions = await tx.insert(questionOptions)
+        .values(optionData.map(({ optionText, optionTextAr }) => ({ questionId: newQuestion.id, optionText, optionTextAr })))
+        .returning();
+      await insertSimilarities(tx, newQuestion.id, buildSimilarities(savedOptions));
+      return newQuestion;
+    });
   },
 
-  async updateQuestion(id: number, questionData: { text: string; questionType: string }): Promise<void> {
-    await db.update(questions)
-      .set(questionData)
-      .where(eq(questions.id, id));
+  // Options that keep their id are updated in place, so answers already given still point at
+  // them. An option that was answered can't be removed.
+  async updateQuestion(
+    id: number,
+    questionData: QuestionData,
+    optionData: QuestionOptionData[],
+    buildSimilarities: (options: QuestionOption[]) => SimilarityData[]
+  ): Promise<QuestionUpdateResult> {
+    return db.transaction(async (tx) => {
+      const existingIds = (await tx.select({ id: questionOptions.id }).from(questionOptions).where(eq(questionOptions.questionId, id)))
+        .map((option) => option.id);
+      const keptIds = optionData.flatMap((option) => option.id !== undefined && existingIds.includes(option.id) ? [option.id] : []);
+      const removedIds = existingIds.filter((optionId) => !keptIds.includes(optionId));
+
+      if (removedIds.length > 0) {
+        const [answered] = await tx.select({ id: userAnswers.id })
+          .from(userAnswers)
+          .where(or(inArray(userAnswers.selectedOptionId, removedIds), inArray(userAnswers.predictedOptionId, removedIds)))
+          .limit(1);
+        if (answered) {
+          return "option_answered";
+        }
+      }
+
+      await tx.update(questions).set(questionData).where(eq(questions.id, id));
+      await tx.delete(optionSimilarities).where(eq(optionSimilarities.questionId, id));
+      if (removedIds.length > 0) {
+        await tx.delete(questionOptions).where(inArray(questionOptions.id, removedIds));
+      }
+
+      const savedOptions: QuestionOption[] = [];
+      for (const { id: optionId, optionText, optionTextAr } of optionData) {
+        const [saved] = optionId !== undefined && keptIds.includes(optionId)
+          ? await tx.update(questionOptions).set({ optionText, optionTextAr }).where(eq(questionOptions.id, optionId)).returning()
+          : await tx.insert(questionOptions).values({ questionId: id, optionText, optionTextAr }).returning();
+        savedOptions.push(saved);
+      }
+      await insertSimilarities(tx, id, buildSimilarities(savedOptions));
+      return "updated";
+    });
   },
 
-  async deleteQuestion(id: number): Promise<void> {
-    await db.delete(questions).where(eq(questions.id, id));
+  // Questions that were drawn into a session or answered stay, so past results keep their questions
+  async deleteQuestion(id: number): Promise<QuestionDeleteResult> {
+    return db.transaction(async (tx) => {
+      const [drawn] = await tx.select({ sessionId: sessionQuestions.sessionId })
+        .from(sessionQuestions)
+        .where(eq(sessionQuestions.questionId, id))
+        .limit(1);
+      const [answered] = await tx.select({ id: userAnswers.id })
+        .from(userAnswers)
+        .where(eq(userAnswers.questionId, id))
+        .limit(1);
+      if (drawn || answered) {
+        return "in_use";
+      }
+
+      await tx.delete(optionSimilarities).where(eq(optionSimilarities.questionId, id));
+      await tx.delete(questionOptions).where(eq(questionOptions.questionId, id));
+      await tx.delete(questionPackItems).where(eq(questionPackItems.questionId, id));
+      await tx.delete(questions).where(eq(questions.id, id));
+      return "deleted";
+    });
   },
 
-  async createQuestionOption(optionData: { questionId: number; optionText: string }): Promise<QuestionOption> {
-    const [newOption] = await db.insert(questionOptions).values(optionData).returning();
-    return newOption;
+  // Question pool operations
+  async getQuestionPools(): Promise<QuestionPool[]> {
+    return db.query.questionPools.findMany({
+      orderBy: [asc(questionPools.name)]
+    });
   },
 
-  async deleteQuestionOption(id: number): Promise<void> {
-    await db.delete(questionOptions).where(eq(questionOptions.id, id));
+  async getQuestionPoolById(id: number): Promise<QuestionPool | undefined> {
+    return db.query.questionPools.findFirst({
+      where: eq(questionPools.id, id)
+    });
   },
 
-  async getTotalGameSessions(search: string = ""): Promise<number> {
-    // Base query
-    let query = db.select({ count: sql`count(*)` }).from(gameSessions);
+  async createQuestionPool(poolData: QuestionPoolInsert): Promise<QuestionPool> {
+    const [newPool] = await db.insert(questionPools).values(poolData).returning();
+    return newPool;
+  },
+
+  async updateQuestionPool(id: number, poolData: Partial<QuestionPoolInsert>): Promise<QuestionPool> {
+    const [updatedPool] = await db.update(questionPools)
+      .set(poolData)
+      .where(eq(questionPools.id, id))
+      .returning();
+    return updatedPool;
+  },
+
+  async deleteQuestionPool(id: number): Promise<void> {
+    // Detach questions first (foreign key constraint)
+    await db.update(questions)
+      .set({ poolId: null })
+      .where(eq(questions.poolId, id));
+    await db.delete(questionPools).where(eq(questionPools.id, id));
+  },
+
+  // Question pack operations
+  async getQuestionPacks(activeOnly: boolean = false): Promise<(QuestionPack & { questionIds: number[] })[]> {
+    const packs = await db.query.questionPacks.findMany({
+      where: activeOnly ? eq(questionPacks.isActive, true) : undefined,
+      orderBy: [asc(questionPacks.name)],
+      with: {
+        items: true
+      }
+    });
     
-    // Apply search filter if provided
-    if (search) {
-      query = query.where(
-        sql`LOWER(${gameSessions.sessionCode}) LIKE LOWER(${'%' + search + '%'})`
-      );
-    }
+    return packs.map(({ items, ...pack }) => ({
+      ...pack,
+      questionIds: items.map(item => item.questionId)
+    }));
+  },
+
+  async getQuestionPackById(id: number): Promise<(QuestionPack & { questionIds: number[] }) | undefined> {
+    const pack = await db.query.questionPacks.findFirst({
+      where: eq(questionPacks.id, id),
+      with: {
+        items: true
+      }
+    });
+    if (!pack) return undefined;
+    
+    const { items, ...packData } = pack;
+    return {
+      ...packData,
+      questionIds: items.map(item => item.questionId)
+    };
+  },
+
+  async setQuestionPackItems(packId: number, questionIds: number[]): Promise<void> {
+    await db.delete(questionPackItems).where(eq(questionPackItems.packId, packId));
     
-    const result = await query.then(rows => rows[0]);
+    if (questionIds.length > 0) {
+      // Only keep IDs of questions that still exist
+      const existing = await db.query.questions.findMany({
+        where: inArray(questions.id, questionIds)
+      });
+      if (existing.length > 0) {
+        await db.insert(questionPackItems).values(existing.map(q => ({ packId, questionId: q.id })));
+      }
+    }
+  },
+
+  async createQuestionPack({ questionIds, ...packData }: QuestionPackInsert): Promise<QuestionPack> {
+    const [newPack] = await db.insert(questionPacks).values(packData).returning();
+    await this.setQuestionPackItems(newPack.id, questionIds);
+    return newPack;
+  },
+
+  async updateQuestionPack(id: number, { questionIds, ...packData }: QuestionPackInsert): Promise<QuestionPack> {
+    const [updatedPack] = await db.update(questionPacks)
+      .set({
+        ...packData,
+        updatedAt: new Date()
+      })
+      .where(eq(questionPacks.id, id))
+      .returning();
+    await this.setQuestionPackItems(id, questionIds);
+    return updatedPack;
+  },
+
+  async deleteQuestionPack(id: number): Promise<void> {
+    // Detach items and sessions first (foreign key constraint)
+    await db.delete(questionPackItems).where(eq(questionPackItems.packId, id));
+    await db.update(gameSessions)
+      .set({ packId: null })
+      .where(eq(gameSessions.packId, id));
+    await db.delete(questionPacks).where(eq(questionPacks.id, id));
+  },
+
+  async getTotalGameSessions(search: string = "", status: string = ""): Promise<number> {
+    const result = await db.select({ count: sql`count(*)` })
+      .from(gameSessions)
+      .where(this.gameSessionFilter(search, status))
+      .then(rows => rows[0]);
     return Number(result.count);
   },
 
-  async getGameSessionsWithParticipants(limit: number = 10, offset: number = 0, search: string = ""): Promise<any[]> {
-    // Build query with search if provided
-    let where = undefined;
+  // Search by code and filter by status: "active" (still in play), "completed" or "abandoned"
+  gameSessionFilter(search: string, status: string) {
+    const conditions = [];
     if (search) {
-      where = sql`LOWER(${gameSessions.sessionCode}) LIKE LOWER(${'%' + search + '%'})`;
+      conditions.push(sql`LOWER(${gameSessions.sessionCode}) LIKE LOWER(${'%' + search + '%'})`);
     }
+    if (status === "completed") {
+      conditions.push(eq(gameSessions.completed, true));
+    } else if (status === "active" || status === "abandoned") {
+      conditions.push(eq(gameSessions.status, status));
+      conditions.push(sql`${gameSessions.completed} IS NOT TRUE`);
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  },
+
+  async getGameSessionsWithParticipants(limit: number = 10, offset: number = 0, search: string = "", status: string = ""): Promise<any[]> {
+    const where = this.gameSessionFilter(search, status);
     
     // Get all sessions with pagination
     const sessions = await db.query.gameSessions.findMany({
@@ -399,7 +1170,7 @@ export const storage = {
   },
 
   // Coupon Template operations
-  async getCouponTemplates(limit: number = 10, offset: number = 0, search: string = ""): Promise<CouponTemplate[]> {
+  async getCouponTemplates(limit: number = 10, offset: number = 0, search: string = ""): Promise<(CouponTemplate & { merchant: { id: number; name: string } | null })[]> {
     // Build query with search if provided
     let where = undefined;
     if (search) {
@@ -410,7 +1181,10 @@ export const storage = {
       orderBy: [desc(couponTemplates.createdAt)],
       limit,
       offset,
-      where
+      where,
+      with: {
+        merchant: { columns: { id: true, name: true } }
+      }
     });
     
     return templates;
@@ -454,6 +1228,11 @@ export const storage = {
     return updatedTemplate;
   },
   
+  async countVouchersForTemplate(templateId: number): Promise<number> {
+    const result = await db.select({ count: count() }).from(vouchers).where(eq(vouchers.templateId, templateId));
+    return result[0].count;
+  },
+  
   async deleteCouponTemplate(id: number): Promise<void> {
     await db.delete(couponTemplates).where(eq(couponTemplates.id, id));
   },
@@ -469,34 +1248,209 @@ export const storage = {
     return updatedTemplate;
   },
   
-  async getActiveCouponTemplate(matchPercentage: number): Promise<CouponTemplate | undefined> {
-    // Get active template with lowest threshold that matches the given percentage
-    const template = await db.query.couponTemplates.findFirst({
-      where: and(
-        eq(couponTemplates.isActive, true),
-        sql`${couponTemplates.matchPercentageThreshold} <= ${matchPercentage}`
-      ),
-      orderBy: [desc(couponTemplates.matchPercentageThreshold)]
+  // Sessions are rewarded in completeGameSession; this is for previewing tier setups
+  async getEligibleCouponTemplates(matchPercentage: number): Promise<EligibleCouponTemplate[]> {
+    return findEligibleCouponTemplates(db, matchPercentage);
+  },
+  
+  // Merchant operations
+  async getMerchants(): Promise<MerchantPublic[]> {
+    return db.query.merchants.findMany({
+      columns: { passwordHash: false },
+      orderBy: [asc(merchants.name)]
     });
-    
-    return template;
+  },
+
+  async getMerchantById(id: number): Promise<MerchantPublic | undefined> {
+    return db.query.merchants.findFirst({
+      columns: { passwordHash: false },
+      where: eq(merchants.id, id)
+    });
+  },
+
+  // Includes the password hash, for logging in
+  async getMerchantByUsername(username: string): Promise<Merchant | undefined> {
+    return db.query.merchants.findFirst({
+      where: eq(merchants.username, username)
+    });
+  },
+
+  async createMerchant(merchantData: Omit<MerchantInsert, "password"> & { passwordHash: string }): Promise<MerchantPublic> {
+    const [newMerchant] = await db.insert(merchants).values(merchantData).returning();
+    const { passwordHash, ...merchant } = newMerchant;
+    return merchant;
+  },
+
+  async updateMerchant(id: number, merchantData: Partial<Omit<MerchantInsert, "password">> & { passwordHash?: string }): Promise<MerchantPublic> {
+    const [updatedMerchant] = await db.update(merchants)
+      .set({
+        ...merchantData,
+        updatedAt: new Date()
+      })
+      .where(eq(merchants.id, id))
+      .returning();
+    const { passwordHash, ...merchant } = updatedMerchant;
+    return merchant;
+  },
+
+  async countCouponTemplatesForMerchant(merchantId: number): Promise<number> {
+    const result = await db.select({ count: count() }).from(couponTemplates).where(eq(couponTemplates.merchantId, merchantId));
+    return result[0].count;
+  },
+
+  async deleteMerchant(id: number): Promise<void> {
+    await db.delete(merchants).where(eq(merchants.id, id));
   },
   
-  async getRecentParticipants(limit: number = 10, offset: number = 0, search: string = "", statusFilter: string = ""): Promise<(User & { matchStatus: string; sessionCode?: string; voucherCode?: string })[]> {
-    // Build the query with search if provided
-    let where = undefined;
-    if (search) {
-      where = sql`LOWER(${users.name}) LIKE LOWER(${'%' + search + '%'}) OR 
-               LOWER(${users.whatsappNumber}) LIKE LOWER(${'%' + search + '%'})`;
+  // Admin account operations
+  async getAdmins(): Promise<AdminPublic[]> {
+    return db.query.admins.findMany({
+      columns: { passwordHash: false },
+      orderBy: [asc(admins.username)]
+    });
+  },
+
+  async getAdminById(id: number): Promise<AdminPublic | undefined> {
+    return db.query.admins.findFirst({
+      columns: { passwordHash: false },
+      where: eq(admins.id, id)
+    });
+  },
+
+  // Includes the password hash, for logging in
+  async getAdminByUsername(username: string): Promise<Admin | undefined> {
+    return db.query.admins.findFirst({
+      where: eq(admins.username, username)
+    });
+  },
+
+  async countAdmins(): Promise<number> {
+    const result = await db.select({ count: count() }).from(admins);
+    return result[0].count;
+  },
+
+  async countActiveOwners(): Promise<number> {
+    const result = await db.select({ count: count() }).from(admins)
+      .where(and(eq(admins.role, "owner"), eq(admins.isActive, true)));
+    return result[0].count;
+  },
+
+  async createAdmin(adminData: Omit<AdminInsert, "password"> & { passwordHash: string }): Promise<AdminPublic> {
+    const [newAdmin] = await db.insert(admins).values(adminData).returning();
+    const { passwordHash, ...admin } = newAdmin;
+    return admin;
+  },
+
+  async updateAdmin(id: number, adminData: Partial<Omit<AdminInsert, "password">> & { passwordHash?: string }): Promise<AdminPublic> {
+    const [updatedAdmin] = await db.update(admins)
+      .set({
+        ...adminData,
+        updatedAt: new Date()
+      })
+      .where(eq(admins.id, id))
+      .returning();
+    const { passwordHash, ...admin } = updatedAdmin;
+    return admin;
+  },
+
+  // Player token revocations
+  async revokeUserToken(tokenId: string, userId: number, expiresAt: Date): Promise<void> {
+    await db.insert(revokedUserTokens)
+      .values({ tokenId, userId, expiresAt })
+      .onConflictDoNothing();
+  },
+
+  async isUserTokenRevoked(tokenId: string): Promise<boolean> {
+    const revoked = await db.query.revokedUserTokens.findFirst({
+      columns: { tokenId: true },
+      where: eq(revokedUserTokens.tokenId, tokenId)
+    });
+    return Boolean(revoked);
+  },
+
+  // Once a token has expired it is rejected anyway, so its revocation can go
+  async deleteExpiredUserTokenRevocations(): Promise<number> {
+    const deleted = await db.delete(revokedUserTokens)
+      .where(lte(revokedUserTokens.expiresAt, new Date()))
+      .returning({ tokenId: revokedUserTokens.tokenId });
+    return deleted.length;
+  },
+
+  // Audit log operations. Entries are only ever added, never changed or removed.
+  async createAuditLogs(entries: (typeof auditLogs.$inferInsert)[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLogs).values(entries);
+  },
+
+  // Search by admin or entity ID and filter by action, entity type and date range
+  auditLogFilter(filters: AuditLogFilters) {
+    const conditions = [];
+    if (filters.search) {
+      const pattern = '%' + filters.search + '%';
+      conditions.push(or(
+        sql`LOWER(${auditLogs.adminUsername}) LIKE LOWER(${pattern})`,
+        eq(auditLogs.entityId, filters.search)
+      ));
     }
-    
+    if (filters.action) {
+      conditions.push(eq(auditLogs.action, filters.action));
+    }
+    if (filters.entityType) {
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLogs.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(auditLogs.createdAt, filters.to));
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  },
+
+  // Newest first; without a limit every matching entry is returned, for exports
+  async getAuditLogs(limit: number | undefined, offset: number = 0, filters: AuditLogFilters = {}): Promise<AuditLog[]> {
+    return db.query.auditLogs.findMany({
+      where: this.auditLogFilter(filters),
+      orderBy: [desc(auditLogs.createdAt), desc(auditLogs.id)],
+      limit,
+      offset
+    });
+  },
+
+  async getTotalAuditLogs(filters: AuditLogFilters = {}): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(auditLogs)
+      .where(this.auditLogFilter(filters));
+    return result.count;
+  },
+
+  async recordAdminLogin(id: number): Promise<void> {
+    await db.update(admins).set({ lastLoginAt: new Date() }).where(eq(admins.id, id));
+  },
+
+  async deleteAdmin(id: number): Promise<void> {
+    await db.delete(admins).where(eq(admins.id, id));
+  },
+  
+  // One row per person: their latest registration, with how many they have made
+  async getRecentParticipants(limit: number = 10, offset: number = 0, search: string = "", statusFilter: string = ""): Promise<(User & { accountCount: number; matchStatus: string; sessionCode?: string; voucherCode?: string })[]> {
+    const people = latestAccounts(search).as("people");
     const recentUsers = await db.query.users.findMany({
       orderBy: [desc(users.createdAt)],
       limit,
       offset,
-      where
+      where: inArray(users.id, db.select({ id: people.id }).from(people))
     });
 
+    const accountCounts = new Map<string, number>();
+    if (recentUsers.length > 0) {
+      const rows = await db.select({ whatsappNumber: users.whatsappNumber, count: count() })
+        .from(users)
+        .where(inArray(users.whatsappNumber, recentUsers.map((user) => user.whatsappNumber)))
+        .groupBy(users.whatsappNumber);
+      rows.forEach((row) => accountCounts.set(row.whatsappNumber, row.count));
+    }
+
     // For each user, determine their match status
     const usersWithStatus = await Promise.all(
       recentUsers.map(async (user) => {
@@ -535,6 +1489,8 @@ export const storage = {
             } else {
               matchStatus = "No Voucher";
             }
+          } else if (mostRecentSession.session?.status === "abandoned") {
+            matchStatus = "Abandoned";
           } else {
             // Get number of participants in the session
             const participants = await db.query.sessionParticipants.findMany({
@@ -546,8 +1502,8 @@ export const storage = {
               where: eq(userAnswers.sessionId, mostRecentSession.session!.id)
             });
 
-            // If the participant count is 2 and there are answers, but the session is not complete
-            if (participants.length === 2) {
+            // If the session is full and there are answers, but the session is not complete
+            if (participants.length >= mostRecentSession.session!.capacity) {
               const userHasSubmitted = await this.hasUserSubmittedAnswers(
                 mostRecentSession.session!.id,
                 user.id
@@ -566,6 +1522,7 @@ export const storage = {
 
         return {
           ...user,
+          accountCount: accountCounts.get(user.whatsappNumber) ?? 1,
           matchStatus,
           sessionCode,
           voucherCode
@@ -579,5 +1536,82 @@ export const storage = {
     }
     
     return usersWithStatus;
+  },
+
+  // Numbers registered by more than one account, most recently registered first
+  async getDuplicateWhatsappNumbers(limit: number = 10, offset: number = 0, search: string = ""): Promise<string[]> {
+    const rows = await this.duplicateWhatsappNumbersQuery(search)
+      .orderBy(desc(sql`max(${users.createdAt})`))
+      .limit(limit)
+      .offset(offset);
+    return rows.map((row) => row.whatsappNumber);
+  },
+
+  async getTotalDuplicateWhatsappNumbers(search: string = ""): Promise<number> {
+    const duplicates = this.duplicateWhatsappNumbersQuery(search).as("duplicates");
+    const [result] = await db.select({ count: count() }).from(duplicates);
+    return result.count;
+  },
+
+  duplicateWhatsappNumbersQuery(search: string) {
+    // A group matches when any of its accounts does
+    const where = search
+      ? inArray(users.whatsappNumber, db.select({ whatsappNumber: users.whatsappNumber }).from(users).where(participantSearchFilter(search)))
+      : undefined;
+    return db.select({ whatsappNumber: users.whatsappNumber })
+      .from(users)
+      .where(where)
+      .groupBy(users.whatsappNumber)
+      .having(sql`count(*) > 1`)
+      .$dynamic();
+  },
+
+  async getAccountsByWhatsappNumbers(whatsappNumbers: string[]): Promise<ParticipantAccount[]> {
+    if (whatsappNumbers.length === 0) {
+      return [];
+    }
+    return db.select({
+      ...getTableColumns(users),
+      sessionCount: sql<number>`(SELECT count(*) FROM ${sessionParticipants} WHERE ${sessionParticipants.userId} = ${users.id})`.mapWith(Number),
+      lastPlayedAt: sql<Date | null>`(SELECT max(${sessionParticipants.createdAt}) FROM ${sessionParticipants} WHERE ${sessionParticipants.userId} = ${users.id})`.mapWith(sessionParticipants.createdAt)
+    })
+      .from(users)
+      .where(inArray(users.whatsappNumber, whatsappNumbers))
+      .orderBy(asc(users.createdAt), asc(users.id));
+  },
+
+  // Sessions that more than one of these accounts took part in; such accounts can't be merged
+  async getSharedSessionIds(userIds: number[]): Promise<number[]> {
+    const rows = await db.select({ sessionId: sessionParticipants.sessionId })
+      .from(sessionParticipants)
+      .where(inArray(sessionParticipants.userId, userIds))
+      .groupBy(sessionParticipants.sessionId)
+      .having(sql`count(*) > 1`);
+    return rows.map((row) => row.sessionId);
+  },
+
+  // Moves everything recorded against the duplicate accounts to the survivor, then deletes them.
+  // Frozen session results name their players too, so each is passed through reassignResult.
+  async mergeUsers(survivorId: number, duplicateIds: number[], reassignResult: (result: unknown) => unknown): Promise<void> {
+    await db.transaction(async (tx) => {
+      const finishedSessions = await tx.select({ id: gameSessions.id, result: gameSessions.result })
+        .from(gameSessions)
+        .where(and(
+          inArray(gameSessions.id, tx.select({ sessionId: sessionParticipants.sessionId })
+            .from(sessionParticipants)
+            .where(inArray(sessionParticipants.userId, duplicateIds))),
+          sql`${gameSessions.result} IS NOT NULL`
+        ));
+      for (const session of finishedSessions) {
+        await tx.update(gameSessions).set({ result: reassignResult(session.result) }).where(eq(gameSessions.id, session.id));
+      }
+      await tx.update(sessionParticipants).set({ userId: survivorId }).where(inArray(sessionParticipants.userId, duplicateIds));
+      await tx.update(userAnswers).set({ userId: survivorId }).where(inArray(userAnswers.userId, duplicateIds));
+      await tx.update(voucherReminders).set({ userId: survivorId }).where(inArray(voucherReminders.userId, duplicateIds));
+      await tx.update(messages).set({ userId: survivorId }).where(inArray(messages.userId, duplicateIds));
+      await tx.update(loginCodes).set({ userId: survivorId }).where(inArray(loginCodes.userId, duplicateIds));
+      await tx.update(revokedUserTokens).set({ userId: survivorId }).where(inArray(revokedUserTokens.userId, duplicateIds));
+      await tx.delete(users).where(inArray(users.id, duplicateIds));
+    });
   }
 };
@@ -0,0 +1,63 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { config } from "../config";
+
+// Players stay signed in as long as their session cookie would
+export const USER_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface UserTokenClaims {
+  sub: number; // User ID
+  jti: string; // Token ID, for revocation
+  exp: number; // Expiry, in milliseconds since the epoch
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", config.userTokenSecret).update(`user-token:${payload}`).digest("base64url");
+}
+
+// Signed tokens for clients whose cookies don't survive, sent back in the x-user-token
+// header. Any server instance can check them without shared memory.
+export function issueUserToken(userId: number): string {
+  const claims: UserTokenClaims = { sub: userId, jti: randomUUID(), exp: Date.now() + USER_TOKEN_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+// The token's claims if it was signed by us and hasn't expired; revocation isn't checked here
+function readUserToken(token: string): UserTokenClaims | undefined {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return undefined;
+  }
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (!Number.isInteger(claims?.sub) || typeof claims.jti !== "string" || typeof claims.exp !== "number") {
+      return undefined;
+    }
+    return claims.exp > Date.now() ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// The user a token was issued to, unless it is invalid, expired or signed out
+export async function verifyUserToken(token: string): Promise<number | undefined> {
+  const claims = readUserToken(token);
+  if (!claims || await storage.isUserTokenRevoked(claims.jti)) {
+    return undefined;
+  }
+  return claims.sub;
+}
+
+export async function revokeUserToken(token: string): Promise<void> {
+  const claims = readUserToken(token);
+  if (claims) {
+    await storage.revokeUserToken(claims.jti, claims.sub, new Date(claims.exp));
+  }
+}
@@ -0,0 +1,275 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { Settings, Language } from "@shared/schema";
+import { MerchantBranding } from "./storage";
+import { formatMessageDate } from "./notifications";
+
+export interface VoucherPdfData {
+  voucherCode: string;
+  voucherType: string; // Template name
+  discount: string;
+  validUntil: Date;
+  matchPercentage: number | null;
+  merchant: MerchantBranding | null;
+  // Signed link the QR code points merchants to
+  redemptionUrl: string;
+}
+
+export interface LoadedImage {
+  data: Uint8Array;
+  format: "PNG" | "JPEG";
+}
+
+export const DEFAULT_LOGO = "/images/mawadha-logo.png";
+
+const VOUCHER_TEXT: Record<Language, {
+  title: string;
+  tagline: string;
+  couplesDinner: string;
+  at: (merchant: string) => string;
+  validUntil: (date: string) => string;
+  compatibility: (percentage: number) => string;
+  scanToRedeem: string;
+  footer: string;
+}> = {
+  en: {
+    title: "MAWADHA",
+    tagline: "Be a better half",
+    couplesDinner: "COUPLES DINNER",
+    at: (merchant) => `at ${merchant}`,
+    validUntil: (date) => `Valid until: ${date}`,
+    compatibility: (percentage) => `Compatibility Score: ${percentage}%`,
+    scanToRedeem: "Scan to redeem",
+    footer: "This voucher was generated by the Mawadha Compatibility Challenge."
+  },
+  ar: {
+    title: "مودة",
+    tagline: "كن نصفاً أفضل",
+    couplesDinner: "عشاء للزوجين",
+    at: (merchant) => `لدى ${merchant}`,
+    validUntil: (date) => `صالحة حتى: ${date}`,
+    compatibility: (percentage) => `نسبة التوافق: ${percentage}%`,
+    scanToRedeem: "امسح للاستخدام",
+    footer: "تم إصدار هذه القسيمة من خلال تحدي التوافق من مودة."
+  }
+};
+
+// jsPDF's built-in fonts only cover Latin-1, so Arabic text is set in Amiri, which
+// has the Arabic presentation forms jsPDF shapes letters into
+const ARABIC_FONT = "Amiri";
+const ARABIC_FONT_FILES = {
+  normal: "@expo-google-fonts/amiri/400Regular/Amiri_400Regular.ttf",
+  bold: "@expo-google-fonts/amiri/700Bold/Amiri_700Bold.ttf"
+} as const;
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+type ArabicFonts = Record<keyof typeof ARABIC_FONT_FILES, string>;
+
+// Font files read once, base64 encoded as jsPDF takes them
+let arabicFonts: Promise<ArabicFonts> | null = null;
+
+function loadArabicFonts() {
+  if (!arabicFonts) {
+    const require = createRequire(import.meta.url);
+    const read = (file: string) => fs.promises.readFile(require.resolve(file)).then((data) => data.toString("base64"));
+    arabicFonts = Promise.all([read(ARABIC_FONT_FILES.normal), read(ARABIC_FONT_FILES.bold)])
+      .then(([normal, bold]) => ({ normal, bold }));
+    arabicFonts.catch(() => { arabicFonts = null; });
+  }
+  return arabicFonts;
+}
+
+// Renders the voucher on the server so it looks the same on every device, in the
+// player's language. Names in Arabic script are printed in either language.
+export async function renderVoucherPdf(voucher: VoucherPdfData, settings: Settings, language: Language = "en"): Promise<Buffer> {
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: "a5",
+    compress: true
+  });
+  const text = VOUCHER_TEXT[language];
+  const rtl = language === "ar";
+
+  const drawText = (value: string, x: number, y: number, fontSize: number, fontStyle: "normal" | "bold" | "italic") =>
+    drawLine(doc, value, x, y, fontSize, fontStyle, rtl);
+
+  // Setup the voucher dimensions
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 10;
+  const contentWidth = pageWidth - (margin * 2);
+  const contentHeight = pageHeight - (margin * 2);
+
+  const primary = hexToRgb(settings.primaryColor);
+  const secondary = hexToRgb(settings.secondaryColor);
+
+  // Gradient from the primary colour down to a lighter tint of it
+  for (let y = 0; y < pageHeight; y += 0.5) {
+    const alpha = 1 - (y / pageHeight) * 0.5;
+    doc.setFillColor(
+      Math.round(primary.r * alpha + 255 * (1 - alpha)),
+      Math.round(primary.g * alpha + 255 * (1 - alpha)),
+      Math.round(primary.b * alpha + 255 * (1 - alpha))
+    );
+    doc.rect(0, y, pageWidth, 0.5, "F");
+  }
+
+  // Borders in the secondary colour
+  doc.setDrawColor(secondary.r, secondary.g, secondary.b);
+  doc.setLineWidth(1.5);
+  doc.roundedRect(margin, margin, contentWidth, contentHeight, 5, 5, "S");
+  doc.setLineWidth(0.75);
+  doc.roundedRect(margin + 5, margin + 5, contentWidth - 10, contentHeight - 10, 3, 3, "S");
+
+  // Mawadha logo
+  doc.setFillColor(255, 255, 255);
+  doc.circle(pageWidth / 2, margin + 20, 12, "F");
+  const logo = await loadImage(settings.logoUrl || DEFAULT_LOGO);
+  if (logo) {
+    drawImageCentered(doc, logo, pageWidth / 2, margin + 20, 16);
+  }
+
+  doc.setTextColor(255, 255, 255);
+  await drawText(text.title, pageWidth / 2, margin + 42, 24, "bold");
+  await drawText(text.tagline, pageWidth / 2, margin + 49, 12, "italic");
+
+  doc.setDrawColor(255, 255, 255);
+  doc.setLineWidth(0.5);
+  doc.line(pageWidth / 2 - 30, margin + 52, pageWidth / 2 + 30, margin + 52);
+
+  await drawText(voucher.discount, pageWidth / 2, margin + 65, 28, "bold");
+  await drawText(printable(voucher.voucherType)?.toUpperCase() ?? text.couplesDinner, pageWidth / 2, margin + 73, 13, "normal");
+
+  // Where the voucher can be used
+  const merchantName = voucher.merchant && printable(voucher.merchant.name);
+  if (merchantName) {
+    await drawText(text.at(merchantName), pageWidth / 2, margin + 79, 11, "bold");
+    const address = voucher.merchant?.address && printable(voucher.merchant.address);
+    if (address) {
+      await drawText(address, pageWidth / 2, margin + 84, 8, "normal");
+    }
+  }
+
+  // Voucher code in a box
+  const codeBoxY = margin + 87;
+  doc.setFillColor(
+    Math.round(255 * 0.1 + primary.r * 0.9),
+    Math.round(255 * 0.1 + primary.g * 0.9),
+    Math.round(255 * 0.1 + primary.b * 0.9)
+  );
+  doc.roundedRect(pageWidth / 2 - 40, codeBoxY, 80, 12, 2, 2, "FD");
+  doc.setFont("courier", "bold");
+  doc.setFontSize(14);
+  doc.text(voucher.voucherCode, pageWidth / 2, codeBoxY + 8, { align: "center" });
+
+  await drawText(text.validUntil(formatMessageDate(voucher.validUntil, language)), pageWidth / 2, codeBoxY + 17, 10, "normal");
+  if (voucher.matchPercentage !== null) {
+    await drawText(text.compatibility(voucher.matchPercentage), pageWidth / 2, codeBoxY + 22, 10, "normal");
+  }
+
+  // QR code for the merchant to scan, on a white tile so it stays readable
+  const qrSize = 30;
+  const qrX = pageWidth - margin - 10 - qrSize;
+  const qrY = pageHeight / 2 - qrSize / 2 + 10;
+  const qr = await QRCode.toDataURL(voucher.redemptionUrl, { margin: 1, width: 400, errorCorrectionLevel: "M" });
+  doc.setFillColor(255, 255, 255);
+  doc.roundedRect(qrX - 2, qrY - 2, qrSize + 4, qrSize + 4, 2, 2, "F");
+  doc.addImage(qr, "PNG", qrX, qrY, qrSize, qrSize);
+  await drawText(text.scanToRedeem, qrX + qrSize / 2, qrY + qrSize + 6, 7, "normal");
+
+  // Merchant logo balancing the QR code on the left
+  const merchantLogo = voucher.merchant?.logoUrl ? await loadImage(voucher.merchant.logoUrl) : null;
+  if (merchantLogo) {
+    const merchantX = margin + 10;
+    doc.setFillColor(255, 255, 255);
+    doc.roundedRect(merchantX - 2, qrY - 2, qrSize + 4, qrSize + 4, 2, 2, "F");
+    drawImageCentered(doc, merchantLogo, merchantX + qrSize / 2, qrY + qrSize / 2, qrSize);
+  }
+
+  await drawText(text.footer, pageWidth / 2, pageHeight - margin - 10, 7, "italic");
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+// Arabic is shaped by jsPDF, then reordered from reading order into the left-to-right
+// order the PDF draws glyphs in. rtl sets the direction of the line as a whole.
+async function drawLine(
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  fontSize: number,
+  fontStyle: "normal" | "bold" | "italic",
+  rtl: boolean
+) {
+  doc.setFontSize(fontSize);
+  if (!rtl && !ARABIC_PATTERN.test(text)) {
+    doc.setFont("helvetica", fontStyle);
+    doc.text(text, x, y, { align: "center" });
+    return;
+  }
+  // Amiri has no italic here. It is loaded and embedded only once a line needs it, so Latin-only
+  // vouchers stay small and still render if the font can't be read.
+  const style = fontStyle === "bold" ? "bold" : "normal";
+  if (!doc.getFontList()[ARABIC_FONT]?.includes(style)) {
+    const fonts = await loadArabicFonts();
+    doc.addFileToVFS(`${ARABIC_FONT}-${style}.ttf`, fonts[style]);
+    doc.addFont(`${ARABIC_FONT}-${style}.ttf`, ARABIC_FONT, style);
+  }
+  doc.setFont(ARABIC_FONT, style);
+  doc.text(text, x, y, { align: "center", isInputVisual: false, isOutputVisual: true, isInputRtl: rtl, isOutputRtl: false });
+}
+
+// Draws an image scaled to fit a square box, keeping its aspect ratio
+function drawImageCentered(doc: jsPDF, image: LoadedImage, centerX: number, centerY: number, boxSize: number) {
+  const { width, height } = doc.getImageProperties(image.data);
+  const scale = boxSize / Math.max(width, height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  doc.addImage(image.data, image.format, centerX - drawWidth / 2, centerY - drawHeight / 2, drawWidth, drawHeight, undefined, "FAST");
+}
+
+// Latin-1 and Arabic are the scripts the voucher fonts cover
+function printable(text: string): string | null {
+  const trimmed = text.trim();
+  return trimmed && /^[ -ÿ\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]+$/.test(trimmed) ? trimmed : null;
+}
+
+// Well above the 2MB upload limit, so only stray files are skipped
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+// Reads an uploaded image (or a bundled one such as the default logo) from the public
+// directory. Logo URLs are set by admins, but other hosts are never fetched, so a URL
+// can't point the server at an internal address or keep a download waiting on a slow host.
+// Only PNG and JPEG can be embedded; anything else is skipped.
+export async function loadImage(url: string): Promise<LoadedImage | null> {
+  try {
+    if (!url.startsWith("/") || url.startsWith("//")) return null;
+    const publicDir = path.join(process.cwd(), "public");
+    const filePath = path.join(publicDir, url);
+    if (!filePath.startsWith(publicDir + path.sep)) return null;
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (!stats?.isFile() || stats.size > MAX_IMAGE_BYTES) return null;
+    const data = new Uint8Array(await fs.promises.readFile(filePath));
+
+    if (data[0] === 0x89 && data[1] === 0x50) return { data, format: "PNG" };
+    if (data[0] === 0xff && data[1] === 0xd8) return { data, format: "JPEG" };
+    return null;
+  } catch (error) {
+    console.error(`Error loading voucher image ${url}:`, error);
+    return null;
+  }
+}
+
+export function hexToRgb(hex: string) {
+  const value = hex.replace("#", "");
+  return {
+    r: parseInt(value.substring(0, 2), 16),
+    g: parseInt(value.substring(2, 4), 16),
+    b: parseInt(value.substring(4, 6), 16)
+  };
+}
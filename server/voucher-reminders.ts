@@ -0,0 +1,97 @@
+import { storage, VoucherReminderCandidate } from "./storage";
+import { messageService, bilingualMessage, formatMessageDate } from "./notifications";
+import { log } from "./vite";
+import { VOUCHER_REMINDER_DAYS } from "@shared/schema";
+
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+// Reminders sent per run; the rest wait for the next one
+const DELIVERY_BATCH_SIZE = 100;
+// Sends tried before a reminder is marked as failed
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+function reminderMessage(candidate: VoucherReminderCandidate): string {
+  const whereEn = candidate.merchantName ? ` at ${candidate.merchantName}` : "";
+  const whereAr = candidate.merchantName ? ` لدى ${candidate.merchantName}` : "";
+
+  return bilingualMessage(
+    `Hi ${candidate.userName}, your Mawadha voucher ${candidate.voucherCode} for ${candidate.discount}${whereEn} expires on ${formatMessageDate(candidate.validUntil, "en")}. Don't forget to use it!`,
+    `مرحباً ${candidate.userName}، تنتهي صلاحية قسيمة مودة ${candidate.voucherCode} بقيمة ${candidate.discount}${whereAr} في ${formatMessageDate(candidate.validUntil, "ar")}. لا تنسَ استخدامها!`
+  );
+}
+
+// Queue a reminder for every player whose unused voucher has reached a reminder point.
+// Only the most urgent reminder is queued, so a voucher found with a day left isn't
+// also announced as having a week left.
+async function queueReminders(): Promise<number> {
+  const days = [...VOUCHER_REMINDER_DAYS].sort((a, b) => a - b);
+  let queued = 0;
+  for (let index = 0; index < days.length; index++) {
+    const daysBefore = days[index];
+    const laterThanDays = index > 0 ? days[index - 1] : 0;
+    const candidates = await storage.getVoucherReminderCandidates(daysBefore, laterThanDays);
+    queued += await storage.queueVoucherReminders(candidates.map((candidate) => ({
+      voucherId: candidate.voucherId,
+      userId: candidate.userId,
+      daysBefore,
+      recipient: candidate.whatsappNumber,
+      message: reminderMessage(candidate),
+      templateParameters: [candidate.userName, candidate.voucherCode, candidate.discount, formatMessageDate(candidate.validUntil, "en")]
+    })));
+  }
+  return queued;
+}
+
+async function deliverReminders(): Promise<number> {
+  const reminders = await storage.getPendingVoucherReminders(DELIVERY_BATCH_SIZE);
+  let sent = 0;
+
+  for (const reminder of reminders) {
+    // The voucher may have been used or withdrawn since the reminder was queued
+    if (reminder.voucher.redeemedAt || reminder.voucher.revokedAt) {
+      await storage.updateVoucherReminder(reminder.id, { status: "cancelled" });
+      continue;
+    }
+
+    const attempts = reminder.attempts + 1;
+    const message = await messageService.send({
+      kind: "voucher_reminder",
+      to: reminder.recipient,
+      body: reminder.message,
+      parameters: reminder.templateParameters,
+      userId: reminder.userId,
+      sessionId: reminder.voucher.sessionId,
+      voucherId: reminder.voucherId
+    });
+    if (message.status === "failed") {
+      await storage.updateVoucherReminder(reminder.id, {
+        status: attempts >= MAX_DELIVERY_ATTEMPTS ? "failed" : "pending",
+        attempts,
+        lastError: message.error
+      });
+    } else {
+      await storage.updateVoucherReminder(reminder.id, { status: "sent", attempts, lastError: null, sentAt: new Date() });
+      sent++;
+    }
+  }
+  return sent;
+}
+
+async function run() {
+  try {
+    const queued = await queueReminders();
+    const sent = await deliverReminders();
+    if (queued > 0 || sent > 0) {
+      log(`queued ${queued} and sent ${sent} voucher reminder(s)`, "reminders");
+    }
+  } catch (error) {
+    console.error("Error sending voucher reminders:", error);
+  }
+}
+
+// Periodically remind players of vouchers that are about to expire unused
+export function startVoucherReminders() {
+  run();
+  const timer = setInterval(run, REMINDER_INTERVAL_MS);
+  // Don't keep the process alive just for the reminders
+  timer.unref();
+}
@@ -0,0 +1,398 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { storage, MerchantBranding, VoucherWithMerchant, VoucherWithDetails, EligibleCouponTemplate } from "./storage";
+import { Voucher, VoucherStatus, CouponTemplate } from "@shared/schema";
+import { messageService, bilingualMessage, formatMessageDate } from "./notifications";
+import { csvRow } from "./csv";
+import { config } from "../config";
+
+export type { VoucherStatus };
+
+export interface VoucherLookup {
+  voucherCode: string;
+  voucherType: string;
+  discount: string;
+  validUntil: string;
+  status: VoucherStatus;
+  redeemedAt: string | null;
+  redeemedBy: string | null;
+}
+
+// A voucher as handed to the players on the results page
+export interface IssuedVoucher {
+  voucherId: number;
+  voucherCode: string;
+  discount: string;
+  validUntil: string;
+  // Business that honours the voucher, printed on the PDF
+  merchant: {
+    name: string;
+    logoUrl: string | null;
+    address: string | null;
+  } | null;
+}
+
+// Why a template that covers a score would or wouldn't issue right now
+export type TemplateAvailability = "available" | "not_started" | "ended" | "sold_out" | "daily_cap_reached";
+
+export interface TemplatePreview {
+  matchPercentage: number;
+  // Template a session with this score would receive now, if any
+  template: { id: number; name: string; discount: string; isConsolation: boolean } | null;
+  // Every template covering the score, in the order they are tried
+  candidates: {
+    id: number;
+    name: string;
+    priority: number;
+    isConsolation: boolean;
+    availability: TemplateAvailability;
+  }[];
+}
+
+// What anyone holding a voucher can check about it
+export interface VoucherVerification {
+  voucherCode: string;
+  voucherType: string;
+  discount: string;
+  validUntil: string;
+  status: VoucherStatus;
+  merchantName: string | null;
+}
+
+// A voucher as listed and exported in the admin area
+export interface AdminVoucher {
+  id: number;
+  voucherCode: string;
+  sessionCode: string;
+  voucherType: string;
+  discount: string;
+  merchantName: string | null;
+  status: VoucherStatus;
+  createdAt: string;
+  validUntil: string;
+  downloaded: boolean;
+  redeemedAt: string | null;
+  redeemedBy: string | null;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  // Code of the voucher issued to replace this one
+  reissuedAs: string | null;
+}
+
+export type RedeemResult =
+  | { outcome: "redeemed"; voucher: VoucherLookup }
+  | { outcome: "not_found" }
+  | { outcome: "already_redeemed"; voucher: VoucherLookup }
+  | { outcome: "revoked"; voucher: VoucherLookup }
+  | { outcome: "expired"; voucher: VoucherLookup };
+
+export function toIssuedVoucher(voucher: Voucher, merchant: MerchantBranding | null): IssuedVoucher {
+  return {
+    voucherId: voucher.id,
+    voucherCode: voucher.voucherCode,
+    discount: voucher.discount,
+    validUntil: voucher.validUntil.toISOString(),
+    merchant: merchant ? { name: merchant.name, logoUrl: merchant.logoUrl, address: merchant.address } : null
+  };
+}
+
+export function formatTemplateDiscount(template: CouponTemplate): string {
+  if (template.discountType === "percentage") {
+    return `${template.discountValue}% OFF`;
+  }
+  // Use the currency if provided, otherwise default to AED
+  const currency = template.currency || "AED";
+  return `${currency} ${template.discountValue} OFF`;
+}
+
+// Mirrors the conditions of claimCouponTemplate in storage without taking any inventory
+function templateAvailability(template: EligibleCouponTemplate, now: Date): TemplateAvailability {
+  if (template.startsAt && template.startsAt > now) return "not_started";
+  if (template.endsAt && template.endsAt <= now) return "ended";
+  if (template.maxIssuance !== null && template.issuedCount >= template.maxIssuance) return "sold_out";
+  if (template.dailyCap !== null && template.issuedToday >= template.dailyCap) return "daily_cap_reached";
+  return "available";
+}
+
+// Voucher codes look like MAWADHA-7KQ2M9XD-4HTR: eight random characters followed by a
+// tag derived from them with an HMAC, so a forged or mistyped code can be rejected
+// without a database lookup. Characters that are easy to confuse (I, L, O, U) are left out.
+const CODE_PREFIX = "MAWADHA-";
+const CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CODE_BODY_LENGTH = 8;
+const CODE_TAG_LENGTH = 4;
+const SIGNED_CODE_PATTERN = new RegExp(`^${CODE_PREFIX}([${CODE_ALPHABET}]{${CODE_BODY_LENGTH}})-([${CODE_ALPHABET}]{${CODE_TAG_LENGTH}})$`);
+// Codes issued before tags were added: MAWADHA- and a six character nanoid
+const LEGACY_CODE_PATTERN = /^MAWADHA-[A-Z0-9_-]{6}$/;
+
+function codeTag(body: string): string {
+  const digest = createHmac("sha256", config.voucherSigningSecret).update(`voucher-code:${body}`).digest();
+  // The alphabet has 32 characters, so each byte maps onto it evenly
+  return Array.from(digest.subarray(0, CODE_TAG_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+export function generateVoucherCode(): string {
+  const body = Array.from({ length: CODE_BODY_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+  return `${CODE_PREFIX}${body}-${codeTag(body)}`;
+}
+
+// Times to draw a new voucher code if the generated one already exists
+const VOUCHER_CODE_ATTEMPTS = 3;
+
+// Stores a voucher under a freshly generated code, drawing another in the unlikely event one is already taken
+export async function withNewVoucherCode<T>(create: (voucherCode: string) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await create(generateVoucherCode());
+    } catch (error) {
+      const isCodeCollision = error && typeof error === 'object' && 'code' in error && error.code === '23505';
+      if (!isCodeCollision || attempt >= VOUCHER_CODE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Whether a code could have been issued by us. Tagged codes are checked without touching the
+// database; legacy codes can only be checked by looking them up.
+export function isPlausibleVoucherCode(voucherCode: string): boolean {
+  const signed = SIGNED_CODE_PATTERN.exec(voucherCode);
+  if (signed) {
+    const expected = Buffer.from(codeTag(signed[1]));
+    return timingSafeEqual(expected, Buffer.from(signed[2]));
+  }
+  return LEGACY_CODE_PATTERN.test(voucherCode);
+}
+
+// Signature printed with a voucher's redemption link, so a link can't be edited to point at another code
+export function signVoucherCode(voucherCode: string): string {
+  return createHmac("sha256", config.voucherSigningSecret)
+    .update(voucherCode)
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+export function verifyVoucherSignature(voucherCode: string, signature: string): boolean {
+  const expected = Buffer.from(signVoucherCode(voucherCode));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// Link a merchant opens by scanning the voucher's QR code
+export function redemptionUrl(baseUrl: string, voucherCode: string): string {
+  const params = new URLSearchParams({ code: voucherCode, sig: signVoucherCode(voucherCode) });
+  return `${baseUrl.replace(/\/$/, "")}/merchant?${params}`;
+}
+
+// Codes are printed in upper case, but merchants may type them any way
+function normalizeCode(voucherCode: string): string {
+  return voucherCode.trim().toUpperCase();
+}
+
+function voucherStatus(voucher: Voucher): VoucherStatus {
+  if (voucher.revokedAt) return "revoked";
+  if (voucher.redeemedAt) return "redeemed";
+  if (voucher.validUntil < new Date()) return "expired";
+  return "valid";
+}
+
+function toLookup(voucher: Voucher): VoucherLookup {
+  return {
+    voucherCode: voucher.voucherCode,
+    voucherType: voucher.voucherType,
+    discount: voucher.discount,
+    validUntil: voucher.validUntil.toISOString(),
+    status: voucherStatus(voucher),
+    redeemedAt: voucher.redeemedAt ? voucher.redeemedAt.toISOString() : null,
+    redeemedBy: voucher.redeemedBy
+  };
+}
+
+function toAdminVoucher(voucher: VoucherWithDetails): AdminVoucher {
+  return {
+    id: voucher.id,
+    voucherCode: voucher.voucherCode,
+    sessionCode: voucher.session.sessionCode,
+    voucherType: voucher.voucherType,
+    discount: voucher.discount,
+    merchantName: voucher.template?.merchant?.name ?? null,
+    status: voucherStatus(voucher),
+    createdAt: voucher.createdAt.toISOString(),
+    validUntil: voucher.validUntil.toISOString(),
+    downloaded: Boolean(voucher.downloaded),
+    redeemedAt: voucher.redeemedAt ? voucher.redeemedAt.toISOString() : null,
+    redeemedBy: voucher.redeemedBy,
+    revokedAt: voucher.revokedAt ? voucher.revokedAt.toISOString() : null,
+    revokedReason: voucher.revokedReason,
+    reissuedAs: voucher.reissuedAs?.voucherCode ?? null
+  };
+}
+
+const CSV_COLUMNS: [keyof AdminVoucher, string][] = [
+  ["voucherCode", "Voucher Code"],
+  ["sessionCode", "Session Code"],
+  ["voucherType", "Voucher Type"],
+  ["discount", "Discount"],
+  ["merchantName", "Merchant"],
+  ["status", "Status"],
+  ["createdAt", "Issued At"],
+  ["validUntil", "Valid Until"],
+  ["downloaded", "Downloaded"],
+  ["redeemedAt", "Redeemed At"],
+  ["redeemedBy", "Redeemed By"],
+  ["revokedAt", "Revoked At"],
+  ["revokedReason", "Revoke Reason"],
+  ["reissuedAs", "Reissued As"]
+];
+
+async function findVoucher(voucherCode: string): Promise<VoucherWithMerchant | undefined> {
+  const code = normalizeCode(voucherCode);
+  if (!isPlausibleVoucherCode(code)) {
+    return undefined;
+  }
+  return storage.getVoucherByCode(code);
+}
+
+// Merchants only ever see vouchers issued against their own templates; anything else
+// is reported as not found so codes from other businesses aren't revealed
+async function findMerchantVoucher(voucherCode: string, merchantId: number): Promise<VoucherWithMerchant | undefined> {
+  const voucher = await findVoucher(voucherCode);
+  if (!voucher || voucher.template?.merchantId !== merchantId) {
+    return undefined;
+  }
+  return voucher;
+}
+
+export const voucherService = {
+  async list(page: number, limit: number, search: string, status: VoucherStatus | ""): Promise<{ vouchers: AdminVoucher[]; total: number }> {
+    const vouchers = await storage.getVouchers(limit, (page - 1) * limit, search, status);
+    const total = await storage.getTotalVouchers(search, status);
+    return { vouchers: vouchers.map(toAdminVoucher), total };
+  },
+
+  // Every voucher matching the filters, as a CSV file
+  async exportCsv(search: string, status: VoucherStatus | ""): Promise<string> {
+    const vouchers = (await storage.getVouchers(undefined, 0, search, status)).map(toAdminVoucher);
+    const rows = [
+      csvRow(CSV_COLUMNS.map(([, header]) => header)),
+      ...vouchers.map((voucher) => csvRow(CSV_COLUMNS.map(([key]) => voucher[key])))
+    ];
+    return rows.join("\r\n");
+  },
+
+  // Send a newly issued voucher to every player of the session on WhatsApp, with a link back
+  // to the results page where it can be downloaded
+  async deliver(sessionId: number, voucher: IssuedVoucher, resultsUrl: string): Promise<void> {
+    const validUntil = new Date(voucher.validUntil);
+    const whereEn = voucher.merchant ? ` at ${voucher.merchant.name}` : "";
+    const whereAr = voucher.merchant ? ` لدى ${voucher.merchant.name}` : "";
+    const body = bilingualMessage(
+      `Congratulations! Your Mawadha voucher for ${voucher.discount}${whereEn} is ready.\nCode: ${voucher.voucherCode}\nValid until: ${formatMessageDate(validUntil, "en")}\nDownload it here: ${resultsUrl}`,
+      `مبروك! قسيمة مودة بقيمة ${voucher.discount}${whereAr} جاهزة.\nالرمز: ${voucher.voucherCode}\nصالحة حتى: ${formatMessageDate(validUntil, "ar")}\nحمّلها من هنا: ${resultsUrl}`
+    );
+
+    const participants = await storage.getSessionParticipants(sessionId);
+    for (const participant of participants) {
+      await messageService.send({
+        kind: "voucher",
+        to: participant.whatsappNumber,
+        body,
+        parameters: [voucher.discount, voucher.voucherCode, formatMessageDate(validUntil, "en"), resultsUrl],
+        userId: participant.id,
+        sessionId,
+        voucherId: voucher.voucherId
+      });
+    }
+  },
+
+  // Returns the vouchers that were revoked; already redeemed or revoked ones are skipped
+  async revoke(voucherIds: number[], reason: string): Promise<Voucher[]> {
+    const revoked = await storage.revokeVouchers(voucherIds, reason);
+    console.log(`Revoked ${revoked.length} voucher(s): ${reason}`);
+    return revoked;
+  },
+
+  // Replaces a voucher with one under a new code, e.g. when the old code was leaked.
+  // The replacement keeps the original expiry; returns null if the voucher can't be reissued.
+  async reissue(voucherId: number, reason: string): Promise<Voucher | null> {
+    const replacement = await withNewVoucherCode((voucherCode) => storage.reissueVoucher(voucherId, voucherCode, reason));
+    if (replacement) {
+      console.log(`Voucher ${voucherId} reissued as ${replacement.voucherCode}: ${reason}`);
+    }
+    return replacement ?? null;
+  },
+
+  // Returns the vouchers that were extended; used, revoked and later-expiring ones are skipped
+  async extend(voucherIds: number[], validUntil: Date): Promise<Voucher[]> {
+    return storage.extendVouchers(voucherIds, validUntil);
+  },
+
+  // Which template a given score would receive, for checking tier setups in the admin area
+  async previewTemplate(matchPercentage: number): Promise<TemplatePreview> {
+    const now = new Date();
+    const candidates = (await storage.getEligibleCouponTemplates(matchPercentage)).map((template) => ({
+      template,
+      availability: templateAvailability(template, now)
+    }));
+    const chosen = candidates.find((candidate) => candidate.availability === "available")?.template;
+
+    return {
+      matchPercentage,
+      template: chosen
+        ? { id: chosen.id, name: chosen.name, discount: formatTemplateDiscount(chosen), isConsolation: chosen.isConsolation }
+        : null,
+      candidates: candidates.map(({ template, availability }) => ({
+        id: template.id,
+        name: template.name,
+        priority: template.priority,
+        isConsolation: template.isConsolation,
+        availability
+      }))
+    };
+  },
+
+  async lookup(voucherCode: string, merchantId: number): Promise<VoucherLookup | null> {
+    const voucher = await findMerchantVoucher(voucherCode, merchantId);
+    return voucher ? toLookup(voucher) : null;
+  },
+
+  // Details of a genuinely issued voucher, or null for codes we never issued
+  async verify(voucherCode: string): Promise<VoucherVerification | null> {
+    const voucher = await findVoucher(voucherCode);
+    if (!voucher) {
+      return null;
+    }
+    return {
+      voucherCode: voucher.voucherCode,
+      voucherType: voucher.voucherType,
+      discount: voucher.discount,
+      validUntil: voucher.validUntil.toISOString(),
+      status: voucherStatus(voucher),
+      merchantName: voucher.template?.merchant?.name ?? null
+    };
+  },
+
+  // Mark a voucher as used by a merchant. Each voucher can be redeemed exactly once,
+  // and only before it expires.
+  async redeem(voucherCode: string, merchant: { id: number; name: string }): Promise<RedeemResult> {
+    const voucher = await findMerchantVoucher(voucherCode, merchant.id);
+    if (!voucher) {
+      return { outcome: "not_found" };
+    }
+
+    const redeemed = await storage.redeemVoucher(voucher.id, merchant.name);
+    if (redeemed) {
+      console.log(`Voucher ${redeemed.voucherCode} redeemed by ${merchant.name}`);
+      return { outcome: "redeemed", voucher: toLookup(redeemed) };
+    }
+
+    // The conditional update refused it; re-read to report why
+    const current = (await storage.getVoucherByCode(voucher.voucherCode)) ?? voucher;
+    if (current.revokedAt) {
+      return { outcome: "revoked", voucher: toLookup(current) };
+    }
+    if (current.redeemedAt) {
+      return { outcome: "already_redeemed", voucher: toLookup(current) };
+    }
+    return { outcome: "expired", voucher: toLookup(current) };
+  }
+};
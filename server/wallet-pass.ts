@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import fs from "fs";
+import JSZip from "jszip";
+import forge from "node-forge";
+import { Settings } from "@shared/schema";
+import { MerchantBranding } from "./storage";
+import { loadImage, hexToRgb, DEFAULT_LOGO } from "./voucher-pdf";
+import { config } from "../config";
+
+export interface WalletPassData {
+  voucherCode: string;
+  voucherType: string; // Template name
+  discount: string;
+  validUntil: Date;
+  redeemed: boolean;
+  merchant: MerchantBranding | null;
+  // Signed link the barcode points merchants to
+  redemptionUrl: string;
+}
+
+const ICON = "/images/mawadha-icon.png";
+
+interface SigningIdentity {
+  certificate: forge.pki.Certificate;
+  key: forge.pki.PrivateKey;
+  wwdrCertificate: forge.pki.Certificate;
+}
+
+let signingIdentity: SigningIdentity | null = null;
+
+export function isWalletPassConfigured(): boolean {
+  const { passTypeIdentifier, teamIdentifier, certificatePath, keyPath, wwdrCertificatePath } = config.walletPass;
+  return Boolean(passTypeIdentifier && teamIdentifier && certificatePath && keyPath && wwdrCertificatePath);
+}
+
+// Certificates are read once, on the first pass generated
+function getSigningIdentity(): SigningIdentity {
+  if (!signingIdentity) {
+    const { certificatePath, keyPath, keyPassphrase, wwdrCertificatePath } = config.walletPass;
+    const keyPem = fs.readFileSync(keyPath!, "utf8");
+    const key = keyPassphrase
+      ? forge.pki.decryptRsaPrivateKey(keyPem, keyPassphrase)
+      : forge.pki.privateKeyFromPem(keyPem);
+    if (!key) {
+      throw new Error("Could not decrypt the wallet pass private key");
+    }
+    signingIdentity = {
+      certificate: forge.pki.certificateFromPem(fs.readFileSync(certificatePath!, "utf8")),
+      key,
+      wwdrCertificate: forge.pki.certificateFromPem(fs.readFileSync(wwdrCertificatePath!, "utf8"))
+    };
+  }
+  return signingIdentity;
+}
+
+// Builds a signed .pkpass bundle: pass.json and images, a manifest of their SHA-1
+// hashes, and a detached PKCS #7 signature of the manifest
+export async function generateWalletPass(voucher: WalletPassData, settings: Settings): Promise<Buffer> {
+  if (!isWalletPassConfigured()) {
+    throw new Error("Wallet passes are not configured");
+  }
+
+  const files: Record<string, Buffer> = {
+    "pass.json": Buffer.from(JSON.stringify(buildPassJson(voucher, settings)))
+  };
+
+  const icon = await loadImage(ICON);
+  const logo = await loadImage(settings.logoUrl || DEFAULT_LOGO);
+  if (icon?.format === "PNG") {
+    files["icon.png"] = Buffer.from(icon.data);
+  }
+  if (logo?.format === "PNG") {
+    files["logo.png"] = Buffer.from(logo.data);
+  }
+
+  const manifest: Record<string, string> = {};
+  for (const [name, content] of Object.entries(files)) {
+    manifest[name] = crypto.createHash("sha1").update(content).digest("hex");
+  }
+  const manifestJson = JSON.stringify(manifest);
+
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  zip.file("manifest.json", manifestJson);
+  zip.file("signature", signManifest(manifestJson));
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+function buildPassJson(voucher: WalletPassData, settings: Settings) {
+  const primary = hexToRgb(settings.primaryColor);
+  const merchantField = voucher.merchant
+    ? [{ key: "merchant", label: "WHERE", value: voucher.merchant.name }]
+    : [];
+  const addressField = voucher.merchant?.address
+    ? [{ key: "address", label: "Address", value: voucher.merchant.address }]
+    : [];
+
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: config.walletPass.passTypeIdentifier,
+    teamIdentifier: config.walletPass.teamIdentifier,
+    serialNumber: voucher.voucherCode,
+    organizationName: "Mawadha",
+    description: `Mawadha voucher: ${voucher.discount}`,
+    logoText: "Mawadha",
+    backgroundColor: `rgb(${primary.r}, ${primary.g}, ${primary.b})`,
+    foregroundColor: "rgb(255, 255, 255)",
+    labelColor: "rgb(255, 255, 255)",
+    expirationDate: voucher.validUntil.toISOString(),
+    voided: voucher.redeemed,
+    barcodes: [{
+      format: "PKBarcodeFormatQR",
+      message: voucher.redemptionUrl,
+      messageEncoding: "iso-8859-1",
+      altText: voucher.voucherCode
+    }],
+    coupon: {
+      primaryFields: [{ key: "discount", label: "OFFER", value: voucher.discount }],
+      secondaryFields: [{ key: "type", label: "VOUCHER", value: voucher.voucherType }, ...merchantField],
+      auxiliaryFields: [{
+        key: "expires",
+        label: "VALID UNTIL",
+        value: voucher.validUntil.toISOString(),
+        dateStyle: "PKDateStyleMedium",
+        isRelative: false
+      }],
+      backFields: [
+        { key: "code", label: "Voucher code", value: voucher.voucherCode },
+        ...addressField,
+        { key: "terms", label: "Terms", value: "Valid once, at the partner shown, until the date above. Show this pass when paying." }
+      ]
+    }
+  };
+}
+
+function signManifest(manifestJson: string): Buffer {
+  const { certificate, key, wwdrCertificate } = getSigningIdentity();
+
+  const signedData = forge.pkcs7.createSignedData();
+  signedData.content = forge.util.createBuffer(manifestJson, "utf8");
+  signedData.addCertificate(certificate);
+  signedData.addCertificate(wwdrCertificate);
+  signedData.addSigner({
+    key: key as forge.pki.rsa.PrivateKey,
+    certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime }
+    ]
+  });
+  signedData.sign({ detached: true });
+
+  return Buffer.from(forge.asn1.toDer(signedData.toAsn1()).getBytes(), "binary");
+}
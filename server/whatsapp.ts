@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { NotificationProvider, OutgoingMessage } from "./notifications";
+import { MessageStatus } from "@shared/schema";
+import { config } from "../config";
+
+export function isWhatsAppConfigured(): boolean {
+  return Boolean(config.whatsapp.phoneNumberId && config.whatsapp.accessToken);
+}
+
+function templateComponents(message: OutgoingMessage) {
+  const text = (value: string) => ({ type: "text", text: value });
+  const components: object[] = [{ type: "body", parameters: message.parameters.map(text) }];
+  // Authentication templates also pass the code to their copy-code button
+  if (message.template === "login_code") {
+    components.push({ type: "button", sub_type: "url", index: "0", parameters: message.parameters.slice(0, 1).map(text) });
+  }
+  return components;
+}
+
+// Sends messages through the WhatsApp Business Cloud API. WhatsApp only delivers free-form
+// text inside a conversation the player opened in the last 24 hours, and these messages
+// usually start one, so each is sent as its approved template.
+export const whatsAppProvider: NotificationProvider = {
+  name: "whatsapp",
+  async send(message) {
+    if (!isWhatsAppConfigured()) {
+      throw new Error("WhatsApp is not configured");
+    }
+
+    const response = await fetch(`${config.whatsapp.apiUrl}/${config.whatsapp.phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.whatsapp.accessToken}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        recipient_type: "individual",
+        to: message.to.replace(/^\+/, ""),
+        type: "template",
+        template: {
+          name: config.whatsapp.templates[message.template],
+          language: { code: config.whatsapp.templateLanguage },
+          components: templateComponents(message)
+        }
+      })
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.error?.message ?? `WhatsApp API responded with ${response.status}`);
+    }
+    return { providerMessageId: data?.messages?.[0]?.id ?? null };
+  }
+};
+
+// Webhook requests are signed with the app secret over the raw request body
+export function verifyWebhookSignature(rawBody: Buffer, signatureHeader: string | undefined): boolean {
+  if (!config.whatsapp.appSecret || !signatureHeader?.startsWith("sha256=")) {
+    return false;
+  }
+  const expected = Buffer.from(createHmac("sha256", config.whatsapp.appSecret).update(rawBody).digest("hex"));
+  const given = Buffer.from(signatureHeader.slice("sha256=".length));
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export interface StatusUpdate {
+  providerMessageId: string;
+  status: MessageStatus;
+  error: string | null;
+}
+
+// The parts of a webhook payload that carry message statuses
+const statusWebhookSchema = z.object({
+  entry: z.array(z.object({
+    changes: z.array(z.object({
+      value: z.object({
+        statuses: z.array(z.object({
+          id: z.string(),
+          status: z.string(),
+          errors: z.array(z.object({ title: z.string() })).optional()
+        })).optional()
+      })
+    })).optional()
+  })).optional()
+});
+
+const REPORTED_STATUSES = ["sent", "delivered", "read", "failed"] as const;
+
+// Pulls message status changes out of a webhook payload; other events are ignored
+export function parseStatusWebhook(payload: unknown): StatusUpdate[] {
+  const parsed = statusWebhookSchema.safeParse(payload);
+  if (!parsed.success) {
+    return [];
+  }
+
+  const updates: StatusUpdate[] = [];
+  for (const entry of parsed.data.entry ?? []) {
+    for (const change of entry.changes ?? []) {
+      for (const status of change.value.statuses ?? []) {
+        const reported = REPORTED_STATUSES.find((value) => value === status.status);
+        if (!reported) {
+          continue;
+        }
+        updates.push({
+          providerMessageId: status.id,
+          status: reported,
+          error: status.errors?.[0]?.title ?? null
+        });
+      }
+    }
+  }
+  return updates;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, primaryKey, unique, jsonb, json, varchar, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
@@ -12,12 +12,51 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Cookie sessions, kept by connect-pg-simple in the layout it expects
+export const httpSessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (t) => ({
+  expireIdx: index("IDX_session_expire").on(t.expire),
+}));
+
+// One-time codes sent on WhatsApp so returning players can sign back in. Only a hash of
+// the code is kept.
+export const loginCodes = pgTable("login_codes", {
+  id: serial("id").primaryKey(),
+  whatsappNumber: text("whatsapp_number").notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").default(0).notNull(), // Wrong codes entered so far
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Player tokens signed out before they expired. Rows can be dropped once the token
+// would have expired anyway.
+export const revokedUserTokens = pgTable("revoked_user_tokens", {
+  tokenId: text("token_id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at").defaultNow().notNull(),
+});
+
 export const gameSessions = pgTable("game_sessions", {
   id: serial("id").primaryKey(),
   sessionCode: text("session_code").notNull().unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completed: boolean("completed").default(false),
   matchPercentage: integer("match_percentage"),
+  completedAt: timestamp("completed_at"),
+  result: jsonb("result"), // Results frozen when the last player submits, see gameService.finalizeSession
+  capacity: integer("capacity").default(2).notNull(), // Number of players; more than 2 is a group session
+  packId: integer("pack_id").references(() => questionPacks.id), // Themed pack the deck was drawn from, if any
+  status: text("status").default("active").notNull(), // active, abandoned
+  expiresAt: timestamp("expires_at"), // Code can no longer be joined after this
+  // Session this one is a rematch of; each session can have at most one rematch
+  previousSessionId: integer("previous_session_id").references((): AnyPgColumn => gameSessions.id).unique(),
 });
 
 export const sessionParticipants = pgTable("session_participants", {
@@ -28,18 +67,74 @@ export const sessionParticipants = pgTable("session_participants", {
   pk: primaryKey(t.sessionId, t.userId),
 }));
 
+// Groups of questions that each session draws a fixed number of questions from
+export const questionPools = pgTable("question_pools", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  drawCount: integer("draw_count").default(1).notNull(), // Number of questions drawn per session deck
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const questions = pgTable("questions", {
   id: serial("id").primaryKey(),
   text: text("text").notNull(),
+  textAr: text("text_ar"), // Arabic translation, falls back to `text` when missing
   questionType: text("question_type").notNull(), // common or individual
+  weight: integer("weight").default(1).notNull(), // How much this question counts towards the overall score
+  poolId: integer("pool_id").references(() => questionPools.id),
+  category: text("category"), // One of QUESTION_CATEGORIES
 });
 
+export const QUESTION_CATEGORIES = ["travel", "food", "finances", "family", "faith", "humour"] as const;
+
+// Abandoned sessions were never filled or never finished; see the session sweeper
+export const SESSION_STATUSES = ["active", "abandoned"] as const;
+
+// Languages players can switch between; question content is stored per language
+export const SUPPORTED_LANGUAGES = ["en", "ar"] as const;
+
+// Named, hand-picked sets of questions (e.g. "Ramadan Edition") a session can be played with
+export const questionPacks = pgTable("question_packs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const questionPackItems = pgTable("question_pack_items", {
+  packId: integer("pack_id").references(() => questionPacks.id).notNull(),
+  questionId: integer("question_id").references(() => questions.id).notNull(),
+}, (t) => ({
+  pk: primaryKey(t.packId, t.questionId),
+}));
+
+// The deck of questions drawn for a session, so both partners answer the same set
+export const sessionQuestions = pgTable("session_questions", {
+  sessionId: integer("session_id").references(() => gameSessions.id).notNull(),
+  questionId: integer("question_id").references(() => questions.id).notNull(),
+  position: integer("position").notNull(),
+}, (t) => ({
+  pk: primaryKey(t.sessionId, t.questionId),
+}));
+
 export const questionOptions = pgTable("question_options", {
   id: serial("id").primaryKey(),
   questionId: integer("question_id")
     .references(() => questions.id)
     .notNull(),
   optionText: text("option_text").notNull(),
+  optionTextAr: text("option_text_ar"), // Arabic translation, falls back to `optionText` when missing
+});
+
+// Partial credit between two different options of the same question (one row per pair)
+export const optionSimilarities = pgTable("option_similarities", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").references(() => questions.id).notNull(),
+  optionId: integer("option_id").references(() => questionOptions.id).notNull(),
+  otherOptionId: integer("other_option_id").references(() => questionOptions.id).notNull(),
+  score: integer("score").notNull(), // Percentage of a full match (0-100)
 });
 
 export const userAnswers = pgTable("user_answers", {
@@ -48,20 +143,75 @@ export const userAnswers = pgTable("user_answers", {
   sessionId: integer("session_id").references(() => gameSessions.id).notNull(),
   questionId: integer("question_id").references(() => questions.id).notNull(),
   selectedOptionId: integer("selected_option_id").references(() => questionOptions.id).notNull(),
+  predictedOptionId: integer("predicted_option_id").references(() => questionOptions.id), // Guess of the partner's answer on individual questions
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (t) => ({
+  // Each player answers each question of a session once
+  oncePerQuestion: unique().on(t.sessionId, t.userId, t.questionId),
+}));
 
 export const vouchers = pgTable("vouchers", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").references(() => gameSessions.id).notNull(),
-  voucherCode: text("voucher_code").notNull(),
+  voucherCode: text("voucher_code").notNull().unique(),
   voucherType: text("voucher_type").notNull(),
   discount: text("discount").notNull(),
   validUntil: timestamp("valid_until").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   downloaded: boolean("downloaded").default(false),
+  templateId: integer("template_id").references(() => couponTemplates.id), // Template it was issued from; decides which merchant honours it
+  redeemedAt: timestamp("redeemed_at"), // Set once, when a partner restaurant redeems the voucher
+  redeemedBy: text("redeemed_by"), // Merchant that redeemed it
+  revokedAt: timestamp("revoked_at"), // Set when an admin withdraws the voucher; it can no longer be redeemed
+  revokedReason: text("revoked_reason"),
+  reissuedAsId: integer("reissued_as_id").references((): AnyPgColumn => vouchers.id), // Replacement issued when this one was revoked
+});
+
+// Outbox of messages reminding each player that their voucher is about to expire
+export const voucherReminders = pgTable("voucher_reminders", {
+  id: serial("id").primaryKey(),
+  voucherId: integer("voucher_id").references(() => vouchers.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  daysBefore: integer("days_before").notNull(), // One of VOUCHER_REMINDER_DAYS
+  recipient: text("recipient").notNull(), // WhatsApp number at the time it was queued
+  message: text("message").notNull(),
+  templateParameters: jsonb("template_parameters").$type<string[]>().default([]).notNull(), // See MessageTemplate in server/notifications.ts
+  status: text("status").default("pending").notNull(), // One of VOUCHER_REMINDER_STATUSES
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+}, (t) => ({
+  // Each player gets each reminder once
+  oncePerPlayer: unique().on(t.voucherId, t.userId, t.daysBefore),
+}));
+
+// Days before expiry that players are reminded of an unused voucher
+export const VOUCHER_REMINDER_DAYS = [7, 1] as const;
+// Cancelled reminders were for vouchers redeemed or revoked before the reminder went out
+export const VOUCHER_REMINDER_STATUSES = ["pending", "sent", "failed", "cancelled"] as const;
+
+// Every message sent to a player, with its delivery status as last reported by the provider
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // One of MESSAGE_KINDS
+  recipient: text("recipient").notNull(), // WhatsApp number
+  body: text("body").notNull(),
+  userId: integer("user_id").references(() => users.id), // Player it was sent to, when registered
+  sessionId: integer("session_id").references(() => gameSessions.id),
+  voucherId: integer("voucher_id").references(() => vouchers.id),
+  provider: text("provider").notNull(),
+  providerMessageId: text("provider_message_id"), // ID the provider reports status updates against
+  status: text("status").default("queued").notNull(), // One of MESSAGE_STATUSES
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const MESSAGE_KINDS = ["session_invite", "voucher", "voucher_reminder"] as const;
+// In the order a message moves through them; failed can follow any of the others
+export const MESSAGE_STATUSES = ["queued", "sent", "delivered", "read", "failed"] as const;
+
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
   privacyPolicyUrl: text("privacy_policy_url"),
@@ -72,22 +222,108 @@ export const settings = pgTable("settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Staff accounts for the admin area; what each can do depends on its role
+export const admins = pgTable("admins", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  name: text("name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull(), // One of ADMIN_ROLES
+  isActive: boolean("is_active").default(true).notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const ADMIN_ROLES = ["owner", "content_editor", "analyst", "voucher_operator"] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+// Roles allowed each part of the admin area, besides owners who are allowed everything
+export const ADMIN_PERMISSIONS = {
+  viewAnalytics: ["content_editor", "analyst", "voucher_operator"],
+  viewParticipants: ["analyst"],
+  manageParticipants: [],
+  viewMessages: ["analyst", "voucher_operator"],
+  manageQuestions: ["content_editor"],
+  viewVouchers: ["analyst", "voucher_operator"],
+  manageVouchers: ["voucher_operator"],
+  manageCoupons: ["voucher_operator"],
+  manageMerchants: [],
+  manageSettings: [],
+  manageAdmins: [],
+  viewAuditLog: [],
+} satisfies Record<string, readonly AdminRole[]>;
+export type AdminPermission = keyof typeof ADMIN_PERMISSIONS;
+
+export function hasAdminPermission(role: string, permission: AdminPermission): boolean {
+  return role === "owner" || (ADMIN_PERMISSIONS[permission] as readonly string[]).includes(role);
+}
+
+// Append-only record of changes made in the admin area. The admin is copied rather than
+// referenced so entries outlive deleted accounts.
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id"),
+  adminUsername: text("admin_username").notNull(),
+  action: text("action").notNull(), // One of AUDIT_ACTIONS
+  entityType: text("entity_type").notNull(), // One of AUDIT_ENTITY_TYPES
+  entityId: text("entity_id"),
+  before: jsonb("before"), // The entity before the change; null when it was created
+  after: jsonb("after"), // The entity after the change; null when it was deleted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "activate", "deactivate", "revoke", "extend", "reissue", "upload", "merge"] as const;
+export const AUDIT_ENTITY_TYPES = ["question", "question_pool", "question_pack", "settings", "logo", "coupon_template", "merchant", "voucher", "admin", "participant"] as const;
+
+// Partner businesses that honour vouchers; each has its own login for redeeming them
+export const merchants = pgTable("merchants", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  logoUrl: text("logo_url"),
+  address: text("address"),
+  contactName: text("contact_name"),
+  contactPhone: text("contact_phone"),
+  contactEmail: text("contact_email"),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const couponTemplates = pgTable("coupon_templates", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  merchantId: integer("merchant_id").references(() => merchants.id), // Business that honours the discount
   discountType: text("discount_type").notNull(), // percentage, fixed
   discountValue: text("discount_value").notNull(),
   currency: text("currency").default("AED").notNull(), // Currency for fixed amount discounts (AED, USD, etc.)
   validityDays: integer("validity_days").notNull(), // Number of days the coupon is valid
-  matchPercentageThreshold: integer("match_percentage_threshold").default(40).notNull(), // Minimum match percentage required
+  matchPercentageThreshold: integer("match_percentage_threshold").default(40).notNull(), // Lowest score in this tier's range
+  matchPercentageMax: integer("match_percentage_max").default(100).notNull(), // Highest score in this tier's range
+  priority: integer("priority").default(0).notNull(), // Higher wins when several tiers cover a score
+  isConsolation: boolean("is_consolation").default(false).notNull(), // Issued, regardless of score, when no scored tier can issue
   isActive: boolean("is_active").default(true),
+  maxIssuance: integer("max_issuance"), // Total vouchers the sponsor will honour; null for unlimited
+  dailyCap: integer("daily_cap"), // Vouchers that may be issued per day; null for unlimited
+  startsAt: timestamp("starts_at"), // Not issued before this time, if set
+  endsAt: timestamp("ends_at"), // Not issued after this time, if set
+  issuedCount: integer("issued_count").default(0).notNull(),
+  dailyIssuedCount: integer("daily_issued_count").default(0).notNull(), // Issued on dailyIssuedOn
+  dailyIssuedOn: date("daily_issued_on"), // Database date the daily count belongs to
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Relationships
-export const gameSessionsRelations = relations(gameSessions, ({ many }) => ({
+export const gameSessionsRelations = relations(gameSessions, ({ one, many }) => ({
+  pack: one(questionPacks, {
+    fields: [gameSessions.packId],
+    references: [questionPacks.id],
+  }),
   participants: many(sessionParticipants),
+  questions: many(sessionQuestions),
   answers: many(userAnswers),
   vouchers: many(vouchers),
 }));
@@ -103,9 +339,45 @@ export const sessionParticipantsRelations = relations(sessionParticipants, ({ on
   }),
 }));
 
-export const questionsRelations = relations(questions, ({ many }) => ({
+export const questionPoolsRelations = relations(questionPools, ({ many }) => ({
+  questions: many(questions),
+}));
+
+export const questionsRelations = relations(questions, ({ one, many }) => ({
+  pool: one(questionPools, {
+    fields: [questions.poolId],
+    references: [questionPools.id],
+  }),
   options: many(questionOptions),
   answers: many(userAnswers),
+  similarities: many(optionSimilarities),
+  packItems: many(questionPackItems),
+}));
+
+export const questionPacksRelations = relations(questionPacks, ({ many }) => ({
+  items: many(questionPackItems),
+}));
+
+export const questionPackItemsRelations = relations(questionPackItems, ({ one }) => ({
+  pack: one(questionPacks, {
+    fields: [questionPackItems.packId],
+    references: [questionPacks.id],
+  }),
+  question: one(questions, {
+    fields: [questionPackItems.questionId],
+    references: [questions.id],
+  }),
+}));
+
+export const sessionQuestionsRelations = relations(sessionQuestions, ({ one }) => ({
+  session: one(gameSessions, {
+    fields: [sessionQuestions.sessionId],
+    references: [gameSessions.id],
+  }),
+  question: one(questions, {
+    fields: [sessionQuestions.questionId],
+    references: [questions.id],
+  }),
 }));
 
 export const questionOptionsRelations = relations(questionOptions, ({ one }) => ({
@@ -115,6 +387,13 @@ export const questionOptionsRelations = relations(questionOptions, ({ one }) =>
   }),
 }));
 
+export const optionSimilaritiesRelations = relations(optionSimilarities, ({ one }) => ({
+  question: one(questions, {
+    fields: [optionSimilarities.questionId],
+    references: [questions.id],
+  }),
+}));
+
 export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
   user: one(users, {
     fields: [userAnswers.userId],
@@ -132,6 +411,10 @@ export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
     fields: [userAnswers.selectedOptionId],
     references: [questionOptions.id],
   }),
+  predictedOption: one(questionOptions, {
+    fields: [userAnswers.predictedOptionId],
+    references: [questionOptions.id],
+  }),
 }));
 
 export const vouchersRelations = relations(vouchers, ({ one }) => ({
@@ -139,14 +422,68 @@ export const vouchersRelations = relations(vouchers, ({ one }) => ({
     fields: [vouchers.sessionId],
     references: [gameSessions.id],
   }),
+  template: one(couponTemplates, {
+    fields: [vouchers.templateId],
+    references: [couponTemplates.id],
+  }),
+  reissuedAs: one(vouchers, {
+    fields: [vouchers.reissuedAsId],
+    references: [vouchers.id],
+  }),
 }));
 
+export const voucherRemindersRelations = relations(voucherReminders, ({ one }) => ({
+  voucher: one(vouchers, {
+    fields: [voucherReminders.voucherId],
+    references: [vouchers.id],
+  }),
+}));
+
+export const couponTemplatesRelations = relations(couponTemplates, ({ one, many }) => ({
+  merchant: one(merchants, {
+    fields: [couponTemplates.merchantId],
+    references: [merchants.id],
+  }),
+  vouchers: many(vouchers),
+}));
+
+export const merchantsRelations = relations(merchants, ({ many }) => ({
+  couponTemplates: many(couponTemplates),
+}));
+
+// Country codes whose local numbers start with a trunk 0 that isn't dialled from abroad
+const TRUNK_PREFIX_COUNTRY_CODES = ["971", "966", "91"];
+
+// Brings a WhatsApp number to E.164 (a + and digits only), so the same phone is stored the
+// same way however it was typed. Returns null when it isn't a full international number.
+export function normalizeWhatsappNumber(value: string): string | null {
+  let number = value.trim().replace(/[\s\-().]/g, "");
+  if (number.startsWith("00")) {
+    number = `+${number.slice(2)}`;
+  }
+  const countryCode = TRUNK_PREFIX_COUNTRY_CODES.find((code) => number.startsWith(`+${code}0`));
+  if (countryCode) {
+    number = `+${countryCode}${number.slice(countryCode.length + 2)}`;
+  }
+  return /^\+[1-9]\d{7,14}$/.test(number) ? number : null;
+}
+
+export const whatsappNumberSchema = z.string().transform((value, ctx) => {
+  const number = normalizeWhatsappNumber(value);
+  if (!number) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter the number with its country code, e.g. +971501234567" });
+    return z.NEVER;
+  }
+  return number;
+});
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users, {
   name: (schema) => schema.min(2, "Name must be at least 2 characters"),
   gender: (schema) => schema.refine(val => ["male", "female", "other", "prefer-not-to-say"].includes(val), "Invalid gender"),
   age: (schema) => schema.min(18, "You must be at least 18 years old").max(100, "Age must be 100 or below"),
-  whatsappNumber: (schema) => schema.min(8, "Please enter a valid WhatsApp number with country code"),
+}).extend({
+  whatsappNumber: whatsappNumberSchema,
 });
 
 export const insertGameSessionSchema = createInsertSchema(gameSessions, {
@@ -155,18 +492,126 @@ export const insertGameSessionSchema = createInsertSchema(gameSessions, {
 
 export const insertSessionParticipantSchema = createInsertSchema(sessionParticipants);
 export const insertQuestionSchema = createInsertSchema(questions);
+export const insertQuestionPackSchema = createInsertSchema(questionPacks, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters"),
+}).extend({
+  questionIds: z.array(z.number().int()).min(1, "A pack needs at least one question"),
+});
+export const insertQuestionPoolSchema = createInsertSchema(questionPools, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters"),
+  drawCount: (schema) => schema.min(1, "Draw count must be at least 1").max(50, "Draw count must be at most 50"),
+});
 export const insertQuestionOptionSchema = createInsertSchema(questionOptions);
 export const insertUserAnswerSchema = createInsertSchema(userAnswers);
 export const insertVoucherSchema = createInsertSchema(vouchers);
 export const insertSettingsSchema = createInsertSchema(settings);
 
+export const insertMerchantSchema = createInsertSchema(merchants, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters"),
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+}).omit({ id: true, passwordHash: true, createdAt: true, updatedAt: true }).extend({
+  contactEmail: z.string().email("Must be a valid email").optional().nullable().or(z.literal("")),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+export const insertAdminSchema = createInsertSchema(admins, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters"),
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+}).omit({ id: true, passwordHash: true, lastLoginAt: true, createdAt: true, updatedAt: true }).extend({
+  role: z.enum(ADMIN_ROLES),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+// On update the password is only changed when a new one is given
+export const updateAdminSchema = insertAdminSchema.extend({
+  password: z.string().min(8, "Password must be at least 8 characters").optional().or(z.literal("")),
+});
+// On update the password is only changed when a new one is given
+export const updateMerchantSchema = insertMerchantSchema.extend({
+  password: z.string().min(8, "Password must be at least 8 characters").optional().or(z.literal("")),
+});
+
 export const insertCouponTemplateSchema = createInsertSchema(couponTemplates, {
   name: (schema) => schema.min(2, "Name must be at least 2 characters"),
   discountType: (schema) => schema.refine(val => ["percentage", "fixed"].includes(val), "Discount type must be percentage or fixed"),
   discountValue: (schema) => schema.min(1, "Discount value is required"),
   validityDays: (schema) => schema.min(1, "Validity days must be at least 1"),
   matchPercentageThreshold: (schema) => schema.min(0, "Threshold must be at least 0").max(100, "Threshold must be at most 100"),
+  matchPercentageMax: (schema) => schema.min(0, "Maximum must be at least 0").max(100, "Maximum must be at most 100"),
+  maxIssuance: (schema) => schema.min(1, "Maximum vouchers must be at least 1"),
+  dailyCap: (schema) => schema.min(1, "Daily cap must be at least 1"),
+}).omit({ issuedCount: true, dailyIssuedCount: true, dailyIssuedOn: true }).extend({
+  // Sent as ISO strings from the admin form
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+}).refine(
+  (template) => !template.startsAt || !template.endsAt || template.startsAt < template.endsAt,
+  { message: "End date must be after the start date", path: ["endsAt"] }
+).refine(
+  (template) => template.matchPercentageMax === undefined || template.matchPercentageThreshold === undefined ||
+    template.matchPercentageThreshold <= template.matchPercentageMax,
+  { message: "Range maximum must not be below the minimum", path: ["matchPercentageMax"] }
+).refine(
+  // Merchants only see vouchers from their own templates, so one with no merchant couldn't be redeemed
+  (template) => template.isActive === false || (template.merchantId !== null && template.merchantId !== undefined),
+  { message: "Choose the merchant that honours this template before activating it", path: ["merchantId"] }
+);
+// Admin voucher management
+export const VOUCHER_STATUSES = ["valid", "redeemed", "expired", "revoked"] as const;
+export const voucherIdsSchema = z.array(z.number().int().positive()).min(1, "Select at least one voucher").max(500, "Select at most 500 vouchers");
+export const revokeVouchersSchema = z.object({
+  voucherIds: voucherIdsSchema,
+  reason: z.string().trim().min(3, "Reason must be at least 3 characters").max(500),
+});
+// Folds duplicate registrations of one person into the account that is kept
+export const mergeParticipantsSchema = z.object({
+  survivorId: z.number().int().positive(),
+  duplicateIds: z.array(z.number().int().positive()).min(1, "Select at least one account to merge").max(50, "Select at most 50 accounts"),
+}).refine((data) => !data.duplicateIds.includes(data.survivorId), {
+  message: "An account can't be merged into itself",
+  path: ["duplicateIds"],
+});
+export const reissueVoucherSchema = z.object({
+  reason: z.string().trim().min(3, "Reason must be at least 3 characters").max(500),
+});
+export const extendVouchersSchema = z.object({
+  voucherIds: voucherIdsSchema,
+  validUntil: z.coerce.date().refine((date) => date > new Date(), "New expiry must be in the future"),
+});
+// A partner's number for a session invite, in international format
+export const sessionInviteSchema = z.object({
+  whatsappNumber: whatsappNumberSchema,
+});
+export const loginCodeRequestSchema = z.object({
+  whatsappNumber: whatsappNumberSchema,
+});
+export const loginCodeVerifySchema = loginCodeRequestSchema.extend({
+  code: z.string().trim().regex(/^\d{6}$/, "The code has 6 digits"),
 });
+// A player's answers to a session's deck, sent all at once
+export const submitAnswersSchema = z.array(z.object({
+  questionId: z.number().int().positive(),
+  optionId: z.number().int().positive(),
+  predictedOptionId: z.number().int().positive().nullable().optional(),
+})).min(1, "Answer at least one question");
+export const couponPreviewSchema = z.object({
+  score: z.coerce.number().int().min(0, "Score must be at least 0").max(100, "Score must be at most 100"),
+});
+// Options being edited keep their id, so answers already given to them stay attached
+export const questionOptionInputSchema = z.object({
+  id: z.number().int().optional(),
+  optionText: z.string().min(1, "Option text is required"),
+  optionTextAr: z.string().optional().nullable(),
+});
+// Similarities are submitted by option position since new options have no id yet
+export const optionSimilarityInputSchema = z.object({
+  optionIndex: z.number().int().min(0),
+  otherOptionIndex: z.number().int().min(0),
+  score: z.number().int().min(0, "Score must be at least 0").max(100, "Score must be at most 100"),
+});
+
+export const sessionCapacitySchema = z.coerce.number().int().min(2, "A session needs at least 2 players").max(8, "A session can have at most 8 players");
+export const questionWeightSchema = z.coerce.number().int().min(1, "Weight must be at least 1").max(10, "Weight must be at most 10");
+export const questionCategorySchema = z.enum(QUESTION_CATEGORIES).nullable();
+
 export const updateSettingsSchema = z.object({
   privacyPolicyUrl: z.string().url("Must be a valid URL").optional().nullable(),
   termsAndConditionsUrl: z.string().url("Must be a valid URL").optional().nullable(),
@@ -178,18 +623,49 @@ export const updateSettingsSchema = z.object({
 // Types
 export type User = typeof users.$inferSelect;
 export type UserInsert = z.infer<typeof insertUserSchema>;
+export type LoginCode = typeof loginCodes.$inferSelect;
 
 export type GameSession = typeof gameSessions.$inferSelect;
 export type GameSessionInsert = z.infer<typeof insertGameSessionSchema>;
 
 export type SessionParticipant = typeof sessionParticipants.$inferSelect;
 export type Question = typeof questions.$inferSelect;
+export type QuestionPool = typeof questionPools.$inferSelect;
+export type QuestionPack = typeof questionPacks.$inferSelect;
+export type QuestionPackInsert = z.infer<typeof insertQuestionPackSchema>;
+export type QuestionCategory = typeof QUESTION_CATEGORIES[number];
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+export type SessionStatus = typeof SESSION_STATUSES[number];
+export type QuestionPoolInsert = z.infer<typeof insertQuestionPoolSchema>;
+export type SessionQuestion = typeof sessionQuestions.$inferSelect;
 export type QuestionOption = typeof questionOptions.$inferSelect;
+export type OptionSimilarity = typeof optionSimilarities.$inferSelect;
 export type UserAnswer = typeof userAnswers.$inferSelect;
 export type Voucher = typeof vouchers.$inferSelect;
+export type VoucherStatus = typeof VOUCHER_STATUSES[number];
+export type VoucherReminder = typeof voucherReminders.$inferSelect;
+export type VoucherReminderStatus = typeof VOUCHER_REMINDER_STATUSES[number];
+export type Message = typeof messages.$inferSelect;
+export type MessageKind = typeof MESSAGE_KINDS[number];
+export type MessageStatus = typeof MESSAGE_STATUSES[number];
 export type Settings = typeof settings.$inferSelect;
 export type SettingsUpdate = z.infer<typeof updateSettingsSchema>;
 
+export type Admin = typeof admins.$inferSelect;
+// What the admin area sees about staff accounts: never the password hash
+export type AdminPublic = Omit<Admin, "passwordHash">;
+export type AdminInsert = z.infer<typeof insertAdminSchema>;
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export type Merchant = typeof merchants.$inferSelect;
+// What admins and the voucher see: never the password hash
+export type MerchantPublic = Omit<Merchant, "passwordHash">;
+export type MerchantInsert = z.infer<typeof insertMerchantSchema>;
+export type MerchantUpdate = z.infer<typeof updateMerchantSchema>;
+
 export type CouponTemplate = typeof couponTemplates.$inferSelect;
 export type CouponTemplateInsert = z.infer<typeof insertCouponTemplateSchema>;
 
@@ -200,3 +676,85 @@ export const adminLoginSchema = z.object({
 });
 
 export type AdminLogin = z.infer<typeof adminLoginSchema>;
+
+// Merchant Login schema (not stored in database)
+export const merchantLoginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export type MerchantLogin = z.infer<typeof merchantLoginSchema>;
+
+// A question of a session's deck, in the language the player asked for
+export interface GameQuestion {
+  id: number;
+  text: string;
+  options: {
+    id: number;
+    text: string;
+  }[];
+  type: "common" | "individual";
+}
+
+export interface PredictionResult {
+  question: string;
+  guess: string;
+  actual: string;
+  correct: boolean;
+  // Percentage of a full match, accounting for similar options
+  credit: number;
+}
+
+export interface ScoreBreakdownItem {
+  question: string;
+  category: string | null;
+  kind: "agreement" | "prediction";
+  weight: number;
+  // Percentage of a full match earned on this question
+  credit: number;
+}
+
+// Compatibility of a session's players, written from one player's point of view
+export interface MatchResult {
+  matchPercentage: number;
+  // How often you chose the same answer on common questions
+  agreementPercentage: number;
+  // How often you correctly predicted each other's answers on individual questions
+  knowledgePercentage: number;
+  matchingAnswers: {
+    question: string;
+    answer: string;
+  }[];
+  nonMatchingAnswers: {
+    question: string;
+    yourAnswer: string;
+    partnerAnswer: string;
+    credit: number;
+  }[];
+  yourPredictions: PredictionResult[];
+  partnerPredictions: PredictionResult[];
+  breakdown: ScoreBreakdownItem[];
+  categoryScores: {
+    category: string;
+    percentage: number;
+  }[];
+  // Only set for group sessions (more than two players)
+  group?: GroupResult;
+  sessionId: number;
+}
+
+export interface PairScore {
+  userId: number;
+  otherUserId: number;
+  matchPercentage: number;
+}
+
+export interface GroupResult {
+  participants: {
+    id: number;
+    name: string;
+  }[];
+  // Compatibility for every pair of players
+  pairs: PairScore[];
+  mostCompatiblePair: PairScore | null;
+}